@@ -1,9 +1,11 @@
 import { storeToRefs } from 'pinia'
+import { Euler, MathUtils, Quaternion, Vector3 } from 'three'
 import { useEditorStore } from '../../stores/editorStore'
 import { useUIStore } from '../../stores/uiStore'
 import { useSettingsStore } from '../../stores/settingsStore'
 import { useGameDataStore } from '../../stores/gameDataStore'
 import { useEditorHistory } from './useEditorHistory'
+import { useSurfaceSampler } from './useSurfaceSampler'
 import { matrixTransform } from '../../lib/matrixTransform'
 import { getThreeModelManager } from '../useThreeModelManager'
 import {
@@ -14,6 +16,8 @@ import {
   shouldInvertForYAxis,
   type UnitProjection,
 } from '../../lib/alignmentHelpers'
+import { mergeOBBs } from '../../lib/collision'
+import { rotateItemsInWorkingCoordinate } from '../../lib/rotationTransform'
 import type { AppItem } from '../../types/editor'
 
 /**
@@ -26,6 +30,13 @@ interface AlignUnit {
   items: AppItem[] // 单个物品或组内所有成员
 }
 
+// 落到表面：射线起点高于采样点的距离，允许轻微穿插的物品抬回表面
+const DROP_RAY_START_OFFSET = 1
+// 落到表面：底面角点向底面中心内缩的比例，避免射线擦着边缘落空
+const DROP_SAMPLE_INSET = 0.05
+// 落到表面：法线与物品朝上方向夹角小于该值（弧度）时不调整旋转
+const DROP_ALIGN_MIN_ANGLE = 1e-3
+
 interface GroupOriginContext {
   groupId: number
   originItem: AppItem
@@ -48,6 +59,7 @@ export function useEditorAlignment() {
   const gameDataStore = useGameDataStore()
   const { activeScheme } = storeToRefs(store)
   const { recordTransaction } = useEditorHistory()
+  const { sampleSurface } = useSurfaceSampler()
 
   /**
    * 获取当前选区可用的组合原点上下文
@@ -751,8 +763,141 @@ export function useEditorAlignment() {
     })
   }
 
+  /**
+   * 计算对齐单元包围盒的底部采样点（世界空间）
+   *
+   * 返回底面中心和最低的 4 个角点（略向中心内缩）；物品倾斜时底面不水平，各点高度不同。
+   */
+  function getUnitBottomSamples(
+    items: AppItem[],
+    currentMode: 'box' | 'icon' | 'simple-box' | 'model',
+    modelManager: ReturnType<typeof getThreeModelManager>
+  ): { center: Vector3; up: Vector3; samples: Vector3[] } {
+    const obbs = items.map((item) => buildItemOBB(item, currentMode, gameDataStore, modelManager))
+    // 单个物品保留自身朝向，组合使用合并后的轴对齐包围盒
+    const obb = obbs.length === 1 ? obbs[0]! : mergeOBBs(obbs)
+
+    const corners = obb
+      .getCorners()
+      .sort((a, b) => a.z - b.z)
+      .slice(0, 4)
+    const center = new Vector3()
+    corners.forEach((corner) => center.add(corner))
+    center.multiplyScalar(1 / corners.length)
+
+    // 朝上的局部轴：与世界 Z 最接近的那条
+    const up = obb.axes
+      .map((axis) => (axis.z < 0 ? axis.clone().negate() : axis.clone()))
+      .reduce((best, axis) => (axis.z > best.z ? axis : best))
+
+    return {
+      center,
+      up,
+      samples: [center, ...corners.map((corner) => corner.lerp(center, DROP_SAMPLE_INSET))],
+    }
+  }
+
+  /**
+   * 单元是否允许绕 X/Y 轴旋转（贴合法线需要）
+   */
+  function canTiltUnit(unit: AlignUnit): boolean {
+    if (!settingsStore.settings.enableLimitDetection) return true
+    return unit.items.every((item) => {
+      const allowed = gameDataStore.getFurniture(item.gameId)?.rotationAllowed
+      return !allowed || (allowed.x && allowed.y)
+    })
+  }
+
+  /**
+   * 将选中物品落到下方表面
+   *
+   * 每个对齐单元（单个物品或整组）从包围盒底部向下做射线检测，
+   * 下降到最先接触的表面上；未命中任何物品时以 Z=0 地面为准。
+   * 参与落下的物品彼此不作为支撑面（检测基于移动前的场景）。
+   *
+   * @param alignToNormal - 是否同时将单元朝上方向旋转到与表面法线一致
+   *                        （启用限制检测且家具不允许 X/Y 旋转时跳过）
+   */
+  function dropSelectedToSurface(alignToNormal = false) {
+    if (!activeScheme.value) return
+
+    const scheme = activeScheme.value
+    const selectedIds = scheme.selectedItemIds.value
+    if (selectedIds.size === 0) return
+
+    recordTransaction(
+      alignToNormal ? 'align.drop_to_surface_normal' : 'align.drop_to_surface',
+      () => {
+        const currentMode = settingsStore.settings.threeDisplayMode
+        const modelManager = getThreeModelManager()
+        const alignUnits = buildAlignUnits(selectedIds)
+
+        const movingIds = new Set<string>()
+        alignUnits.forEach((unit) => unit.items.forEach((item) => movingIds.add(item.internalId)))
+        const filter = (internalId: string) => !movingIds.has(internalId)
+
+        // 世界空间采样点向下检测，返回该点下方的表面（数据空间 Z 与世界 Z 相同）
+        const sampleBelow = (point: Vector3) =>
+          sampleSurface(point.x, -point.y, { fromZ: point.z + DROP_RAY_START_OFFSET, filter })
+
+        const updatedItems = new Map<string, AppItem>()
+
+        for (const unit of alignUnits) {
+          let items = unit.items
+
+          if (alignToNormal && canTiltUnit(unit)) {
+            const { center, up } = getUnitBottomSamples(items, currentMode, modelManager)
+            const normal = sampleBelow(center)?.normal
+
+            if (normal) {
+              // 数据空间 → 世界空间（Y 翻转）
+              const worldNormal = new Vector3(normal.x, -normal.y, normal.z).normalize()
+              if (up.angleTo(worldNormal) > DROP_ALIGN_MIN_ANGLE) {
+                const euler = new Euler().setFromQuaternion(
+                  new Quaternion().setFromUnitVectors(up, worldNormal),
+                  'ZYX'
+                )
+                // rotateItemsInWorkingCoordinate 的 Z 角度取负后构建矩阵，这里预先取负抵消
+                items = rotateItemsInWorkingCoordinate(
+                  items,
+                  {
+                    x: MathUtils.radToDeg(euler.x),
+                    y: MathUtils.radToDeg(euler.y),
+                    z: -MathUtils.radToDeg(euler.z),
+                  },
+                  { x: center.x, y: -center.y, z: center.z },
+                  { x: 0, y: 0, z: 0 }
+                )
+              }
+            }
+          }
+
+          // 各采样点到其下方表面的距离取最小值，即最先接触的位置
+          const { samples } = getUnitBottomSamples(items, currentMode, modelManager)
+          let dropDistance = Infinity
+          for (const point of samples) {
+            const surfaceZ = sampleBelow(point)?.z ?? 0
+            dropDistance = Math.min(dropDistance, point.z - surfaceZ)
+          }
+
+          if (!Number.isFinite(dropDistance)) continue
+          items.forEach((item) => {
+            updatedItems.set(item.internalId, { ...item, z: item.z - dropDistance })
+          })
+        }
+
+        scheme.items.value = scheme.items.value.map(
+          (item) => updatedItems.get(item.internalId) ?? item
+        )
+
+        store.triggerSceneUpdate()
+      }
+    )
+  }
+
   return {
     alignSelectedItems,
     distributeSelectedItems,
+    dropSelectedToSurface,
   }
 }
@@ -0,0 +1,55 @@
+import { computed } from 'vue'
+import { useEditorStore } from '../../stores/editorStore'
+import { createDimensionAnchor } from '../../lib/dimensions'
+import type { DimensionAnnotation, MeasurePoint } from '../../types/editor'
+
+/**
+ * 尺寸标注管理
+ *
+ * 标注随方案保存，端点锚定到吸附的物品上（物品移动后跟随）。
+ * 标注属于编辑器元数据，不进入撤销历史。
+ */
+export function useEditorDimensions() {
+  const store = useEditorStore()
+
+  const dimensions = computed(() => store.activeScheme?.dimensions.value ?? [])
+
+  function updateDimensions(update: (dimensions: DimensionAnnotation[]) => DimensionAnnotation[]) {
+    const scheme = store.activeScheme
+    if (!scheme) return
+    scheme.dimensions.value = update(scheme.dimensions.value)
+  }
+
+  /**
+   * 把一次测量固定为尺寸标注
+   */
+  function addDimension(start: MeasurePoint, end: MeasurePoint): DimensionAnnotation | null {
+    if (!store.activeScheme) return null
+
+    const resolveItem = (point: MeasurePoint) =>
+      point.itemId ? store.itemsMap.get(point.itemId) : undefined
+
+    const dimension: DimensionAnnotation = {
+      id: crypto.randomUUID(),
+      start: createDimensionAnchor(start.position, resolveItem(start)),
+      end: createDimensionAnchor(end.position, resolveItem(end)),
+    }
+    updateDimensions((current) => [...current, dimension])
+    return dimension
+  }
+
+  function removeDimension(id: string) {
+    updateDimensions((current) => current.filter((dimension) => dimension.id !== id))
+  }
+
+  function clearDimensions() {
+    updateDimensions(() => [])
+  }
+
+  return {
+    dimensions,
+    addDimension,
+    removeDimension,
+    clearDimensions,
+  }
+}
@@ -0,0 +1,140 @@
+import { computed } from 'vue'
+import { useEditorStore } from '../../stores/editorStore'
+import { useEditorSelection } from './useEditorSelection'
+import { isItemInLevel, sortLevels, suggestLevelRange } from '../../lib/levels'
+import type { SchemeLevel } from '../../types/editor'
+
+/**
+ * 楼层管理
+ *
+ * 楼层定义随方案保存，当前楼层只在本次会话有效。
+ * 选中楼层后只渲染 / 选择该楼层的物品（其他楼层按设置隐藏或半透明显示）。
+ * 楼层属于编辑器元数据，不进入撤销历史。
+ */
+export function useEditorLevels() {
+  const store = useEditorStore()
+  const { deselectItems } = useEditorSelection()
+
+  const levels = computed(() => sortLevels(store.activeScheme?.levels.value ?? []))
+  const activeLevel = computed(() => store.activeLevel)
+
+  // 统计每个楼层包含的物品数量（含隐藏物品）
+  const levelItemCounts = computed(() => {
+    const counts = new Map<string, number>()
+    const items = store.activeScheme?.items.value ?? []
+    for (const level of levels.value) {
+      let count = 0
+      for (const item of items) {
+        if (isItemInLevel(item, level)) count++
+      }
+      counts.set(level.id, count)
+    }
+    return counts
+  })
+
+  function updateLevels(update: (levels: SchemeLevel[]) => SchemeLevel[]) {
+    const scheme = store.activeScheme
+    if (!scheme) return
+    scheme.levels.value = update(scheme.levels.value)
+  }
+
+  /**
+   * 新建楼层（有选中物品时覆盖选区的高度范围，否则叠在最高楼层之上）
+   */
+  function addLevel(name: string): SchemeLevel | null {
+    const scheme = store.activeScheme
+    if (!scheme) return null
+
+    const selectedIds = scheme.selectedItemIds.value
+    const selectedItems =
+      selectedIds.size > 0
+        ? scheme.items.value.filter((item) => selectedIds.has(item.internalId))
+        : []
+
+    const level: SchemeLevel = {
+      id: crypto.randomUUID(),
+      name,
+      ...suggestLevelRange(scheme.levels.value, selectedItems),
+    }
+    updateLevels((current) => [...current, level])
+    return level
+  }
+
+  function updateLevel(id: string, patch: Partial<Omit<SchemeLevel, 'id'>>) {
+    updateLevels((current) =>
+      current.map((level) => (level.id === id ? { ...level, ...patch } : level))
+    )
+
+    // 修改当前楼层的范围会改变可见物品
+    if (store.activeScheme?.activeLevelId.value === id) {
+      applyActiveLevelChange()
+    }
+  }
+
+  function deleteLevel(id: string) {
+    const scheme = store.activeScheme
+    if (!scheme) return
+
+    updateLevels((current) => current.filter((level) => level.id !== id))
+    if (scheme.activeLevelId.value === id) {
+      setActiveLevel(null)
+    }
+  }
+
+  /**
+   * 切换当前楼层（null 表示显示全部楼层）
+   */
+  function setActiveLevel(id: string | null) {
+    const scheme = store.activeScheme
+    if (!scheme || scheme.activeLevelId.value === id) return
+
+    scheme.activeLevelId.value = id
+    applyActiveLevelChange()
+  }
+
+  // 切换到相邻楼层（direction: 1 向上，-1 向下）
+  function stepActiveLevel(direction: 1 | -1) {
+    const list = levels.value
+    if (list.length === 0) return
+
+    const currentIndex = list.findIndex((level) => level.id === activeLevel.value?.id)
+    const nextIndex =
+      currentIndex === -1
+        ? direction > 0
+          ? 0
+          : list.length - 1
+        : Math.min(list.length - 1, Math.max(0, currentIndex + direction))
+    setActiveLevel(list[nextIndex]!.id)
+  }
+
+  // 当前楼层以外的物品移出选区，并重建渲染
+  function applyActiveLevelChange() {
+    const scheme = store.activeScheme
+    const level = store.activeLevel
+    if (!scheme) return
+
+    if (level && scheme.selectedItemIds.value.size > 0) {
+      const outside: string[] = []
+      for (const id of scheme.selectedItemIds.value) {
+        const item = store.itemsMap.get(id)
+        if (!item || !isItemInLevel(item, level)) outside.push(id)
+      }
+      if (outside.length > 0) {
+        deselectItems(outside, { skipGroupExpansion: true })
+      }
+    }
+
+    store.triggerSceneUpdate()
+  }
+
+  return {
+    levels,
+    activeLevel,
+    levelItemCounts,
+    addLevel,
+    updateLevel,
+    deleteLevel,
+    setActiveLevel,
+    stepActiveLevel,
+  }
+}
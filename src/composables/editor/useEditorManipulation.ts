@@ -531,6 +531,8 @@ export function useEditorManipulation() {
       y: number
       z: number
       rotation: { x: number; y: number; z: number }
+      // 可选：同时写回缩放（省略时保持原缩放）
+      scale?: AppItem['extra']['Scale']
     }[],
     options: { recordHistory?: boolean } = { recordHistory: true }
   ) {
@@ -542,9 +544,15 @@ export function useEditorManipulation() {
       // 这里必须重产新引用以便事务引擎抓包
       activeScheme.value!.items.value = activeScheme.value!.items.value.map((item) => {
         const update = updateMap.get(item.internalId)
-        return update
-          ? { ...item, x: update.x, y: update.y, z: update.z, rotation: update.rotation }
-          : item
+        if (!update) return item
+        return {
+          ...item,
+          x: update.x,
+          y: update.y,
+          z: update.z,
+          rotation: update.rotation,
+          extra: update.scale ? { ...item.extra, Scale: update.scale } : item.extra,
+        }
       })
       store.triggerSceneUpdate()
     }
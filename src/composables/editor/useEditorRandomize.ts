@@ -0,0 +1,156 @@
+import { useEditorStore } from '../../stores/editorStore'
+import { useUIStore } from '../../stores/uiStore'
+import { useSettingsStore } from '../../stores/settingsStore'
+import { useGameDataStore } from '../../stores/gameDataStore'
+import { useEditorManipulation } from './useEditorManipulation'
+import { createSeededRandom } from '../../lib/scatter'
+import type { AppItem, RandomizeTransformConfig } from '../../types/editor'
+
+// 预览开始前选中物品的原始变换
+interface TransformSnapshot {
+  id: string
+  gameId: number
+  x: number
+  y: number
+  z: number
+  rotation: { x: number; y: number; z: number }
+  scale: AppItem['extra']['Scale']
+}
+
+/**
+ * 随机化选中物品的变换
+ *
+ * 预览阶段不记录历史，始终从预览前的原始变换重新计算，因此同一 seed 和参数得到相同结果；
+ * 应用时先还原原始变换，再通过 commitBatchedTransform 记录为一条事务。
+ * 启用限制检测时，只在家具允许的轴上旋转，缩放截断到 scaleRange。
+ */
+export function useEditorRandomize() {
+  const store = useEditorStore()
+  const uiStore = useUIStore()
+  const settingsStore = useSettingsStore()
+  const gameDataStore = useGameDataStore()
+  const { commitBatchedTransform } = useEditorManipulation()
+
+  let baseSnapshots: TransformSnapshot[] | null = null
+  // 最近一次预览写入后的 items 引用，用于判断期间是否有其他操作改动了方案
+  let previewItems: AppItem[] | null = null
+
+  function captureSelection(): TransformSnapshot[] {
+    const scheme = store.activeScheme
+    if (!scheme) return []
+
+    const ids = scheme.selectedItemIds.value
+    return scheme.items.value
+      .filter((item) => ids.has(item.internalId))
+      .map((item) => ({
+        id: item.internalId,
+        gameId: item.gameId,
+        x: item.x,
+        y: item.y,
+        z: item.z,
+        rotation: { ...item.rotation },
+        scale: { ...item.extra.Scale },
+      }))
+  }
+
+  function isPreviewIntact(): boolean {
+    return !!previewItems && store.activeScheme?.items.value === previewItems
+  }
+
+  function buildRandomizedTransforms(
+    snapshots: TransformSnapshot[],
+    config: RandomizeTransformConfig
+  ): TransformSnapshot[] {
+    const random = createSeededRandom(config.seed)
+    const signed = () => random() * 2 - 1
+    const limitDetection = settingsStore.settings.enableLimitDetection
+
+    return snapshots.map((snapshot) => {
+      // 每件物品固定消耗 7 个随机数，调整某一项范围不会打乱其他项的结果
+      const workingOffset = {
+        x: signed() * config.position.x,
+        y: signed() * config.position.y,
+        z: signed() * config.position.z,
+      }
+      const rotationOffset = {
+        x: signed() * config.rotation.x,
+        y: signed() * config.rotation.y,
+        z: signed() * config.rotation.z,
+      }
+      const scaleFactor = config.scale.min + random() * (config.scale.max - config.scale.min)
+
+      const furniture = limitDetection ? gameDataStore.getFurniture(snapshot.gameId) : undefined
+      const rotationAllowed = furniture?.rotationAllowed ?? { x: true, y: true, z: true }
+      const [scaleMin, scaleMax] = furniture?.scaleRange ?? [0, Infinity]
+      // 统一缩放：把系数限制在让三个轴都落在 scaleRange 内的区间；各轴差异过大无解时保持原缩放
+      const axisScales = [snapshot.scale.X, snapshot.scale.Y, snapshot.scale.Z].filter((v) => v > 0)
+      const factorMin = Math.max(...axisScales.map((v) => scaleMin / v))
+      const factorMax = Math.min(...axisScales.map((v) => scaleMax / v))
+      const clampedFactor =
+        factorMin <= factorMax ? Math.max(factorMin, Math.min(factorMax, scaleFactor)) : 1
+
+      const dataOffset = uiStore.workingDeltaToData(workingOffset)
+
+      return {
+        ...snapshot,
+        x: snapshot.x + dataOffset.x,
+        y: snapshot.y + dataOffset.y,
+        z: snapshot.z + dataOffset.z,
+        rotation: {
+          x: snapshot.rotation.x + (rotationAllowed.x ? rotationOffset.x : 0),
+          y: snapshot.rotation.y + (rotationAllowed.y ? rotationOffset.y : 0),
+          z: snapshot.rotation.z + rotationOffset.z,
+        },
+        scale: {
+          X: snapshot.scale.X * clampedFactor,
+          Y: snapshot.scale.Y * clampedFactor,
+          Z: snapshot.scale.Z * clampedFactor,
+        },
+      }
+    })
+  }
+
+  /**
+   * 预览随机化结果（不记录历史）
+   */
+  function previewRandomize(config: RandomizeTransformConfig) {
+    // 预览期间方案被其他操作改动（如撤销、拖拽）时，以当前状态作为新的原始变换
+    if (!baseSnapshots || !isPreviewIntact()) {
+      baseSnapshots = captureSelection()
+    }
+    if (baseSnapshots.length === 0) return
+
+    commitBatchedTransform(buildRandomizedTransforms(baseSnapshots, config), {
+      recordHistory: false,
+    })
+    previewItems = store.activeScheme?.items.value ?? null
+  }
+
+  /**
+   * 取消预览，还原原始变换
+   */
+  function cancelRandomizePreview() {
+    if (baseSnapshots && isPreviewIntact()) {
+      commitBatchedTransform(baseSnapshots, { recordHistory: false })
+    }
+    baseSnapshots = null
+    previewItems = null
+  }
+
+  /**
+   * 应用随机化（记录为一条事务）
+   */
+  function applyRandomize(config: RandomizeTransformConfig) {
+    const snapshots = baseSnapshots && isPreviewIntact() ? baseSnapshots : captureSelection()
+    cancelRandomizePreview()
+    if (snapshots.length === 0) return
+
+    commitBatchedTransform(buildRandomizedTransforms(snapshots, config), { recordHistory: true })
+  }
+
+  return {
+    previewRandomize,
+    cancelRandomizePreview,
+    applyRandomize,
+  }
+}
@@ -0,0 +1,84 @@
+import { toRaw } from 'vue'
+import { useEditorStore } from '../../stores/editorStore'
+import { useGameDataStore } from '../../stores/gameDataStore'
+import { useEditorHistory } from './useEditorHistory'
+import { useSurfaceSampler } from './useSurfaceSampler'
+import { createSeededRandom, samplePoissonDiskInPolygon } from '../../lib/scatter'
+import type { AppItem, ScatterConfig, ScatterRegion } from '../../types/editor'
+
+/**
+ * 散布工具
+ *
+ * 在区域内按 Poisson-disk 间距随机放置模板家具的副本，可随机朝向、在 scaleRange 内随机缩放，
+ * 并可贴合下方表面。同一 seed、区域和参数得到相同结果；整次散布记录为一条事务。
+ */
+export function useEditorScatter() {
+  const store = useEditorStore()
+  const gameDataStore = useGameDataStore()
+  const { recordTransaction } = useEditorHistory()
+  const { sampleSurfaceHeight } = useSurfaceSampler()
+
+  function getRandomScale(template: AppItem, random: () => number): AppItem['extra']['Scale'] {
+    const scaleRange = gameDataStore.getFurniture(template.gameId)?.scaleRange
+    if (!scaleRange) return { ...template.extra.Scale }
+
+    const [min, max] = scaleRange
+    const scale = min + random() * (max - min)
+    return { X: scale, Y: scale, Z: scale }
+  }
+
+  /**
+   * 执行散布
+   * @param templates - 模板物品（每件副本从中随机挑选一种）
+   * @returns 新物品的 internalId 列表；区域放不下时少于 config.count
+   */
+  function scatterItems(
+    templates: AppItem[],
+    region: ScatterRegion,
+    config: ScatterConfig
+  ): string[] {
+    const scheme = store.activeScheme
+    if (!scheme || templates.length === 0) return []
+
+    const random = createSeededRandom(config.seed)
+    const points = samplePoissonDiskInPolygon(region.points, config.count, config.spacing, random)
+    if (points.length === 0) return []
+
+    return recordTransaction('item.scatter', () => {
+      let maxInstanceId = scheme.maxInstanceId.value
+
+      const newItems = points.map((point): AppItem => {
+        const template = templates[Math.floor(random() * templates.length)]!
+        const yaw = random() * 360 - 180
+        const scale = config.randomScale ? getRandomScale(template, random) : null
+        const surfaceZ = config.followSurface ? sampleSurfaceHeight(point.x, point.y) : null
+        const item = structuredClone(toRaw(template))
+
+        return {
+          ...item,
+          internalId: crypto.randomUUID(),
+          instanceId: ++maxInstanceId,
+          groupId: 0,
+          x: point.x,
+          y: point.y,
+          z: surfaceZ ?? region.z,
+          rotation: config.randomYaw ? { ...item.rotation, z: yaw } : item.rotation,
+          extra: scale ? { ...item.extra, Scale: scale } : item.extra,
+        }
+      })
+
+      const newIds = newItems.map((item) => item.internalId)
+      scheme.items.value = [...scheme.items.value, ...newItems]
+      scheme.maxInstanceId.value = maxInstanceId
+      scheme.selectedItemIds.value = new Set(newIds)
+      store.triggerSceneUpdate()
+      store.triggerSelectionUpdate()
+
+      return newIds
+    })
+  }
+
+  return {
+    scatterItems,
+  }
+}
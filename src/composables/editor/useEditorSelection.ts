@@ -1,10 +1,11 @@
 import { storeToRefs } from 'pinia'
-import { useEditorStore } from '../../stores/editorStore'
+import { useEditorStore, type SelectionAction } from '../../stores/editorStore'
 import { useEditorHistory } from './useEditorHistory'
+import { isItemInLevel } from '../../lib/levels'
 
 export function useEditorSelection() {
   const store = useEditorStore()
-  const { activeScheme, itemsMap, groupsMap } = storeToRefs(store)
+  const { activeScheme, activeLevel, itemsMap, groupsMap } = storeToRefs(store)
 
   const { recordSelectionChange } = useEditorHistory()
 
@@ -16,6 +17,20 @@ export function useEditorSelection() {
     return item?.groupId ?? 0
   }
 
+  // 隐藏、锁定或不在当前楼层的物品不可被选中（所有加入选区的入口都经过此过滤）
+  function isSelectable(itemId: string): boolean {
+    const scheme = activeScheme.value
+    if (!scheme) return false
+    if (scheme.hiddenItemIds.value.has(itemId) || scheme.lockedItemIds.value.has(itemId)) {
+      return false
+    }
+
+    const level = activeLevel.value
+    if (!level) return true
+    const item = itemsMap.value.get(itemId)
+    return !!item && isItemInLevel(item, level)
+  }
+
   // 扩展选择到整组（内部辅助函数）
   function expandSelectionToGroups(itemIds: Set<string>): Set<string> {
     if (!activeScheme.value) return itemIds
@@ -35,7 +50,9 @@ export function useEditorSelection() {
     groupsToExpand.forEach((groupId) => {
       const itemIds = groupsMap.value.get(groupId)
       if (itemIds) {
-        itemIds.forEach((itemId) => expandedIds.add(itemId))
+        itemIds.forEach((itemId) => {
+          if (isSelectable(itemId)) expandedIds.add(itemId)
+        })
       }
     })
 
@@ -62,6 +79,8 @@ export function useEditorSelection() {
     options?: { skipGroupExpansion?: boolean }
   ) {
     if (!activeScheme.value) return
+    // 不可选物品的点击直接忽略（已选中的仍允许取消）
+    if (!isSelectable(itemId) && !activeScheme.value.selectedItemIds.value.has(itemId)) return
 
     // 保存历史（选择操作，会合并）
     recordSelectionChange()
@@ -76,7 +95,7 @@ export function useEditorSelection() {
         }
       } else {
         activeScheme.value.selectedItemIds.value.clear()
-        activeScheme.value.selectedItemIds.value.add(itemId)
+        if (isSelectable(itemId)) activeScheme.value.selectedItemIds.value.add(itemId)
       }
       store.triggerSelectionUpdate()
       return
@@ -100,10 +119,12 @@ export function useEditorSelection() {
         const groupId = getItemGroupIdLocal(itemId)
         if (groupId > 0) {
           const groupItems = getGroupItemsLocal(groupId)
-          groupItems.forEach((item) =>
-            activeScheme.value!.selectedItemIds.value.add(item.internalId)
-          )
-        } else {
+          groupItems.forEach((item) => {
+            if (isSelectable(item.internalId)) {
+              activeScheme.value!.selectedItemIds.value.add(item.internalId)
+            }
+          })
+        } else if (isSelectable(itemId)) {
           activeScheme.value.selectedItemIds.value.add(itemId)
         }
       }
@@ -113,8 +134,12 @@ export function useEditorSelection() {
       const groupId = getItemGroupIdLocal(itemId)
       if (groupId > 0) {
         const groupItems = getGroupItemsLocal(groupId)
-        groupItems.forEach((item) => activeScheme.value!.selectedItemIds.value.add(item.internalId))
-      } else {
+        groupItems.forEach((item) => {
+          if (isSelectable(item.internalId)) {
+            activeScheme.value!.selectedItemIds.value.add(item.internalId)
+          }
+        })
+      } else if (isSelectable(itemId)) {
         activeScheme.value.selectedItemIds.value.add(itemId)
       }
     }
@@ -137,12 +162,16 @@ export function useEditorSelection() {
 
     // 强制单选模式：直接添加，不扩展到组
     if (options?.skipGroupExpansion) {
-      itemIds.forEach((id) => activeScheme.value!.selectedItemIds.value.add(id))
+      itemIds.forEach((id) => {
+        if (isSelectable(id)) activeScheme.value!.selectedItemIds.value.add(id)
+      })
     } else {
       // 组模式：扩展选择到整组(框选行为)
       const initialSelection = new Set(itemIds)
       const expandedSelection = expandSelectionToGroups(initialSelection)
-      expandedSelection.forEach((id) => activeScheme.value!.selectedItemIds.value.add(id))
+      expandedSelection.forEach((id) => {
+        if (isSelectable(id)) activeScheme.value!.selectedItemIds.value.add(id)
+      })
     }
 
     store.triggerSelectionUpdate()
@@ -188,7 +217,9 @@ export function useEditorSelection() {
 
     activeScheme.value.selectedItemIds.value.clear()
     activeScheme.value.items.value.forEach((item: any) => {
-      activeScheme.value!.selectedItemIds.value.add(item.internalId)
+      if (isSelectable(item.internalId)) {
+        activeScheme.value!.selectedItemIds.value.add(item.internalId)
+      }
     })
 
     store.triggerSelectionUpdate()
@@ -203,7 +234,10 @@ export function useEditorSelection() {
 
     const newSelection = new Set<string>()
     activeScheme.value.items.value.forEach((item: any) => {
-      if (!activeScheme.value!.selectedItemIds.value.has(item.internalId)) {
+      if (
+        !activeScheme.value!.selectedItemIds.value.has(item.internalId) &&
+        isSelectable(item.internalId)
+      ) {
         newSelection.add(item.internalId)
       }
     })
@@ -247,6 +281,52 @@ export function useEditorSelection() {
     store.triggerSelectionUpdate()
   }
 
+  /**
+   * 按选择模式（新选区 / 加选 / 减选 / 交叉 / 切换）应用一组物品
+   */
+  function applySelectionAction(
+    itemIds: string[],
+    action: SelectionAction,
+    options?: { skipGroupExpansion?: boolean }
+  ) {
+    switch (action) {
+      case 'add':
+        updateSelection(itemIds, true, options)
+        break
+      case 'subtract':
+        deselectItems(itemIds, options)
+        break
+      case 'intersect':
+        intersectSelection(itemIds, options)
+        break
+      case 'toggle': {
+        const currentSelected = activeScheme.value?.selectedItemIds.value
+        const toSelect: string[] = []
+        const toDeselect: string[] = []
+
+        for (const id of itemIds) {
+          if (currentSelected?.has(id)) {
+            toDeselect.push(id)
+          } else {
+            toSelect.push(id)
+          }
+        }
+
+        if (toDeselect.length > 0) {
+          deselectItems(toDeselect, options)
+        }
+        if (toSelect.length > 0) {
+          updateSelection(toSelect, true, options)
+        }
+        break
+      }
+      case 'new':
+      default:
+        updateSelection(itemIds, false, options)
+        break
+    }
+  }
+
   // 选择同类型物品：选择所有与当前选中物品相同 gameId 的物品
   function selectSameType() {
     if (!activeScheme.value) return
@@ -269,7 +349,7 @@ export function useEditorSelection() {
     // 遍历所有物品，选中匹配的 gameId（不自动扩展到组）
     const newSelection = new Set<string>()
     activeScheme.value.items.value.forEach((item: any) => {
-      if (gameIds.has(item.gameId)) {
+      if (gameIds.has(item.gameId) && isSelectable(item.internalId)) {
         newSelection.add(item.internalId)
       }
     })
@@ -284,9 +364,11 @@ export function useEditorSelection() {
     updateSelection,
     deselectItems,
     intersectSelection,
+    applySelectionAction,
     clearSelection,
     selectAll,
     invertSelection,
     selectSameType,
+    isSelectable,
   }
 }
@@ -0,0 +1,95 @@
+import { computed } from 'vue'
+import { useEditorStore } from '../../stores/editorStore'
+import { useEditorSelection } from './useEditorSelection'
+
+/**
+ * 隐藏 / 隔离 / 锁定物品
+ *
+ * 标记只存在于编辑器（随工作区保存），不写入游戏存档，也不进入撤销历史。
+ * 隐藏和锁定的物品都会从当前选区中移除。
+ */
+export function useEditorVisibility() {
+  const store = useEditorStore()
+  const { deselectItems } = useEditorSelection()
+
+  const hiddenCount = computed(() => store.activeScheme?.hiddenItemIds.value.size ?? 0)
+  const lockedCount = computed(() => store.activeScheme?.lockedItemIds.value.size ?? 0)
+
+  function getSelectedIds(): string[] {
+    return Array.from(store.activeScheme?.selectedItemIds.value ?? [])
+  }
+
+  // 隐藏选中物品
+  function hideSelected() {
+    const scheme = store.activeScheme
+    const selectedIds = getSelectedIds()
+    if (!scheme || selectedIds.length === 0) return
+
+    const next = new Set(scheme.hiddenItemIds.value)
+    selectedIds.forEach((id) => next.add(id))
+    scheme.hiddenItemIds.value = next
+
+    deselectItems(selectedIds, { skipGroupExpansion: true })
+    store.triggerSceneUpdate()
+    console.log(`[Visibility] Hid ${selectedIds.length} items`)
+  }
+
+  // 显示全部隐藏的物品
+  function unhideAll() {
+    const scheme = store.activeScheme
+    if (!scheme || scheme.hiddenItemIds.value.size === 0) return
+
+    scheme.hiddenItemIds.value = new Set()
+    store.triggerSceneUpdate()
+  }
+
+  // 隔离选区：隐藏除选中物品以外的所有物品
+  function isolateSelection() {
+    const scheme = store.activeScheme
+    const selectedIds = scheme?.selectedItemIds.value
+    if (!scheme || !selectedIds || selectedIds.size === 0) return
+
+    const next = new Set<string>()
+    for (const item of scheme.items.value) {
+      if (!selectedIds.has(item.internalId)) {
+        next.add(item.internalId)
+      }
+    }
+    scheme.hiddenItemIds.value = next
+
+    store.triggerSceneUpdate()
+    console.log(`[Visibility] Isolated ${selectedIds.size} items`)
+  }
+
+  // 锁定选中物品：保持可见，但不可选中、不受 Gizmo 影响
+  function lockSelected() {
+    const scheme = store.activeScheme
+    const selectedIds = getSelectedIds()
+    if (!scheme || selectedIds.length === 0) return
+
+    const next = new Set(scheme.lockedItemIds.value)
+    selectedIds.forEach((id) => next.add(id))
+    scheme.lockedItemIds.value = next
+
+    deselectItems(selectedIds, { skipGroupExpansion: true })
+    console.log(`[Visibility] Locked ${selectedIds.length} items`)
+  }
+
+  // 解锁全部物品
+  function unlockAll() {
+    const scheme = store.activeScheme
+    if (!scheme || scheme.lockedItemIds.value.size === 0) return
+
+    scheme.lockedItemIds.value = new Set()
+  }
+
+  return {
+    hiddenCount,
+    lockedCount,
+    hideSelected,
+    unhideAll,
+    isolateSelection,
+    lockSelected,
+    unlockAll,
+  }
+}
@@ -0,0 +1,90 @@
+import { Vector3, type Box3 } from 'three'
+import { useEditorStore, type SelectionAction } from '../../stores/editorStore'
+import { useGameDataStore } from '../../stores/gameDataStore'
+import { useEditorSelection } from './useEditorSelection'
+import { getItemsWorldBox } from '../../lib/spatialBounds'
+import {
+  parseSelectionQuery,
+  runSelectionQuery,
+  type SelectionQueryContext,
+  type SelectionQueryError,
+} from '../../lib/selectionQuery'
+
+export type SelectionQueryResult =
+  | { itemIds: string[]; error?: undefined }
+  | { error: SelectionQueryError }
+
+/**
+ * 按查询语句选择物品
+ *
+ * 查询在当前激活方案上执行，结果通过常规的选择模式写入选区（不扩展到组）。
+ */
+export function useSelectionQuery() {
+  const store = useEditorStore()
+  const gameDataStore = useGameDataStore()
+  const { applySelectionAction } = useEditorSelection()
+
+  function createContext(usesSelectionBox: boolean): SelectionQueryContext {
+    const names = new Map<number, string[]>()
+    const getNames = (gameId: number) => {
+      let cached = names.get(gameId)
+      if (!cached) {
+        const furniture = gameDataStore.getFurniture(gameId)
+        cached = furniture ? [furniture.name_cn, furniture.name_en].filter(Boolean) : []
+        names.set(gameId, cached)
+      }
+      return cached
+    }
+
+    // 选区包围盒只在查询用到时计算（世界空间：Y 轴与游戏坐标相反）
+    let selectionBox: Box3 | null = null
+    if (usesSelectionBox) {
+      const scheme = store.activeScheme
+      const selectedIds = scheme?.selectedItemIds.value
+      const selectedItems = selectedIds
+        ? (scheme?.items.value.filter((item) => selectedIds.has(item.internalId)) ?? [])
+        : []
+      selectionBox = getItemsWorldBox(selectedItems)
+    }
+    const point = new Vector3()
+
+    return {
+      getNames,
+      isInsideSelectionBox: (item) =>
+        !!selectionBox && selectionBox.containsPoint(point.set(item.x, -item.y, item.z)),
+    }
+  }
+
+  /**
+   * 执行查询，返回匹配的物品 ID（不修改选区）
+   */
+  function evaluateQuery(source: string): SelectionQueryResult {
+    const parsed = parseSelectionQuery(source)
+    if (parsed.error) return { error: parsed.error }
+
+    const items = store.activeScheme?.items.value ?? []
+    const context = createContext(parsed.usesSelectionBox)
+    return { itemIds: runSelectionQuery(items, parsed.predicate, context) }
+  }
+
+  /**
+   * 执行查询并按选择模式更新选区
+   * @returns 匹配的物品数量或解析错误
+   */
+  function selectByQuery(
+    source: string,
+    action: SelectionAction
+  ): { count: number; error?: undefined } | { error: SelectionQueryError } {
+    const result = evaluateQuery(source)
+    if (result.error) return { error: result.error }
+
+    applySelectionAction(result.itemIds, action, { skipGroupExpansion: true })
+    console.log(`[SelectionQuery] ${result.itemIds.length} items matched "${source}" (${action})`)
+    return { count: result.itemIds.length }
+  }
+
+  return {
+    evaluateQuery,
+    selectByQuery,
+  }
+}
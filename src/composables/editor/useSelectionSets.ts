@@ -0,0 +1,89 @@
+import { computed } from 'vue'
+import { useEditorStore, type SelectionAction } from '../../stores/editorStore'
+import { useEditorSelection } from './useEditorSelection'
+import type { SelectionSet } from '../../types/editor'
+
+/**
+ * 命名选择集
+ *
+ * 选择集属于编辑器元数据，不进入撤销历史；
+ * 成员中已删除的物品在读取时过滤（见 pruneSelectionSets）。
+ */
+export function useSelectionSets() {
+  const store = useEditorStore()
+  const { applySelectionAction } = useEditorSelection()
+
+  const selectionSets = computed(() => store.activeScheme?.selectionSets.value ?? [])
+
+  // 仍存在于方案中的成员
+  function getLiveItemIds(set: SelectionSet): string[] {
+    const itemsMap = store.itemsMap
+    return set.itemIds.filter((id) => itemsMap.has(id))
+  }
+
+  function updateSets(update: (sets: SelectionSet[]) => SelectionSet[]) {
+    const scheme = store.activeScheme
+    if (!scheme) return
+    scheme.selectionSets.value = update(scheme.selectionSets.value)
+  }
+
+  /**
+   * 把当前选区保存为选择集（同名选择集会被覆盖）
+   * @returns 保存的选择集；没有选中物品时返回 null
+   */
+  function saveSelectionSet(name: string): SelectionSet | null {
+    const scheme = store.activeScheme
+    const selected = scheme?.selectedItemIds.value
+    const trimmed = name.trim()
+    if (!scheme || !selected || selected.size === 0 || !trimmed) return null
+
+    const existing = scheme.selectionSets.value.find((set) => set.name === trimmed)
+    const next: SelectionSet = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name: trimmed,
+      itemIds: Array.from(selected),
+    }
+
+    updateSets((sets) =>
+      existing ? sets.map((set) => (set.id === existing.id ? next : set)) : [...sets, next]
+    )
+    console.log(`[SelectionSets] Saved "${trimmed}" with ${next.itemIds.length} items`)
+    return next
+  }
+
+  // 用当前选区替换选择集成员
+  function updateSelectionSet(id: string) {
+    const selected = store.activeScheme?.selectedItemIds.value
+    if (!selected || selected.size === 0) return
+
+    updateSets((sets) =>
+      sets.map((set) => (set.id === id ? { ...set, itemIds: Array.from(selected) } : set))
+    )
+  }
+
+  function deleteSelectionSet(id: string) {
+    updateSets((sets) => sets.filter((set) => set.id !== id))
+  }
+
+  /**
+   * 按选择模式召回选择集（新选区 / 并集 / 交集 / 差集）
+   * @returns 参与选择的物品数量
+   */
+  function recallSelectionSet(id: string, action: SelectionAction = 'new'): number {
+    const set = selectionSets.value.find((current) => current.id === id)
+    if (!set) return 0
+
+    const itemIds = getLiveItemIds(set)
+    applySelectionAction(itemIds, action, { skipGroupExpansion: true })
+    return itemIds.length
+  }
+
+  return {
+    selectionSets,
+    getLiveItemIds,
+    saveSelectionSet,
+    updateSelectionSet,
+    deleteSelectionSet,
+    recallSelectionSet,
+  }
+}
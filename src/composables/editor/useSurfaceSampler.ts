@@ -0,0 +1,50 @@
+import { ref } from 'vue'
+
+/**
+ * 表面采样结果（数据空间）
+ * - normal：命中面的单位法线（朝上一侧）；命中对象不提供法线时为 null
+ */
+export interface SurfaceHit {
+  z: number
+  normal: { x: number; y: number; z: number } | null
+}
+
+/**
+ * 表面采样函数
+ *
+ * 在数据空间 (x, y) 处从 fromZ 向下做射线检测，返回命中表面；未命中返回 null。
+ * filter 返回 false 的物品会被穿透。
+ */
+export type SurfaceSampler = (
+  x: number,
+  y: number,
+  options?: { fromZ?: number; filter?: (internalId: string) => boolean }
+) => SurfaceHit | null
+
+// 采样函数（由 ThreeEditor 注册，使用当前渲染模式的 BVH 射线检测）- 单例模式，所有调用共享同一个 ref
+const sampleSurfaceFn = ref<SurfaceSampler | null>(null)
+
+/**
+ * 表面高度采样的 Composable
+ *
+ * 供散布、落到表面等不在 3D 视图内部的功能使用；3D 视图未激活时始终返回 null。
+ */
+export function useSurfaceSampler() {
+  const sampleSurface: SurfaceSampler = (x, y, options) =>
+    sampleSurfaceFn.value ? sampleSurfaceFn.value(x, y, options) : null
+
+  // 只关心高度时的简写
+  function sampleSurfaceHeight(
+    x: number,
+    y: number,
+    options?: Parameters<SurfaceSampler>[2]
+  ): number | null {
+    return sampleSurface(x, y, options)?.z ?? null
+  }
+
+  return {
+    sampleSurfaceFn,
+    sampleSurface,
+    sampleSurfaceHeight,
+  }
+}
@@ -0,0 +1,208 @@
+import { useEditorStore } from '../../stores/editorStore'
+import { useGameDataStore } from '../../stores/gameDataStore'
+import { useValidationStore } from '../../stores/validationStore'
+import { useEditorHistory } from './useEditorHistory'
+import { findNearestPointInPolygons } from '../../lib/geometry'
+import { BUILDABLE_Z_RANGE, MAX_GROUP_SIZE } from '../../lib/validationRules'
+import type { AppItem } from '../../types/editor'
+
+/**
+ * 按空间位置把物品拆成若干块，每块不超过 maxSize
+ *
+ * 沿跨度最大的轴排序后二分，左半边取 maxSize 的整数倍，保证块数最少且每块在空间上相邻。
+ */
+function splitItemsBySpace(items: AppItem[], maxSize: number): AppItem[][] {
+  if (items.length <= maxSize) return [items]
+
+  const extent = (axis: 'x' | 'y' | 'z') => {
+    let min = Infinity
+    let max = -Infinity
+    for (const item of items) {
+      min = Math.min(min, item[axis])
+      max = Math.max(max, item[axis])
+    }
+    return max - min
+  }
+  const axis = (['x', 'y', 'z'] as const).reduce((best, current) =>
+    extent(current) > extent(best) ? current : best
+  )
+
+  const sorted = [...items].sort((a, b) => a[axis] - b[axis])
+  const chunkCount = Math.ceil(sorted.length / maxSize)
+  const leftCount = Math.floor(chunkCount / 2) * maxSize
+
+  return [
+    ...splitItemsBySpace(sorted.slice(0, leftCount), maxSize),
+    ...splitItemsBySpace(sorted.slice(leftCount), maxSize),
+  ]
+}
+
+/**
+ * 验证问题的一键修复
+ *
+ * 与保存时的自动处理规则一致，但直接修改编辑器中的方案，
+ * 每次修复记录为一条事务，可以撤销。
+ */
+export function useValidationFixes() {
+  const store = useEditorStore()
+  const gameDataStore = useGameDataStore()
+  const validationStore = useValidationStore()
+  const { recordTransaction } = useEditorHistory()
+
+  /**
+   * 按规则修改问题物品
+   * @returns 被修改的物品数量
+   */
+  function updateFindingItems(ruleId: string, update: (item: AppItem) => AppItem | null): number {
+    const scheme = store.activeScheme
+    const ids = validationStore.getFindingItemIds(ruleId)
+    if (!scheme || ids.size === 0) return 0
+
+    return recordTransaction(`validation.fix.${ruleId}`, () => {
+      let changed = 0
+      scheme.items.value = scheme.items.value.map((item) => {
+        if (!ids.has(item.internalId)) return item
+        const next = update(item)
+        if (!next) return item
+        changed++
+        return next
+      })
+
+      if (changed > 0) store.triggerSceneUpdate()
+      return changed
+    })
+  }
+
+  // 缩放截断到家具允许范围
+  function fixInvalidScale(): number {
+    return updateFindingItems('invalidScale', (item) => {
+      const scaleRange = gameDataStore.getFurniture(item.gameId)?.scaleRange
+      if (!scaleRange) return null
+
+      const [min, max] = scaleRange
+      const clamp = (value: number) => Math.max(min, Math.min(max, value))
+      const scale = item.extra.Scale
+      return {
+        ...item,
+        extra: {
+          ...item.extra,
+          Scale: { ...scale, X: clamp(scale.X), Y: clamp(scale.Y), Z: clamp(scale.Z) },
+        },
+      }
+    })
+  }
+
+  // 禁止旋转的轴归零
+  function fixInvalidRotation(): number {
+    return updateFindingItems('invalidRotation', (item) => {
+      const allowed = gameDataStore.getFurniture(item.gameId)?.rotationAllowed
+      if (!allowed) return null
+
+      return {
+        ...item,
+        rotation: {
+          x: allowed.x ? item.rotation.x : 0,
+          y: allowed.y ? item.rotation.y : 0,
+          z: item.rotation.z,
+        },
+      }
+    })
+  }
+
+  // 移动到最近的可建造位置（高度截断到允许范围）
+  function fixOutOfBounds(): number {
+    const polygons = gameDataStore.buildableAreas ? Object.values(gameDataStore.buildableAreas) : []
+
+    return updateFindingItems('outOfBounds', (item) => {
+      const z = Math.max(BUILDABLE_Z_RANGE.min, Math.min(BUILDABLE_Z_RANGE.max, item.z))
+      const point =
+        polygons.length > 0
+          ? findNearestPointInPolygons({ x: item.x, y: item.y }, polygons)
+          : { x: item.x, y: item.y }
+      if (!point) return null
+      if (point.x === item.x && point.y === item.y && z === item.z) return null
+
+      return { ...item, x: point.x, y: point.y, z }
+    })
+  }
+
+  // 超大组合按空间位置拆分为多个不超过上限的组合
+  function fixOversizedGroups(): number {
+    const scheme = store.activeScheme
+    const ids = validationStore.getFindingItemIds('oversizedGroup')
+    if (!scheme || ids.size === 0) return 0
+
+    return recordTransaction('validation.fix.oversizedGroup', () => {
+      const itemsByGroup = new Map<number, AppItem[]>()
+      for (const item of scheme.items.value) {
+        if (!ids.has(item.internalId) || item.groupId <= 0) continue
+        const list = itemsByGroup.get(item.groupId)
+        if (list) list.push(item)
+        else itemsByGroup.set(item.groupId, [item])
+      }
+
+      const nextGroupIds = new Map<string, number>()
+      const nextOrigins = new Map(scheme.groupOrigins.value)
+      let maxGroupId = scheme.maxGroupId.value
+
+      itemsByGroup.forEach((members, groupId) => {
+        const originId = nextOrigins.get(groupId)
+        // 第一块沿用原 GroupID，其余分配新 ID
+        splitItemsBySpace(members, MAX_GROUP_SIZE)
+          .slice(1)
+          .forEach((chunk) => {
+            const newGroupId = ++maxGroupId
+            for (const item of chunk) {
+              nextGroupIds.set(item.internalId, newGroupId)
+              // 原点物品被分到新组时，原点跟随到新组
+              if (item.internalId === originId) {
+                nextOrigins.delete(groupId)
+                nextOrigins.set(newGroupId, originId)
+              }
+            }
+          })
+      })
+
+      if (nextGroupIds.size === 0) return 0
+
+      scheme.items.value = scheme.items.value.map((item) => {
+        const groupId = nextGroupIds.get(item.internalId)
+        return groupId === undefined ? item : { ...item, groupId }
+      })
+      scheme.maxGroupId.value = maxGroupId
+      scheme.groupOrigins.value = nextOrigins
+
+      store.triggerSceneUpdate()
+      return nextGroupIds.size
+    })
+  }
+
+  const fixers: Record<string, () => number> = {
+    outOfBounds: fixOutOfBounds,
+    invalidScale: fixInvalidScale,
+    invalidRotation: fixInvalidRotation,
+    oversizedGroup: fixOversizedGroups,
+  }
+
+  function canFix(ruleId: string): boolean {
+    return ruleId in fixers
+  }
+
+  /**
+   * 修复某条规则发现的全部问题
+   * @returns 被修改的物品数量
+   */
+  function fixFinding(ruleId: string): number {
+    const fixer = fixers[ruleId]
+    if (!fixer) return 0
+
+    const changed = fixer()
+    console.log(`[Validation] Fixed ${changed} items for rule "${ruleId}"`)
+    return changed
+  }
+
+  return {
+    canFix,
+    fixFinding,
+  }
+}
@@ -15,6 +15,7 @@ import {
   ARCHIVE_INDEX_VERSION,
   ARCHIVE_SCHEMES_DIR_NAME,
 } from '@/types/archive'
+import { pruneSelectionSets } from '@/lib/selectionSets'
 
 type TranslateFn = (key: string, params?: Record<string, string | number>) => string
 
@@ -140,6 +141,9 @@ function buildArchivedSchemeSnapshot(
     currentViewConfig: toRaw(scheme.currentViewConfig.value),
     viewState: toRaw(scheme.viewState.value),
     groupOrigins: Array.from(toRaw(scheme.groupOrigins.value).entries()),
+    selectionSets: pruneSelectionSets(toRaw(scheme.selectionSets.value), scheme.items.value),
+    levels: toRaw(scheme.levels.value),
+    dimensions: toRaw(scheme.dimensions.value),
   }
 }
 
@@ -693,6 +697,17 @@ export function createArchiveOps(params: CreateArchiveOpsParams) {
     })
   }
 
+  // 只读取条目快照，不打开为标签页（用于方案对比等场景）
+  async function readArchiveEntrySnapshot(entryId: string): Promise<ArchivedSchemeSnapshot | null> {
+    if (!(await ensureArchiveIndexLoaded())) return null
+
+    const entry = archiveState.value.index.entries.find((item) => item.id === entryId)
+    if (!entry) return null
+
+    const archivedScheme = await readArchivedSchemeFile(entry)
+    return archivedScheme?.scheme ?? null
+  }
+
   // 用当前工作区方案更新某个已存在的方案集条目。
   // 这里只覆盖快照正文与元信息，不改变条目的名称、分组和排序。
   async function updateArchiveEntryFromScheme(
@@ -902,6 +917,7 @@ export function createArchiveOps(params: CreateArchiveOpsParams) {
     moveGroup,
     archiveScheme,
     openArchiveEntry,
+    readArchiveEntrySnapshot,
     updateArchiveEntryFromScheme,
     renameEntry,
     deleteEntry,
@@ -41,7 +41,7 @@ function cloneColorMap(
   return { '0': 0 }
 }
 
-function convertGameItemToAppItem(gameItem: GameItem): AppItem {
+export function convertGameItemToAppItem(gameItem: GameItem): AppItem {
   const { Location, Rotation, GroupID, ItemID, InstanceID, ...others } = gameItem
   return {
     internalId: generateUUID(),
@@ -0,0 +1,259 @@
+import {
+  BoxGeometry,
+  Group,
+  Mesh,
+  MeshStandardMaterial,
+  type BufferGeometry,
+  type Material,
+} from 'three'
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js'
+import type { useEditorStore } from '@/stores/editorStore'
+import type { useNotification } from '@/composables/useNotification'
+import type { AppItem } from '@/types/editor'
+import { useGameDataStore } from '@/stores/gameDataStore'
+import { useLoadingStore } from '@/stores/loadingStore'
+import { getThreeModelManager, type ModelMeshResources } from '@/composables/useThreeModelManager'
+import { matrixTransform } from '@/lib/matrixTransform'
+import { resolveCachedModelDyeMeta } from '@/lib/modelDye'
+import { buildDisplayWorldMatrixFromItem } from '@/lib/scaleRenderCompensation'
+import {
+  buildSlidePathSegmentLocalMatrix,
+  getSlidePathScenePoints,
+  resolveFurnitureSize,
+  shouldRenderAsSlidePath,
+} from '@/lib/slidePath'
+
+type TranslateFn = (key: string, params?: Record<string, string | number>) => string
+
+interface CreateSceneExportOpsParams {
+  editorStore: ReturnType<typeof useEditorStore>
+  notification: ReturnType<typeof useNotification>
+  t: TranslateFn
+}
+
+// 与渲染层一致：缺少尺寸信息时的默认尺寸（游戏坐标：X=长, Y=宽, Z=高）
+const DEFAULT_FURNITURE_SIZE: [number, number, number] = [100, 100, 150]
+// 游戏单位为厘米，glTF 约定为米
+const GAME_UNIT_TO_METER = 0.01
+const FALLBACK_BOX_COLOR = 0xcbd5e1
+const SLIDE_PATH_COLOR = 0x94a3b8
+
+/** 导出期间临时创建的资源（模型几何体和已缓存的材质借用自 ModelManager，不在此列） */
+interface ExportOwnedResources {
+  geometries: BufferGeometry[]
+  materials: Material[]
+}
+
+export function createSceneExportOps(params: CreateSceneExportOpsParams) {
+  const { editorStore, notification, t } = params
+  const gameDataStore = useGameDataStore()
+  const loadingStore = useLoadingStore()
+
+  function getFurnitureSize(gameId: number): [number, number, number] {
+    return resolveFurnitureSize(
+      gameId,
+      gameDataStore.getFurnitureSize(gameId) ?? DEFAULT_FURNITURE_SIZE
+    )
+  }
+
+  function getItemNodeName(item: AppItem): string {
+    const furniture = gameDataStore.getFurniture(item.gameId)
+    const name = furniture?.name_en || furniture?.name_cn || String(item.gameId)
+    return `${name}_${item.instanceId}`
+  }
+
+  /**
+   * 预载场景中所有带模型配置的家具，进度复用模型加载条
+   */
+  async function preloadSceneModels(items: AppItem[]): Promise<void> {
+    const modelManager = getThreeModelManager()
+    const modelIds = Array.from(
+      new Set(
+        items
+          .filter((item) => !shouldRenderAsSlidePath(item))
+          .map((item) => item.gameId)
+          .filter((gameId) => !!gameDataStore.getFurnitureModelConfig(gameId)?.meshes?.length)
+      )
+    )
+    const unloadedIds = modelManager.getUnloadedModels(modelIds)
+    if (unloadedIds.length === 0) return
+
+    loadingStore.startLoading('model', unloadedIds.length, 'simple')
+    try {
+      await modelManager.preloadModels(unloadedIds, (current, _total, failed) => {
+        loadingStore.updateProgress(current, failed)
+      })
+    } catch (error) {
+      loadingStore.cancelLoading()
+      throw error
+    }
+  }
+
+  /**
+   * 构建导出用场景树。
+   *
+   * 坐标约定：
+   * - 物品节点直接使用世界矩阵（已含父级 Y 翻转与缩放补偿），与编辑器画面一致
+   * - 根节点负责 Z-Up → Y-Up 和厘米 → 米的转换，DCC 软件导入后无需再手动调整
+   */
+  async function buildExportScene(
+    items: AppItem[],
+    sceneName: string,
+    owned: ExportOwnedResources
+  ): Promise<{ root: Group; exportedCount: number }> {
+    const modelManager = getThreeModelManager()
+    const root = new Group()
+    root.name = sceneName
+    root.rotation.x = -Math.PI / 2
+    root.scale.setScalar(GAME_UNIT_TO_METER)
+
+    // 回退方块：底面中心为原点，与 Box 渲染模式保持一致
+    const fallbackGeometry = new BoxGeometry(1, 1, 1)
+    fallbackGeometry.translate(0, 0, 0.5)
+    const fallbackMaterial = new MeshStandardMaterial({
+      color: FALLBACK_BOX_COLOR,
+      roughness: 0.8,
+      metalness: 0.1,
+    })
+    // 飞花道 segment：与 useSlidePathRenderer 相同的单位立方体 + segment 局部矩阵
+    const segmentGeometry = new BoxGeometry(1, 1, 1)
+    const segmentMaterial = new MeshStandardMaterial({
+      color: SLIDE_PATH_COLOR,
+      roughness: 0.6,
+      metalness: 0.1,
+    })
+    owned.geometries.push(fallbackGeometry, segmentGeometry)
+    owned.materials.push(fallbackMaterial, segmentMaterial)
+
+    // 同一染色变体在本次导出中只构建一次
+    const modelMeshCache = new Map<string, ModelMeshResources | null>()
+    let exportedCount = 0
+
+    for (const item of items) {
+      if (shouldRenderAsSlidePath(item)) {
+        const points = getSlidePathScenePoints(item)
+        const pathNode = new Group()
+        pathNode.name = getItemNodeName(item)
+
+        for (let index = 0; index < points.length - 1; index++) {
+          const localMatrix = buildSlidePathSegmentLocalMatrix(points[index]!, points[index + 1]!)
+          if (!localMatrix) continue
+
+          const segment = new Mesh(segmentGeometry, segmentMaterial)
+          segment.name = `${pathNode.name}_segment_${index}`
+          segment.matrixAutoUpdate = false
+          // segment 位于场景空间（翻转前），乘上父级翻转得到世界矩阵
+          segment.matrix.multiplyMatrices(matrixTransform.parentFlipMatrix, localMatrix)
+          pathNode.add(segment)
+        }
+
+        root.add(pathNode)
+        exportedCount++
+        continue
+      }
+
+      const modelConfig = gameDataStore.getFurnitureModelConfig(item.gameId)
+      let mesh: Mesh | null = null
+
+      if (modelConfig?.meshes?.length) {
+        const { dyePlan, meshKey } = resolveCachedModelDyeMeta({
+          item,
+          colorsConfig: modelConfig.colors,
+        })
+        let resources = modelMeshCache.get(meshKey)
+        if (resources === undefined) {
+          resources = await modelManager.resolveModelMesh(item.gameId, meshKey, dyePlan)
+          modelMeshCache.set(meshKey, resources)
+          if (resources) owned.materials.push(...resources.ownedMaterials)
+        }
+        if (resources) {
+          // 注意：染色的 tint 混合在 shader 中完成，glTF 只能携带所选图案的贴图
+          mesh = new Mesh(resources.geometry, resources.material)
+        }
+      }
+
+      // 模型缺失或加载失败时，getModelBoundingBox 返回 null，矩阵会自动带上家具尺寸
+      const { worldMatrix } = buildDisplayWorldMatrixFromItem(item, {
+        currentMode: 'model',
+        getFurnitureSize,
+        getModelConfig: (gameId) => gameDataStore.getFurnitureModelConfig(gameId),
+        getModelBoundingBox: (gameId) => modelManager.getModelBoundingBox(gameId),
+      })
+
+      if (!mesh) {
+        mesh = new Mesh(fallbackGeometry, fallbackMaterial)
+      }
+
+      mesh.name = getItemNodeName(item)
+      mesh.matrixAutoUpdate = false
+      mesh.matrix.copy(worldMatrix)
+      mesh.userData = {
+        gameId: item.gameId,
+        instanceId: item.instanceId,
+        groupId: item.groupId,
+      }
+      root.add(mesh)
+      exportedCount++
+    }
+
+    root.updateMatrixWorld(true)
+    return { root, exportedCount }
+  }
+
+  function downloadBinary(buffer: ArrayBuffer, fileName: string) {
+    const blob = new Blob([buffer], { type: 'model/gltf-binary' })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    link.click()
+
+    URL.revokeObjectURL(url)
+  }
+
+  /**
+   * 将当前方案导出为单个 GLB 文件
+   */
+  async function exportScene(): Promise<void> {
+    const scheme = editorStore.activeScheme
+    const items = scheme?.items.value ?? []
+    if (!scheme || items.length === 0) {
+      notification.warning(t('fileOps.export.noData'))
+      return
+    }
+
+    const sceneName = scheme.name.value || 'scene'
+    const owned: ExportOwnedResources = { geometries: [], materials: [] }
+
+    try {
+      await preloadSceneModels(items)
+      const { root, exportedCount } = await buildExportScene(items, sceneName, owned)
+
+      const exporter = new GLTFExporter()
+      const result = await exporter.parseAsync(root, { binary: true })
+      if (!(result instanceof ArrayBuffer)) {
+        throw new Error('Unexpected GLTFExporter output')
+      }
+
+      const fileName = `${sceneName}.glb`
+      downloadBinary(result, fileName)
+      notification.success(t('fileOps.exportScene.success', { count: exportedCount }))
+      console.log(`[FileOps] Exported ${exportedCount} items to ${fileName}`)
+    } catch (error) {
+      console.error('[FileOps] Failed to export 3D scene:', error)
+      notification.error(
+        t('fileOps.exportScene.failed', {
+          reason: error instanceof Error ? error.message : String(error),
+        })
+      )
+    } finally {
+      owned.geometries.forEach((geometry) => geometry.dispose())
+      owned.materials.forEach((material) => material.dispose())
+    }
+  }
+
+  return {
+    exportScene,
+  }
+}
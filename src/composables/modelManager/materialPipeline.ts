@@ -16,6 +16,7 @@ import {
   type Texture,
 } from 'three'
 import type { GLTF } from 'three/addons/loaders/GLTFLoader.js'
+import { applySceneClipping } from '@/composables/renderer/shared/clipping'
 
 /**
  * 懒加载贴图引用：支持内嵌贴图和 Lite 外链贴图两种来源。
@@ -396,7 +397,7 @@ function shouldApplyDyeShader(textures: ResolvedMaterialTextures): boolean {
 
 /**
  * 统一创建模型材质。
- * 这里负责基础 PBR 参数、贴图挂载，以及按需启用染色 shader。
+ * 这里负责基础 PBR 参数、贴图挂载、场景剖切平面，以及按需启用染色 shader。
  */
 function createModelMaterial(textures: ResolvedMaterialTextures): MeshStandardMaterial {
   const params: MeshStandardMaterialParameters = {
@@ -416,7 +417,7 @@ function createModelMaterial(textures: ResolvedMaterialTextures): MeshStandardMa
     params.aoMap = textures.orm
   }
 
-  const mat = new MeshStandardMaterial(params)
+  const mat = applySceneClipping(new MeshStandardMaterial(params))
   const maskTex = getMaterialMaskTexture(textures)
 
   if (shouldApplyDyeShader(textures)) {
@@ -641,11 +642,11 @@ export async function buildDyedMaterials(
   return result.length === 1 ? result[0]! : (result as Material[])
 }
 
-/** 克隆 GLB 原始材质供单个 item 使用，同时深拷贝 userData（含变体引用信息） */
+/** 克隆 GLB 原始材质供单个 item 使用，同时深拷贝 userData（含变体引用信息）并挂载场景剖切平面 */
 export function cloneSourceMaterialForItem(source: Material): Material {
   const cloned = source.clone()
   cloned.userData = { ...(source.userData as Record<string, unknown>) }
-  return cloned
+  return applySceneClipping(cloned)
 }
 
 /**
@@ -1,5 +1,5 @@
 import { ref, watch, onUnmounted, computed, type Ref } from 'vue'
-import { Matrix4, Vector3, type Camera, type Raycaster, type InstancedMesh } from 'three'
+import { Matrix3, Matrix4, Vector3, type Camera, type Raycaster, type InstancedMesh } from 'three'
 import { useEditorStore } from '@/stores/editorStore'
 import { useGameDataStore } from '@/stores/gameDataStore'
 import { useSettingsStore } from '@/stores/settingsStore'
@@ -13,6 +13,8 @@ import { useModelMode } from './modes/useModelMode'
 import { useInstanceColor } from './shared/useInstanceColor'
 import { useInstanceMatrix } from './shared/useInstanceMatrix'
 import { useSelectionOutline } from './shared/useSelectionOutline'
+import { useLevelGhostRenderer } from './useLevelGhostRenderer'
+import { isPointClipped } from './shared/clipping'
 import {
   createRaycastTask,
   cancelTask,
@@ -61,6 +63,12 @@ export function useThreeInstancedRenderer(isTransformDragging?: Ref<boolean>) {
   // 初始化 Model 模式描边管理器（屏幕空间）
   const selectionOutline = useSelectionOutline()
 
+  // 楼层半透明渲染：当前楼层以外的物品，几何体跟随当前显示模式
+  const levelGhost = useLevelGhostRenderer({
+    iconNormal: iconMode.currentIconNormal,
+    iconUp: iconMode.currentIconUp,
+  })
+
   // 全局索引映射（用于 box/icon/simple-box 模式）
   const indexToIdMap = ref(new Map<number, string>())
   const idToIndexMap = ref(new Map<string, number>())
@@ -109,6 +117,8 @@ export function useThreeInstancedRenderer(isTransformDragging?: Ref<boolean>) {
       const seq = requestedRebuildSeq
       await rebuildInstances(seq)
     }
+    // 主渲染器提交后再重建楼层半透明物品（模型模式下复用已切换档位的模型管理器）
+    if (!isDisposed) void levelGhost.rebuild()
   }
 
   function scheduleRebuild() {
@@ -217,8 +227,8 @@ export function useThreeInstancedRenderer(isTransformDragging?: Ref<boolean>) {
       return
     }
 
-    // 非 Model 模式：构建全局索引映射
-    const items = editorStore.activeScheme?.items.value ?? []
+    // 非 Model 模式：构建全局索引映射（与各模式一致，只包含未隐藏的物品）
+    const items = editorStore.visibleItems
     const map = new Map<number, string>()
     const instanceCount = requiredInstanceCount(items.length)
 
@@ -459,6 +469,24 @@ export function useThreeInstancedRenderer(isTransformDragging?: Ref<boolean>) {
   const scratchCameraForward = new Vector3()
   /** 区域选择 visitor 的 center：仅在 visitor 同步回调执行期间有效 */
   const scratchRegionCenterScreen: ScreenPoint = { x: 0, y: 0 }
+  const scratchPickInstanceMatrix = new Matrix4()
+  const scratchPickNormalMatrix = new Matrix3()
+
+  /**
+   * 计算实例化网格命中面的世界空间法线
+   */
+  function getInstanceHitWorldNormal(
+    mesh: InstancedMesh,
+    instanceId: number,
+    faceNormal: Vector3 | undefined
+  ): Vector3 | undefined {
+    if (!faceNormal) return undefined
+
+    mesh.getMatrixAt(instanceId, scratchPickInstanceMatrix)
+    scratchPickInstanceMatrix.premultiply(mesh.matrixWorld)
+    scratchPickNormalMatrix.getNormalMatrix(scratchPickInstanceMatrix)
+    return faceNormal.clone().applyMatrix3(scratchPickNormalMatrix).normalize()
+  }
 
   function getActiveInstancedMesh(mode: string): InstancedMesh | null {
     if (mode === 'icon') return iconMode.mesh.value
@@ -504,6 +532,8 @@ export function useThreeInstancedRenderer(isTransformDragging?: Ref<boolean>) {
     scratchRegionWorldMatrix.multiplyMatrices(mesh.matrixWorld, scratchRegionInstanceMatrix)
 
     scratchRegionWorldPoint.copy(localCenter).applyMatrix4(scratchRegionWorldMatrix)
+    // 中心点被剖切掉的物品不参与区域选择
+    if (isPointClipped(scratchRegionWorldPoint)) return false
 
     scratchRegionCameraPoint.subVectors(scratchRegionWorldPoint, camera.position)
     if (scratchRegionCameraPoint.dot(scratchCameraForward) <= 0) {
@@ -585,7 +615,27 @@ export function useThreeInstancedRenderer(isTransformDragging?: Ref<boolean>) {
 
     return {
       // 同步射线检测（用于点击等需要立即结果的场景）
-      pick: (raycaster: Raycaster) => {
+      pick: (raycaster: Raycaster, filter?: (internalId: string) => boolean) => {
+        // 取 mesh 上第一个通过过滤的交点（intersects 已按距离排序）
+        // 被剖切平面裁掉的交点同样穿透，与画面上看到的表面一致
+        const findFirstHit = (
+          mesh: InstancedMesh,
+          indexMap: ReadonlyMap<number, string>
+        ): RaycastHit | null => {
+          for (const hit of raycaster.intersectObject(mesh, false)) {
+            if (hit.instanceId === undefined || isPointClipped(hit.point)) continue
+            const internalId = indexMap.get(hit.instanceId)
+            if (!internalId || (filter && !filter(internalId))) continue
+            return {
+              instanceId: hit.instanceId,
+              internalId,
+              distance: hit.distance,
+              normal: getInstanceHitWorldNormal(mesh, hit.instanceId, hit.face?.normal),
+            }
+          }
+          return null
+        }
+
         if (mode === 'model') {
           // Model 模式：遍历所有 mesh（含 fallback），返回距离最近的交点
           // hit.instanceId 是 mesh 内的局部索引（0, 1, 2...），需通过 indexMap 转换
@@ -593,13 +643,9 @@ export function useThreeInstancedRenderer(isTransformDragging?: Ref<boolean>) {
 
           for (const { mesh, indexMap } of getModelMeshesWithIndexMap()) {
             if (mesh.count === 0) continue
-            const intersects = raycaster.intersectObject(mesh, false)
-            const hit = intersects[0]
-            if (!hit || hit.instanceId === undefined) continue
-
-            const internalId = indexMap.get(hit.instanceId)
-            if (internalId && (!closestHit || hit.distance < closestHit.distance)) {
-              closestHit = { instanceId: hit.instanceId, internalId, distance: hit.distance }
+            const hit = findFirstHit(mesh, indexMap)
+            if (hit && (!closestHit || hit.distance < closestHit.distance)) {
+              closestHit = hit
             }
           }
 
@@ -609,14 +655,7 @@ export function useThreeInstancedRenderer(isTransformDragging?: Ref<boolean>) {
           const targetMesh = getActiveInstancedMesh(mode)
           if (!targetMesh || targetMesh.count === 0) return null
 
-          const intersects = raycaster.intersectObject(targetMesh, false)
-          const hit = intersects[0]
-          if (!hit || hit.instanceId === undefined) return null
-
-          const internalId = indexToIdMap.value.get(hit.instanceId)
-          return internalId
-            ? { instanceId: hit.instanceId, internalId, distance: hit.distance }
-            : null
+          return findFirstHit(targetMesh, indexToIdMap.value)
         }
       },
 
@@ -923,6 +962,32 @@ export function useThreeInstancedRenderer(isTransformDragging?: Ref<boolean>) {
     }
   )
 
+  // 监听方案对比结果变化（开始/结束对比、编辑后重新分类），刷新颜色
+  watch(
+    () => colorManager.schemeDiff.itemKinds.value,
+    () => {
+      if (isTransformDragging?.value) {
+        return
+      }
+
+      const mode = settingsStore.settings.threeDisplayMode
+      const currentIndexToIdMap =
+        mode === 'model' ? modelMode.indexToIdMap.value : indexToIdMap.value
+
+      colorManager.updateInstancesColor(
+        mode,
+        boxMode.mesh.value,
+        iconMode.mesh.value,
+        simpleBoxMode.mesh.value,
+        currentIndexToIdMap,
+        mode === 'model' ? modelMode.meshMap.value : undefined,
+        mode === 'model' ? modelMode.internalIdToMeshInfo.value : undefined
+      )
+
+      invalidateScene()
+    }
+  )
+
   // 资源清理
   onUnmounted(() => {
     isDisposed = true
@@ -942,6 +1007,8 @@ export function useThreeInstancedRenderer(isTransformDragging?: Ref<boolean>) {
     simpleBoxInstancedMesh: simpleBoxMode.mesh,
     modelMeshMap: modelMode.meshMap,
     modelFallbackMesh: modelMode.fallbackMesh,
+    levelGhostGroup: levelGhost.group,
+    levelGhostItems: levelGhost.ghostItems,
     updateSelectedInstancesMatrix,
     setHoveredItemId,
     updateIconFacing,
@@ -1,5 +1,6 @@
 import { ref, markRaw } from 'vue'
-import { BoxGeometry, InstancedMesh, DynamicDrawUsage, Sphere, Vector3 } from 'three'
+import { BoxGeometry, InstancedMesh, DynamicDrawUsage, Sphere, Vector3, type Matrix4 } from 'three'
+import type { AppItem } from '@/types/editor'
 import { useEditorStore } from '@/stores/editorStore'
 import { useGameDataStore } from '@/stores/gameDataStore'
 import { applyScaleRenderCompensationToPositionInPlace } from '@/lib/scaleRenderCompensation'
@@ -16,13 +17,56 @@ import {
 } from '../shared/scratchObjects'
 
 // 当缺少尺寸信息时使用的默认尺寸（游戏坐标：X=长, Y=宽, Z=高）
-const DEFAULT_FURNITURE_SIZE: [number, number, number] = [100, 100, 150]
+export const DEFAULT_FURNITURE_SIZE: [number, number, number] = [100, 100, 150]
 
 function detachInstancedMesh(mesh: InstancedMesh) {
   mesh.geometry = null as any
   mesh.material = null as any
 }
 
+/**
+ * 计算物品的 Box 实例矩阵（单位立方体按家具实际尺寸缩放，原点在底部）
+ *
+ * @param furnitureSize - 家具尺寸（游戏坐标：X=长, Y=宽, Z=高）
+ */
+export function composeBoxInstanceMatrix(
+  item: AppItem,
+  furnitureSize: [number, number, number],
+  target: Matrix4
+): Matrix4 {
+  // 位置
+  scratchPosition.set(item.x, item.y, item.z)
+
+  // 缩放参数和尺寸
+  const Scale = item.extra.Scale
+  const [sizeX, sizeY, sizeZ] = furnitureSize
+
+  // 旋转
+  // Z-Up Rotation: Yaw is around Z, Pitch around Y, Roll around X
+  // 由于场景父级在 Y 轴上做了镜像缩放 ([1, -1, 1])，
+  // 为了让编辑器中的 Roll / Pitch 与游戏中的方向一致，这里对 Roll 和 Pitch 取反
+  const Rotation = item.rotation
+  scratchEuler.set(
+    (-Rotation.x * Math.PI) / 180, // Roll around X (取反修正镜像)
+    (-Rotation.y * Math.PI) / 180, // Pitch around Y (取反修正镜像)
+    (Rotation.z * Math.PI) / 180, // Yaw around Z 保持不变
+    'ZYX'
+  )
+  scratchQuaternion.setFromEuler(scratchEuler)
+
+  applyScaleRenderCompensationToPositionInPlace(scratchPosition, item, scratchQuaternion, {
+    sizeX,
+    sizeY,
+  })
+
+  // 缩放：使用家具实际尺寸
+  // Z-up: sizeX=Length, sizeY=Width, sizeZ=Height
+  // 注意：游戏坐标系中 X/Y 与 Three.js 交换（游戏X=南北→Three.js Y，游戏Y=东西→Three.js X）
+  scratchScale.set((Scale.Y || 1) * sizeX, (Scale.X || 1) * sizeY, (Scale.Z || 1) * sizeZ)
+
+  return target.compose(scratchPosition, scratchQuaternion, scratchScale)
+}
+
 /**
  * Box 渲染模式
  *
@@ -67,7 +111,7 @@ export function useBoxMode() {
    * 重建所有实例
    */
   function rebuild() {
-    const items = editorStore.activeScheme?.items.value ?? []
+    const items = editorStore.visibleItems
     const instanceCount = requiredInstanceCount(items.length)
     ensureMeshPool(instanceCount)
 
@@ -80,41 +124,11 @@ export function useBoxMode() {
       const item = items[index]
       if (!item) continue
 
-      // 位置
-      scratchPosition.set(item.x, item.y, item.z)
-
-      // 缩放参数和尺寸
-      const Scale = item.extra.Scale
       const furnitureSize = resolveFurnitureSize(
         item.gameId,
         gameDataStore.getFurnitureSize(item.gameId) ?? DEFAULT_FURNITURE_SIZE
       )
-      const [sizeX, sizeY, sizeZ] = furnitureSize
-
-      // 旋转
-      // Z-Up Rotation: Yaw is around Z, Pitch around Y, Roll around X
-      // 由于场景父级在 Y 轴上做了镜像缩放 ([1, -1, 1])，
-      // 为了让编辑器中的 Roll / Pitch 与游戏中的方向一致，这里对 Roll 和 Pitch 取反
-      const Rotation = item.rotation
-      scratchEuler.set(
-        (-Rotation.x * Math.PI) / 180, // Roll around X (取反修正镜像)
-        (-Rotation.y * Math.PI) / 180, // Pitch around Y (取反修正镜像)
-        (Rotation.z * Math.PI) / 180, // Yaw around Z 保持不变
-        'ZYX'
-      )
-      scratchQuaternion.setFromEuler(scratchEuler)
-
-      applyScaleRenderCompensationToPositionInPlace(scratchPosition, item, scratchQuaternion, {
-        sizeX,
-        sizeY,
-      })
-
-      // 缩放：使用家具实际尺寸
-      // Z-up: sizeX=Length, sizeY=Width, sizeZ=Height
-      // 注意：游戏坐标系中 X/Y 与 Three.js 交换（游戏X=南北→Three.js Y，游戏Y=东西→Three.js X）
-      scratchScale.set((Scale.Y || 1) * sizeX, (Scale.X || 1) * sizeY, (Scale.Z || 1) * sizeZ)
-
-      scratchMatrix.compose(scratchPosition, scratchQuaternion, scratchScale)
+      composeBoxInstanceMatrix(item, furnitureSize, scratchMatrix)
       mesh.setMatrixAt(index, scratchMatrix)
 
       // 颜色占位（由 colorManager 统一更新）
@@ -11,11 +11,14 @@ import {
   DoubleSide,
   Color,
   Quaternion,
+  type Matrix4,
 } from 'three'
+import type { AppItem } from '@/types/editor'
 import { useSettingsStore } from '@/stores/settingsStore'
 import { useEditorStore } from '@/stores/editorStore'
 import { useLoadingStore } from '@/stores/loadingStore'
 import { getThreeIconManager, disposeThreeIconManager } from '@/composables/useThreeIconManager'
+import { applySceneClipping } from '../shared/clipping'
 import {
   scratchMatrix,
   scratchPosition,
@@ -28,6 +31,48 @@ import {
 } from '../shared/scratchObjects'
 import { nextInstancedPoolCapacity, requiredInstanceCount } from '@/lib/renderInstanceBudget'
 
+/**
+ * 计算物品的 Icon 实例矩阵（平面法线朝向 normal，可选 up 约束绕法线的旋转）
+ */
+export function composeIconInstanceMatrix(
+  item: AppItem,
+  normal: readonly [number, number, number],
+  up: readonly [number, number, number] | null,
+  symbolScale: number,
+  target: Matrix4
+): Matrix4 {
+  // 位置
+  scratchPosition.set(item.x, item.y, item.z)
+
+  // 1. 计算基础旋转矩阵 (World Space LookAt)
+  scratchTmpVec3.set(normal[0], normal[1], normal[2]).normalize()
+
+  if (up) {
+    scratchUpVec3.set(up[0], up[1], up[2]).normalize()
+
+    scratchLookAtTarget.set(-scratchTmpVec3.x, -scratchTmpVec3.y, -scratchTmpVec3.z)
+    target.lookAt(new Vector3(0, 0, 0), scratchLookAtTarget, scratchUpVec3)
+  } else {
+    scratchQuaternion.setFromUnitVectors(scratchDefaultNormal, scratchTmpVec3)
+    target.makeRotationFromQuaternion(scratchQuaternion)
+  }
+
+  // 2. 修正父级 Y 轴翻转 (Parent Scale: 1, -1, 1)
+  // 将矩阵的第二行 (Row 1) 取反
+  const el = target.elements
+  el[1] = -el[1]
+  el[5] = -el[5]
+  el[9] = -el[9]
+  // 注意：不翻转位移部分 (el[13])，因为 scratchPosition 已经是基于游戏坐标（即 Flip 后的坐标）
+
+  // 3. 应用缩放
+  scratchScale.set(symbolScale, symbolScale, symbolScale)
+  target.scale(scratchScale)
+
+  // 4. 应用位置
+  return target.setPosition(scratchPosition)
+}
+
 /**
  * Icon 渲染模式
  *
@@ -108,6 +153,7 @@ export function useIconMode() {
         vertexShader: `
         #include <common>
         #include <logdepthbuf_pars_vertex>
+        #include <clipping_planes_pars_vertex>
 
         // 自定义 attribute
         in float textureIndex;
@@ -132,6 +178,7 @@ export function useIconMode() {
           vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4(position, 1.0);
           gl_Position = projectionMatrix * mvPosition;
           #include <logdepthbuf_vertex>
+          #include <clipping_planes_vertex>
         }
       `,
         fragmentShader: `
@@ -139,6 +186,7 @@ export function useIconMode() {
 
         #include <common>
         #include <logdepthbuf_pars_fragment>
+        #include <clipping_planes_pars_fragment>
         
         uniform sampler3D textureArray;  // 3D 纹理数组
         uniform float textureDepth;      // 纹理数组的深度（动态）
@@ -151,6 +199,8 @@ export function useIconMode() {
         out vec4 fragColor;
         
         void main() {
+          #include <clipping_planes_fragment>
+
           // 将索引转换为归一化的 Z 坐标 (0.0 ~ 1.0)
           // 注意：为了精准采样，需要偏移到层中心
           float z = (vTextureIndex + 0.5) / textureDepth;
@@ -192,6 +242,7 @@ export function useIconMode() {
         glslVersion: GLSL3, // 启用 GLSL 3.0 （WebGL2）
         side: DoubleSide, // 双面渲染，确保 Raycaster 即使从背面射入也能检测到，且防止因镜像缩放导致的背面剔除
       })
+      applySceneClipping(iconMaterial)
     } else {
       // 如果材质已存在（可能是之前 dispose 后又重建），更新 uniforms
       if (iconMaterial.uniforms.textureArray) {
@@ -219,7 +270,7 @@ export function useIconMode() {
    * 重建所有实例
    */
   async function rebuild() {
-    const items = editorStore.activeScheme?.items.value ?? []
+    const items = editorStore.visibleItems
     const instanceCount = requiredInstanceCount(items.length)
 
     const uniqueItemIdsSet = new Set(items.slice(0, instanceCount).map((item) => item.gameId))
@@ -279,40 +330,13 @@ export function useIconMode() {
       const item = items[index]
       if (!item) continue
 
-      // 位置
-      scratchPosition.set(item.x, item.y, item.z)
-
-      // 1. 计算基础旋转矩阵 (World Space LookAt)
-      scratchTmpVec3
-        .set(currentIconNormal.value[0], currentIconNormal.value[1], currentIconNormal.value[2])
-        .normalize()
-
-      if (currentIconUp.value) {
-        scratchUpVec3
-          .set(currentIconUp.value[0], currentIconUp.value[1], currentIconUp.value[2])
-          .normalize()
-
-        scratchLookAtTarget.set(-scratchTmpVec3.x, -scratchTmpVec3.y, -scratchTmpVec3.z)
-        scratchMatrix.lookAt(new Vector3(0, 0, 0), scratchLookAtTarget, scratchUpVec3)
-      } else {
-        scratchQuaternion.setFromUnitVectors(scratchDefaultNormal, scratchTmpVec3)
-        scratchMatrix.makeRotationFromQuaternion(scratchQuaternion)
-      }
-
-      // 2. 修正父级 Y 轴翻转 (Parent Scale: 1, -1, 1)
-      // 将矩阵的第二行 (Row 1) 取反
-      const el = scratchMatrix.elements
-      el[1] = -el[1]
-      el[5] = -el[5]
-      el[9] = -el[9]
-      // 注意：不翻转位移部分 (el[13])，因为 scratchPosition 已经是基于游戏坐标（即 Flip 后的坐标）
-
-      // 3. 应用缩放
-      scratchScale.set(symbolScale, symbolScale, symbolScale)
-      scratchMatrix.scale(scratchScale)
-
-      // 4. 应用位置
-      scratchMatrix.setPosition(scratchPosition)
+      composeIconInstanceMatrix(
+        item,
+        currentIconNormal.value,
+        currentIconUp.value,
+        symbolScale,
+        scratchMatrix
+      )
 
       currentIconMeshTarget.setMatrixAt(index, scratchMatrix)
 
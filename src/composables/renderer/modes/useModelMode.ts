@@ -1,5 +1,5 @@
 import { ref, markRaw, shallowRef } from 'vue'
-import { InstancedMesh, BoxGeometry, DynamicDrawUsage } from 'three'
+import { InstancedMesh, BoxGeometry, DynamicDrawUsage, type Matrix4 } from 'three'
 import type { AppItem } from '@/types/editor'
 import { useEditorStore } from '@/stores/editorStore'
 import { useGameDataStore } from '@/stores/gameDataStore'
@@ -47,6 +47,38 @@ interface ModelRebuildOptions {
   isStale?: () => boolean
 }
 
+/**
+ * 计算物品的模型实例矩阵（模型几何体本身即家具尺寸，只叠加物品缩放）
+ *
+ * @param displayGeometry - 模型显示尺寸，用于缩放渲染补偿；缺失时不做补偿
+ */
+export function composeModelInstanceMatrix(
+  item: AppItem,
+  displayGeometry: { sizeX: number; sizeY: number } | null,
+  target: Matrix4
+): Matrix4 {
+  scratchPosition.set(item.x, item.y, item.z)
+  const Scale = item.extra.Scale
+  const Rotation = item.rotation
+  scratchEuler.set(
+    (-Rotation.x * Math.PI) / 180,
+    (-Rotation.y * Math.PI) / 180,
+    (Rotation.z * Math.PI) / 180,
+    'ZYX'
+  )
+  scratchQuaternion.setFromEuler(scratchEuler)
+  scratchScale.set(Scale.Y || 1, Scale.X || 1, Scale.Z || 1)
+
+  if (displayGeometry) {
+    applyScaleRenderCompensationToPositionInPlace(scratchPosition, item, scratchQuaternion, {
+      sizeX: displayGeometry.sizeX,
+      sizeY: displayGeometry.sizeY,
+    })
+  }
+
+  return target.compose(scratchPosition, scratchQuaternion, scratchScale)
+}
+
 /**
  * Model 渲染模式
  *
@@ -157,7 +189,7 @@ export function useModelMode() {
     const assetProfile = settingsStore.settings.modelAssetProfile
     syncAssetProfile(assetProfile)
     const modelManager = getThreeModelManager()
-    const items = currentScheme?.items.value ?? []
+    const items = currentScheme ? editorStore.visibleItems : []
     const instanceCount = requiredInstanceCount(items.length)
     const renderCap = MAX_RENDER_INSTANCES
     // isStale=true 表示这次构建结果不该再提交（例如用户切方案了）
@@ -439,26 +471,7 @@ export function useModelMode() {
         const item = itemsOfModel[i]
         if (!item) continue
 
-        scratchPosition.set(item.x, item.y, item.z)
-        const Scale = item.extra.Scale
-        const Rotation = item.rotation
-        scratchEuler.set(
-          (-Rotation.x * Math.PI) / 180,
-          (-Rotation.y * Math.PI) / 180,
-          (Rotation.z * Math.PI) / 180,
-          'ZYX'
-        )
-        scratchQuaternion.setFromEuler(scratchEuler)
-        scratchScale.set(Scale.Y || 1, Scale.X || 1, Scale.Z || 1)
-
-        if (displayGeometry) {
-          applyScaleRenderCompensationToPositionInPlace(scratchPosition, item, scratchQuaternion, {
-            sizeX: displayGeometry.sizeX,
-            sizeY: displayGeometry.sizeY,
-          })
-        }
-
-        scratchMatrix.compose(scratchPosition, scratchQuaternion, scratchScale)
+        composeModelInstanceMatrix(item, displayGeometry, scratchMatrix)
         mesh.setMatrixAt(i, scratchMatrix)
         scratchColor.setHex(0xffffff)
         mesh.setColorAt(i, scratchColor)
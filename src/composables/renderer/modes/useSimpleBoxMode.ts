@@ -1,5 +1,6 @@
 import { ref, markRaw } from 'vue'
-import { BoxGeometry, InstancedMesh, DynamicDrawUsage, Sphere, Vector3 } from 'three'
+import { BoxGeometry, InstancedMesh, DynamicDrawUsage, Sphere, Vector3, type Matrix4 } from 'three'
+import type { AppItem } from '@/types/editor'
 import { useEditorStore } from '@/stores/editorStore'
 import { useSettingsStore } from '@/stores/settingsStore'
 import { nextInstancedPoolCapacity, requiredInstanceCount } from '@/lib/renderInstanceBudget'
@@ -19,6 +20,34 @@ function detachInstancedMesh(mesh: InstancedMesh) {
   mesh.material = null as any
 }
 
+/**
+ * 计算物品的 Simple Box 实例矩阵（固定 100 单位立方体，按符号缩放）
+ */
+export function composeSimpleBoxInstanceMatrix(
+  item: AppItem,
+  symbolScale: number,
+  target: Matrix4
+): Matrix4 {
+  // 位置
+  scratchPosition.set(item.x, item.y, item.z)
+
+  // 旋转：同 Box 模式，需要对 Roll / Pitch 取反以抵消父级 Y 轴镜像
+  const Rotation = item.rotation
+  scratchEuler.set(
+    (-Rotation.x * Math.PI) / 180,
+    (-Rotation.y * Math.PI) / 180,
+    (Rotation.z * Math.PI) / 180,
+    'ZYX'
+  )
+  scratchQuaternion.setFromEuler(scratchEuler)
+
+  // 缩放：基础 100 * symbolScale
+  const s = 100 * symbolScale
+  scratchScale.set(s, s, s)
+
+  return target.compose(scratchPosition, scratchQuaternion, scratchScale)
+}
+
 /**
  * Simple Box 渲染模式
  *
@@ -63,7 +92,7 @@ export function useSimpleBoxMode() {
    * 重建所有实例
    */
   function rebuild() {
-    const items = editorStore.activeScheme?.items.value ?? []
+    const items = editorStore.visibleItems
     const instanceCount = requiredInstanceCount(items.length)
     ensureMeshPool(instanceCount)
 
@@ -78,24 +107,7 @@ export function useSimpleBoxMode() {
       const item = items[index]
       if (!item) continue
 
-      // 位置
-      scratchPosition.set(item.x, item.y, item.z)
-
-      // 旋转：同 Box 模式，需要对 Roll / Pitch 取反以抵消父级 Y 轴镜像
-      const Rotation = item.rotation
-      scratchEuler.set(
-        (-Rotation.x * Math.PI) / 180,
-        (-Rotation.y * Math.PI) / 180,
-        (Rotation.z * Math.PI) / 180,
-        'ZYX'
-      )
-      scratchQuaternion.setFromEuler(scratchEuler)
-
-      // 缩放：基础 100 * symbolScale
-      const s = 100 * symbolScale
-      scratchScale.set(s, s, s)
-
-      scratchMatrix.compose(scratchPosition, scratchQuaternion, scratchScale)
+      composeSimpleBoxInstanceMatrix(item, symbolScale, scratchMatrix)
       mesh.setMatrixAt(index, scratchMatrix)
 
       // 颜色占位（由 colorManager 统一更新）
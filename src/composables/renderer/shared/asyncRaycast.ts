@@ -1,5 +1,6 @@
 import { Mesh, Matrix4, Raycaster, Sphere, type InstancedMesh, type Intersection } from 'three'
 import type { RaycastHit, RaycastTask } from '../types'
+import { isPointClipped } from './clipping'
 import {
   createTaskToken,
   cancelTaskToken,
@@ -122,8 +123,10 @@ export async function raycastInstancedMeshAsync(
     if (_instanceIntersects.length > 0) {
       // 注意：mesh.raycast() 返回的交点顺序不保证按 distance 排序，
       // 这里显式选择当前实例中最近的命中，保持与 Raycaster.intersectObject 语义一致
+      // 被剖切平面裁掉的交点跳过（与同步 pick 一致）
       let hit: Intersection | null = null
       for (const it of _instanceIntersects) {
+        if (isPointClipped(it.point)) continue
         if (!hit || it.distance < hit.distance) {
           hit = it
         }
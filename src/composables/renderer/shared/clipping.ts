@@ -0,0 +1,34 @@
+import type { Material, Plane, ShaderMaterial, Vector3 } from 'three'
+
+/** 剖切平面数量上限 */
+export const MAX_CLIPPING_PLANES = 3
+
+/**
+ * 场景剖切平面（世界空间，保留法线指向的一侧）
+ *
+ * 所有物品材质共享同一个数组引用，由 useThreeClippingPlanes 原地更新；
+ * 平面数量变化时 three 会自动切换 shader program，无需手动标记 needsUpdate。
+ */
+export const sceneClippingPlanes: Plane[] = []
+
+/**
+ * 为材质挂载场景剖切平面
+ * 自定义 ShaderMaterial 还需要在 shader 中引入 clipping_planes_* chunk
+ */
+export function applySceneClipping<T extends Material>(material: T): T {
+  material.clippingPlanes = sceneClippingPlanes
+  if ((material as Material as ShaderMaterial).isShaderMaterial) {
+    ;(material as Material as ShaderMaterial).clipping = true
+  }
+  return material
+}
+
+/**
+ * 世界空间中的点是否被剖切掉（用于射线检测和框选，与 GPU 裁剪规则一致）
+ */
+export function isPointClipped(point: Vector3): boolean {
+  for (const plane of sceneClippingPlanes) {
+    if (plane.distanceToPoint(point) < 0) return true
+  }
+  return false
+}
@@ -1,7 +1,11 @@
+import type { SchemeDiffKind } from '@/lib/schemeDiff'
+
 export const DEFAULT_ITEM_COLOR = 0x94a3b8
 export const SELECTED_ITEM_COLOR = 0x60a5fa
 export const HOVER_ITEM_COLOR = 0xf59e0b
 export const ALIGN_REFERENCE_ITEM_COLOR = 0xfacc15
+// 楼层半透明显示（当前楼层以外的物品）
+export const LEVEL_GHOST_ITEM_COLOR = 0x94a3b8
 
 export function convertColorToHex(colorStr: string | undefined): number {
   if (!colorStr) return DEFAULT_ITEM_COLOR
@@ -12,3 +16,15 @@ export function convertColorToHex(colorStr: string | undefined): number {
   const b = parseInt(matches[2] ?? '184', 10)
   return (r << 16) | (g << 8) | b
 }
+
+// 方案对比着色（未变化的物品压暗，突出变化）
+export const DIFF_UNCHANGED_ITEM_COLOR = 0x475569
+export const DIFF_ITEM_COLORS: Record<SchemeDiffKind, number> = {
+  added: 0x22c55e,
+  removed: 0xef4444,
+  moved: 0xf97316,
+  rotated: 0xa855f7,
+  rescaled: 0x06b6d4,
+  redyed: 0xec4899,
+  regrouped: 0x6366f1,
+}
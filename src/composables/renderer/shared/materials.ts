@@ -1,15 +1,16 @@
 import { ShaderMaterial } from 'three'
+import { applySceneClipping } from './clipping'
 
 /**
  * 创建带边框效果的 ShaderMaterial
  *
- * 用于 Box 和 Simple Box 模式的渲染
+ * 用于 Box 和 Simple Box 模式的渲染（受场景剖切平面裁剪）
  *
  * @param opacity - 材质透明度 (0.0 ~ 1.0)
  * @returns ShaderMaterial 实例
  */
 export function createBoxMaterial(opacity: number): ShaderMaterial {
-  return new ShaderMaterial({
+  const material = new ShaderMaterial({
     uniforms: {
       uOpacity: { value: opacity },
       uBorderWidth: { value: 0.6 }, // 物理边框宽度 (单位: 游戏世界单位)
@@ -17,6 +18,7 @@ export function createBoxMaterial(opacity: number): ShaderMaterial {
     vertexShader: `
       #include <common>
       #include <logdepthbuf_pars_vertex>
+      #include <clipping_planes_pars_vertex>
       varying vec2 vUv;
       varying vec3 vColor;
       varying vec3 vScale;
@@ -42,12 +44,14 @@ export function createBoxMaterial(opacity: number): ShaderMaterial {
         vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4(position, 1.0);
         gl_Position = projectionMatrix * mvPosition;
         #include <logdepthbuf_vertex>
+        #include <clipping_planes_vertex>
       }
     `,
     fragmentShader: `
       precision highp float;
 
       #include <logdepthbuf_pars_fragment>
+      #include <clipping_planes_pars_fragment>
       
       uniform float uOpacity;
       uniform float uBorderWidth;
@@ -58,6 +62,8 @@ export function createBoxMaterial(opacity: number): ShaderMaterial {
       varying vec3 vLocalNormal;
 
       void main() {
+        #include <clipping_planes_fragment>
+
         // === 物理等宽边框 + 平滑抗锯齿 + 面处理 ===
         
         // 根据法线判断当前渲染的是哪个面，并获取该面对应的物理尺寸
@@ -113,4 +119,6 @@ export function createBoxMaterial(opacity: number): ShaderMaterial {
     depthWrite: true,
     depthTest: true,
   })
+
+  return applySceneClipping(material)
 }
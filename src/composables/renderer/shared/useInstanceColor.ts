@@ -4,11 +4,14 @@ import type { AppItem } from '@/types/editor'
 import { useEditorStore } from '@/stores/editorStore'
 import { useUIStore } from '@/stores/uiStore'
 import { useEditorGroups } from '@/composables/editor/useEditorGroups'
+import { useSchemeDiff } from '@/composables/useSchemeDiff'
 import { scratchColor } from './scratchObjects'
 import {
   ALIGN_REFERENCE_ITEM_COLOR,
   convertColorToHex,
   DEFAULT_ITEM_COLOR,
+  DIFF_ITEM_COLORS,
+  DIFF_UNCHANGED_ITEM_COLOR,
   HOVER_ITEM_COLOR,
   SELECTED_ITEM_COLOR,
 } from './interactionColors'
@@ -16,12 +19,13 @@ import {
 /**
  * 实例颜色管理
  *
- * 负责根据状态（hover/选中/分组/参照物）计算和更新实例颜色
+ * 负责根据状态（hover/选中/分组/参照物/方案对比）计算和更新实例颜色
  */
 export function useInstanceColor() {
   const editorStore = useEditorStore()
   const uiStore = useUIStore()
   const { getGroupColor } = useEditorGroups()
+  const schemeDiff = useSchemeDiff()
 
   // 当前 hover 的物品（仅 3D 视图内部使用，不改变全局选中状态）
   const hoveredItemId = ref<string | null>(null)
@@ -39,12 +43,15 @@ export function useInstanceColor() {
   }
 
   function getItemColor(item: AppItem, mode?: string): number {
-    // Model 模式特殊处理：只有参照物需要颜色叠加，其他状态保持白色（由描边系统处理）
+    // Model 模式特殊处理：只有参照物与方案对比需要颜色叠加，其他状态保持白色（由描边系统处理）
     if (mode === 'model') {
       // 参照物高亮（唯一需要颜色叠加的状态）
       if (uiStore.alignReferenceItemId === item.internalId) {
         return ALIGN_REFERENCE_ITEM_COLOR
       }
+      // 方案对比：变化的物品叠加分类颜色
+      const diffKind = schemeDiff.itemKinds.value.get(item.internalId)
+      if (diffKind) return DIFF_ITEM_COLORS[diffKind]
       // 其他状态（hover/选中/组合）都返回白色，不影响纹理原色
       return 0xffffff
     }
@@ -56,6 +63,12 @@ export function useInstanceColor() {
     const selectedItemIds = editorStore.activeScheme?.selectedItemIds.value ?? new Set()
     if (selectedItemIds.has(item.internalId)) return SELECTED_ITEM_COLOR
 
+    // 方案对比期间按变化分类着色，未变化的物品统一压暗（覆盖组颜色）
+    if (schemeDiff.isActive.value) {
+      const diffKind = schemeDiff.itemKinds.value.get(item.internalId)
+      return diffKind ? DIFF_ITEM_COLORS[diffKind] : DIFF_UNCHANGED_ITEM_COLOR
+    }
+
     const groupId = item.groupId
     if (groupId > 0) {
       return convertColorToHex(getGroupColor(groupId))
@@ -242,6 +255,7 @@ export function useInstanceColor() {
   }
 
   return {
+    schemeDiff,
     hoveredItemId,
     sidebarHoveredItemIds,
     suppressedHoverId,
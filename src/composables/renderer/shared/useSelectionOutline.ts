@@ -20,6 +20,7 @@ import {
   type Camera,
 } from 'three'
 import { scratchColor } from './scratchObjects'
+import { applySceneClipping } from './clipping'
 
 // 颜色配置
 const SELECTED_COLOR = new Color(0x60a5fa) // 蓝色
@@ -52,9 +53,11 @@ export function useSelectionOutline() {
   // 共享材质：使用自定义 shader 支持通过 instanceColor 控制实例可见性
   // depthTest=false 实现强穿透，fragment shader 通过 discard 排除未选中的实例
   // 双通道编码：R=选中状态，G=hover状态
+  // 同样受剖切平面裁剪，描边只勾勒剖切后仍可见的部分
   const maskMaterial = markRaw(
     new ShaderMaterial({
       vertexShader: `
+        #include <clipping_planes_pars_vertex>
         varying vec3 vInstanceColor;
         void main() {
           // 仅在存在 instanceColor attribute 时读取，避免 Shader 编译失败
@@ -63,12 +66,16 @@ export function useSelectionOutline() {
           #else
             vInstanceColor = vec3(0.0);
           #endif
-          gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+          vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+          gl_Position = projectionMatrix * mvPosition;
+          #include <clipping_planes_vertex>
         }
       `,
       fragmentShader: `
+        #include <clipping_planes_pars_fragment>
         varying vec3 vInstanceColor;
         void main() {
+          #include <clipping_planes_fragment>
           // R和G通道都为0表示不渲染
           if (vInstanceColor.r < 0.001 && vInstanceColor.g < 0.001) {
             discard;
@@ -88,6 +95,7 @@ export function useSelectionOutline() {
       blendDst: OneFactor,
     })
   )
+  applySceneClipping(maskMaterial)
 
   // Outline 全屏 quad
   const overlayScene = markRaw(new Scene())
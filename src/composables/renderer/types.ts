@@ -1,4 +1,4 @@
-import type { Camera, InstancedMesh, Matrix4, Raycaster } from 'three'
+import type { Camera, InstancedMesh, Matrix4, Raycaster, Vector3 } from 'three'
 import type { Ref } from 'vue'
 import type { ScreenPoint } from '@/lib/interaction/screenGeometry'
 
@@ -23,6 +23,8 @@ export interface RaycastHit {
   instanceId: number
   internalId: string
   distance: number
+  /** 命中面的世界空间单位法线（同步 pick 命中实例化网格时提供） */
+  normal?: Vector3
   kind?: 'item' | 'slide-path-segment' | 'slide-path-point'
   pointIndex?: number
 }
@@ -58,9 +60,10 @@ export interface InteractionAdapter {
   /**
    * 同步射线检测（用于点击选择等需要立即结果的场景）
    * @param raycaster - Three.js Raycaster 实例
+   * @param filter - 可选的命中过滤，返回 false 的物品会被穿透（继续检测更远的交点）
    * @returns 拾取结果（最近的交点）或 null
    */
-  pick: (raycaster: Raycaster) => RaycastHit | null
+  pick: (raycaster: Raycaster, filter?: (internalId: string) => boolean) => RaycastHit | null
 
   /**
    * 异步时间切片射线检测（用于 tooltip 等可接受延迟的场景）
@@ -0,0 +1,283 @@
+import { computed, markRaw, onUnmounted, watch, type Ref } from 'vue'
+import {
+  BoxGeometry,
+  DoubleSide,
+  DynamicDrawUsage,
+  Group,
+  InstancedMesh,
+  MeshBasicMaterial,
+  PlaneGeometry,
+  Sphere,
+  Vector3,
+  type BufferGeometry,
+  type Material,
+} from 'three'
+import type { AppItem } from '@/types/editor'
+import { useEditorStore } from '@/stores/editorStore'
+import { useGameDataStore } from '@/stores/gameDataStore'
+import { useSettingsStore } from '@/stores/settingsStore'
+import { getThreeModelManager } from '@/composables/useThreeModelManager'
+import { invalidateScene } from '@/composables/useSceneInvalidate'
+import { isItemInLevel } from '@/lib/levels'
+import { nextInstancedPoolCapacity, requiredInstanceCount } from '@/lib/renderInstanceBudget'
+import { resolveDisplayGeometryInfo } from '@/lib/scaleRenderCompensation'
+import { resolveFurnitureSize } from '@/lib/slidePath'
+import { composeBoxInstanceMatrix, DEFAULT_FURNITURE_SIZE } from './modes/useBoxMode'
+import { composeIconInstanceMatrix } from './modes/useIconMode'
+import { composeModelInstanceMatrix } from './modes/useModelMode'
+import { composeSimpleBoxInstanceMatrix } from './modes/useSimpleBoxMode'
+import { applySceneClipping } from './shared/clipping'
+import { createBoxMaterial } from './shared/materials'
+import { LEVEL_GHOST_ITEM_COLOR } from './shared/interactionColors'
+import { scratchColor, scratchMatrix } from './shared/scratchObjects'
+
+const GHOST_OPACITY = 0.15
+
+interface GhostBatch {
+  geometry: BufferGeometry
+  material: Material
+  items: AppItem[]
+  compose: (item: AppItem) => void
+}
+
+interface LevelGhostRendererOptions {
+  // 与 Icon 模式保持一致的图标朝向
+  iconNormal: Ref<[number, number, number]>
+  iconUp: Ref<[number, number, number] | null>
+}
+
+// 楼层半透明渲染器：当前楼层以外的物品按当前显示模式的几何体（方块 / 图标平面 / 模型）半透明绘制
+// 不复用主渲染器的 mesh：同一次实例化绘制只能有一种深度写入和混合状态，
+// 半透明物品需要关闭深度写入，否则会挡住当前楼层；模型材质又由模型管理器按染色方案共享
+// ghost mesh 不参与拾取，也不进入主渲染器的 index 映射
+export function useLevelGhostRenderer({ iconNormal, iconUp }: LevelGhostRendererOptions) {
+  const editorStore = useEditorStore()
+  const gameDataStore = useGameDataStore()
+  const settingsStore = useSettingsStore()
+
+  const group = markRaw(new Group())
+
+  const boxGeometry = markRaw(new BoxGeometry(1, 1, 1))
+  boxGeometry.translate(0, 0, 0.5)
+  const iconGeometry = markRaw(new PlaneGeometry(100, 100))
+
+  const boxMaterial = markRaw(createBoxMaterial(GHOST_OPACITY))
+  boxMaterial.depthWrite = false
+  // 图标和模型没有方块边框，统一用纯色半透明材质（颜色来自实例颜色）
+  const flatMaterial = markRaw(
+    applySceneClipping(
+      new MeshBasicMaterial({
+        transparent: true,
+        opacity: GHOST_OPACITY,
+        depthWrite: false,
+        side: DoubleSide,
+      })
+    )
+  )
+
+  // 批次 key -> InstancedMesh（box / icon / model:<gameId>）
+  const meshes = new Map<string, InstancedMesh>()
+  let rebuildSeq = 0
+
+  // 需要半透明显示的物品：仅在选中楼层且显示模式为 ghost 时存在
+  const ghostItems = computed(() => {
+    const scheme = editorStore.activeScheme
+    const level = editorStore.activeLevel
+    if (!scheme || !level || settingsStore.settings.levelDisplayMode !== 'ghost') return []
+
+    const hiddenIds = scheme.hiddenItemIds.value
+    return scheme.items.value.filter(
+      (item) => !hiddenIds.has(item.internalId) && !isItemInLevel(item, level)
+    )
+  })
+
+  function getFurnitureSize(gameId: number): [number, number, number] {
+    return resolveFurnitureSize(
+      gameId,
+      gameDataStore.getFurnitureSize(gameId) ?? DEFAULT_FURNITURE_SIZE
+    )
+  }
+
+  function createBoxBatch(): GhostBatch {
+    return {
+      geometry: boxGeometry,
+      material: boxMaterial,
+      items: [],
+      compose: (item) =>
+        composeBoxInstanceMatrix(item, getFurnitureSize(item.gameId), scratchMatrix),
+    }
+  }
+
+  // 按当前显示模式把物品分到各几何体批次；模型模式下未能加载模型的物品回退为方块
+  async function buildBatches(items: AppItem[], isStale: () => boolean) {
+    const batches = new Map<string, GhostBatch>()
+    const mode = settingsStore.settings.threeDisplayMode
+
+    if (mode === 'icon') {
+      const symbolScale = settingsStore.settings.threeSymbolScale
+      batches.set('icon', {
+        geometry: iconGeometry,
+        material: flatMaterial,
+        items,
+        compose: (item) =>
+          composeIconInstanceMatrix(
+            item,
+            iconNormal.value,
+            iconUp.value,
+            symbolScale,
+            scratchMatrix
+          ),
+      })
+      return batches
+    }
+
+    if (mode === 'simple-box') {
+      const symbolScale = settingsStore.settings.threeSymbolScale
+      batches.set('box', {
+        ...createBoxBatch(),
+        items,
+        compose: (item) => composeSimpleBoxInstanceMatrix(item, symbolScale, scratchMatrix),
+      })
+      return batches
+    }
+
+    if (mode !== 'model') {
+      batches.set('box', { ...createBoxBatch(), items })
+      return batches
+    }
+
+    const modelManager = getThreeModelManager()
+    const modelGameIds = new Set<number>()
+    for (const item of items) {
+      const config = gameDataStore.getFurnitureModelConfig(item.gameId)
+      if (config?.meshes && config.meshes.length > 0) modelGameIds.add(item.gameId)
+    }
+
+    const unloadedIds = modelManager.getUnloadedModels(Array.from(modelGameIds))
+    if (unloadedIds.length > 0) {
+      await modelManager.preloadModels(unloadedIds).catch((err) => {
+        console.warn('[LevelGhostRenderer] 模型预加载失败:', err)
+      })
+      if (isStale()) return null
+    }
+
+    for (const item of items) {
+      const geometry = modelGameIds.has(item.gameId)
+        ? modelManager.getModelGeometry(item.gameId)
+        : null
+      const key = geometry ? `model:${item.gameId}` : 'box'
+
+      let batch = batches.get(key)
+      if (!batch) {
+        if (geometry) {
+          const displayGeometry = resolveDisplayGeometryInfo(item, {
+            currentMode: 'model',
+            getFurnitureSize,
+            getModelConfig: (gameId) => gameDataStore.getFurnitureModelConfig(gameId),
+            getModelBoundingBox: (gameId) => modelManager.getModelBoundingBox(gameId),
+          })
+          batch = {
+            geometry,
+            material: flatMaterial,
+            items: [],
+            compose: (ghost) => composeModelInstanceMatrix(ghost, displayGeometry, scratchMatrix),
+          }
+        } else {
+          batch = createBoxBatch()
+        }
+        batches.set(key, batch)
+      }
+      batch.items.push(item)
+    }
+
+    return batches
+  }
+
+  function ensureMesh(key: string, batch: GhostBatch, requiredInstances: number): InstancedMesh {
+    const existing = meshes.get(key)
+    const current = existing?.instanceMatrix.count ?? 0
+    const targetPool = nextInstancedPoolCapacity(requiredInstances, current)
+    if (
+      existing &&
+      current >= targetPool &&
+      existing.geometry === batch.geometry &&
+      existing.material === batch.material
+    ) {
+      return existing
+    }
+
+    if (existing) group.remove(existing)
+
+    const mesh = new InstancedMesh(batch.geometry, batch.material, targetPool)
+    mesh.frustumCulled = false
+    mesh.renderOrder = 1
+    mesh.boundingSphere = new Sphere(new Vector3(0, 0, 0), Infinity)
+    mesh.instanceMatrix.setUsage(DynamicDrawUsage)
+    // 不可拾取：点击穿透到当前楼层的物品
+    mesh.raycast = () => {}
+    mesh.count = 0
+    meshes.set(key, markRaw(mesh))
+    group.add(mesh)
+    return mesh
+  }
+
+  async function rebuild() {
+    const seq = ++rebuildSeq
+    const isStale = () => seq !== rebuildSeq
+
+    const allItems = ghostItems.value
+    const items = allItems.slice(0, requiredInstanceCount(allItems.length))
+    const batches = await buildBatches(items, isStale)
+    if (!batches || isStale()) return
+
+    for (const [key, mesh] of meshes) {
+      if (batches.has(key)) continue
+      group.remove(mesh)
+      meshes.delete(key)
+    }
+
+    scratchColor.setHex(LEVEL_GHOST_ITEM_COLOR)
+    for (const [key, batch] of batches) {
+      const mesh = ensureMesh(key, batch, batch.items.length)
+      mesh.count = batch.items.length
+
+      batch.items.forEach((item, index) => {
+        batch.compose(item)
+        mesh.setMatrixAt(index, scratchMatrix)
+        mesh.setColorAt(index, scratchColor)
+      })
+
+      mesh.instanceMatrix.needsUpdate = true
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true
+    }
+
+    invalidateScene()
+  }
+
+  // 场景变更、显示模式和模型档位切换由主渲染器在其重建完成后调用 rebuild，
+  // 保证模型模式下使用的是已切换档位的模型管理器；这里只处理主渲染器不重建的情况
+  watch([ghostItems, () => settingsStore.settings.threeSymbolScale], () => rebuild())
+
+  // 图标朝向跟随相机变化时同步更新
+  watch([iconNormal, iconUp], () => {
+    if (settingsStore.settings.threeDisplayMode === 'icon' && ghostItems.value.length > 0) {
+      rebuild()
+    }
+  })
+
+  onUnmounted(() => {
+    rebuildSeq++
+    group.clear()
+    meshes.clear()
+    boxGeometry.dispose()
+    iconGeometry.dispose()
+    boxMaterial.dispose()
+    flatMaterial.dispose()
+  })
+
+  return {
+    group,
+    ghostItems,
+    rebuild,
+  }
+}
@@ -21,6 +21,7 @@ import { invalidateScene } from '@/composables/useSceneInvalidate'
 import { matrixTransform } from '@/lib/matrixTransform'
 import { nextInstancedPoolCapacity, requiredInstanceCount } from '@/lib/renderInstanceBudget'
 import { createBoxMaterial } from './shared/materials'
+import { applySceneClipping, isPointClipped } from './shared/clipping'
 import {
   ALIGN_REFERENCE_ITEM_COLOR,
   convertColorToHex,
@@ -82,13 +83,15 @@ export function useSlidePathRenderer() {
   const pointGeometry = markRaw(new SphereGeometry(1, 16, 12))
   const segmentMaterial = markRaw(createBoxMaterial(SEGMENT_OPACITY))
   const pointMaterial = markRaw(
-    new MeshBasicMaterial({
-      color: 0xffffff,
-      transparent: true,
-      opacity: POINT_OPACITY,
-      depthTest: true,
-      depthWrite: true,
-    })
+    applySceneClipping(
+      new MeshBasicMaterial({
+        color: 0xffffff,
+        transparent: true,
+        opacity: POINT_OPACITY,
+        depthTest: true,
+        depthWrite: true,
+      })
+    )
   )
 
   const segmentMesh = ref<InstancedMesh | null>(null)
@@ -199,7 +202,7 @@ export function useSlidePathRenderer() {
   function rebuild() {
     if (isDisposed) return
 
-    const items = (editorStore.activeScheme?.items.value ?? []).filter(shouldRenderAsSlidePath)
+    const items = editorStore.visibleItems.filter(shouldRenderAsSlidePath)
     let requiredSegments = 0
     let requiredPoints = 0
     for (const item of items) {
@@ -314,16 +317,17 @@ export function useSlidePathRenderer() {
     raycaster: Raycaster,
     mesh: InstancedMesh | null,
     indexMap: Map<number, SegmentEntry | PointEntry>,
-    kind: 'slide-path-segment' | 'slide-path-point'
+    kind: 'slide-path-segment' | 'slide-path-point',
+    filter?: (internalId: string) => boolean
   ): RaycastHit | null {
     if (!mesh || mesh.count === 0) return null
 
     mesh.updateWorldMatrix(true, false)
     const intersects = raycaster.intersectObject(mesh, false)
     for (const hit of intersects) {
-      if (hit.instanceId === undefined) continue
+      if (hit.instanceId === undefined || isPointClipped(hit.point)) continue
       const entry = indexMap.get(hit.instanceId)
-      if (!entry) continue
+      if (!entry || (filter && !filter(entry.internalId))) continue
 
       return {
         instanceId: hit.instanceId,
@@ -338,14 +342,26 @@ export function useSlidePathRenderer() {
   }
 
   // pick 优先命中节点（用户更可能想编辑节点），其次命中 segment
-  function pick(raycaster: Raycaster): RaycastHit | null {
-    const pointHit = findClosestHit(raycaster, pointMesh.value, pointIndexMap, 'slide-path-point')
+  function pick(raycaster: Raycaster, filter?: (internalId: string) => boolean): RaycastHit | null {
+    const pointHit = findClosestHit(
+      raycaster,
+      pointMesh.value,
+      pointIndexMap,
+      'slide-path-point',
+      filter
+    )
     if (pointHit) return pointHit
-    return findClosestHit(raycaster, segmentMesh.value, segmentIndexMap, 'slide-path-segment')
+    return findClosestHit(
+      raycaster,
+      segmentMesh.value,
+      segmentIndexMap,
+      'slide-path-segment',
+      filter
+    )
   }
 
   // 将 instanced mesh 的实例中心投影到屏幕坐标，用于框选/套索的 hit test
-  // 返回 false 表示实例在相机背面或投影失败
+  // 返回 false 表示实例在相机背面、被剖切掉或投影失败
   function projectInstanceCenter(
     mesh: InstancedMesh,
     instanceId: number,
@@ -355,6 +371,7 @@ export function useSlidePathRenderer() {
     mesh.getMatrixAt(instanceId, scratchMatrix)
     scratchWorldMatrix.multiplyMatrices(mesh.matrixWorld, scratchMatrix)
     scratchWorldPoint.set(0, 0, 0).applyMatrix4(scratchWorldMatrix)
+    if (isPointClipped(scratchWorldPoint)) return false
 
     camera.getWorldDirection(scratchCameraForward)
     scratchCameraDelta.subVectors(scratchWorldPoint, camera.position)
@@ -25,30 +25,37 @@ export function createGizmoAppearanceManager(
     const computeConstraints = () => {
       const scheme = editorStore.activeScheme
       if (!scheme || scheme.selectedItemIds.value.size === 0) {
-        return { canRotateX: true, canRotateY: true }
+        return { canRotateX: true, canRotateY: true, canScale: true }
       }
 
       let canRotateX = true
       let canRotateY = true
+      // 所有选中家具的缩放范围都锁定（min >= max）时不显示缩放手柄
+      let canScale = false
 
       for (const id of scheme.selectedItemIds.value) {
         const item = editorStore.itemsMap.get(id)
         if (!item) continue
 
         const furniture = gameDataStore.getFurniture(item.gameId)
-        if (!furniture) continue
+        if (!furniture) {
+          canScale = true
+          continue
+        }
 
         canRotateX &&= furniture.rotationAllowed.x
         canRotateY &&= furniture.rotationAllowed.y
+        canScale ||= furniture.scaleRange[0] < furniture.scaleRange[1]
       }
 
-      return { canRotateX, canRotateY }
+      return { canRotateX, canRotateY, canScale }
     }
 
     const updateGizmoAppearance = (controls: any) => {
       if (!controls) return
 
       const isRotate = editorStore.gizmoMode === 'rotate'
+      const isScale = editorStore.gizmoMode === 'scale'
       const isLimitEnabled = settingsStore.settings.enableLimitDetection
 
       if (isRotate && isLimitEnabled) {
@@ -56,6 +63,11 @@ export function createGizmoAppearanceManager(
         controls.showX = constraints.canRotateX
         controls.showY = constraints.canRotateY
         controls.showZ = true
+      } else if (isScale && isLimitEnabled) {
+        const { canScale } = computeConstraints()
+        controls.showX = canScale
+        controls.showY = canScale
+        controls.showZ = canScale
       } else {
         controls.showX = true
         controls.showY = true
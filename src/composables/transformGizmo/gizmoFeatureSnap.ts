@@ -0,0 +1,156 @@
+import { markRaw, shallowRef, type Ref } from 'vue'
+import { Matrix4, Raycaster, Vector2, Vector3, type Camera, type Object3D } from 'three'
+import type { useEditorStore } from '@/stores/editorStore'
+import type { useGameDataStore } from '@/stores/gameDataStore'
+import type { useSettingsStore } from '@/stores/settingsStore'
+import type { useUIStore } from '@/stores/uiStore'
+import { matrixTransform } from '@/lib/matrixTransform'
+import { findNearestItemFeature, type SnapFeature } from '@/lib/featureSnap'
+import { getThreeModelManager } from '@/composables/useThreeModelManager'
+import type { InteractionAdapter } from '@/composables/renderer/types'
+
+interface CreateGizmoFeatureSnapOptions {
+  editorStore: ReturnType<typeof useEditorStore>
+  gameDataStore: ReturnType<typeof useGameDataStore>
+  settingsStore: ReturnType<typeof useSettingsStore>
+  uiStore: ReturnType<typeof useUIStore>
+  pivotRef: Ref<Object3D | null>
+  activeCameraRef?: Ref<Camera | null>
+  interactionAdapter?: Ref<InteractionAdapter>
+  itemStartWorldMatrices: Ref<Map<string, Matrix4>>
+  resolveEnabledAxes: () => { x: boolean; y: boolean; z: boolean }
+  resolveGizmoWorldAxes: () => { x: Vector3; y: Vector3; z: Vector3 }
+  isFeatureSnapActive: () => boolean
+}
+
+/**
+ * 平移 Gizmo 的特征点吸附（按住快捷键时生效）
+ *
+ * 用光标下的其他物品求目标特征点（顶点 / 边中点 / 面中心），把选区的源点移动到目标上。
+ * 源点默认为 Gizmo 轴点，可通过「选取吸附源点」在选中物品上指定。
+ * 移动量只保留 Gizmo 当前活动轴上的分量，因此 world / local 空间下都沿手柄方向约束。
+ */
+export function createGizmoFeatureSnap({
+  editorStore,
+  gameDataStore,
+  settingsStore,
+  uiStore,
+  pivotRef,
+  activeCameraRef,
+  interactionAdapter,
+  itemStartWorldMatrices,
+  resolveEnabledAxes,
+  resolveGizmoWorldAxes,
+  isFeatureSnapActive,
+}: CreateGizmoFeatureSnapOptions) {
+  const raycaster = markRaw(new Raycaster())
+  const pointerNdc = markRaw(new Vector2())
+
+  // 当前吸附目标（世界坐标），供视图叠加层显示
+  const featureSnapTarget = shallowRef<SnapFeature | null>(null)
+
+  function clearFeatureSnap() {
+    if (featureSnapTarget.value) featureSnapTarget.value = null
+  }
+
+  function resolveCamera(): Camera | null {
+    return activeCameraRef?.value ?? null
+  }
+
+  function pickTarget(pointer: { clientX: number; clientY: number }): SnapFeature | null {
+    const camera = resolveCamera()
+    const rect = uiStore.editorContainerRect
+    const scheme = editorStore.activeScheme
+    if (!camera || !interactionAdapter || !scheme || !rect.width || !rect.height) return null
+
+    pointerNdc.x = ((pointer.clientX - rect.left) / rect.width) * 2 - 1
+    pointerNdc.y = -((pointer.clientY - rect.top) / rect.height) * 2 + 1
+    raycaster.setFromCamera(pointerNdc, camera)
+
+    // 跳过正在移动的物品
+    const selectedIds = scheme.selectedItemIds.value
+    const hit = interactionAdapter.value.pick(raycaster, (id) => !selectedIds.has(id))
+    const item = hit ? editorStore.itemsMap.get(hit.internalId) : undefined
+    if (!hit || !item) return null
+
+    const currentMode = settingsStore.settings.threeDisplayMode
+    return findNearestItemFeature(
+      item,
+      raycaster.ray.at(hit.distance, new Vector3()),
+      currentMode,
+      gameDataStore,
+      currentMode === 'model' ? getThreeModelManager() : null
+    )
+  }
+
+  // 源点的当前位置：指定源点随所在物品平移，否则使用 Gizmo 轴点
+  function resolveSourcePoint(newWorldMatrices: Map<string, Matrix4>): Vector3 | null {
+    const source = uiStore.featureSnapSource
+    const item = source ? editorStore.itemsMap.get(source.itemId) : undefined
+    const startMatrix = source ? itemStartWorldMatrices.value.get(source.itemId) : undefined
+    const currentMatrix = source ? newWorldMatrices.get(source.itemId) : undefined
+
+    if (source && item && startMatrix && currentMatrix) {
+      const { x, y, z } = source.localPoint
+      const point = new Vector3(x, y, z).applyMatrix4(
+        matrixTransform.buildWorldMatrixFromItem(item, false)
+      )
+      const startPosition = new Vector3().setFromMatrixPosition(startMatrix)
+      const currentPosition = new Vector3().setFromMatrixPosition(currentMatrix)
+      return point.add(currentPosition.sub(startPosition))
+    }
+
+    const pivot = pivotRef.value
+    if (!pivot) return null
+    pivot.updateMatrixWorld(true)
+    return new Vector3().setFromMatrixPosition(pivot.matrixWorld)
+  }
+
+  /**
+   * 应用特征点吸附
+   *
+   * @param pointer 当前指针的 client 坐标；缺省时沿用上一次的目标（如 mouseUp 提交）
+   * @returns 吸附后的矩阵；未生效时返回 null，由调用方继续走普通吸附
+   */
+  function applyFeatureSnap(
+    newWorldMatrices: Map<string, Matrix4>,
+    pointer?: { clientX: number; clientY: number } | null
+  ): Map<string, Matrix4> | null {
+    if (editorStore.gizmoMode !== 'translate' || !isFeatureSnapActive()) {
+      clearFeatureSnap()
+      return null
+    }
+
+    if (pointer) featureSnapTarget.value = pickTarget(pointer)
+
+    const target = featureSnapTarget.value
+    const source = resolveSourcePoint(newWorldMatrices)
+    if (!target || !source) return null
+
+    const delta = target.point.clone().sub(source)
+    const enabledAxes = resolveEnabledAxes()
+    if (!enabledAxes.x || !enabledAxes.y || !enabledAxes.z) {
+      const gizmoWorldAxes = resolveGizmoWorldAxes()
+      const constrained = new Vector3()
+      for (const axis of ['x', 'y', 'z'] as const) {
+        if (!enabledAxes[axis]) continue
+        constrained.addScaledVector(gizmoWorldAxes[axis], delta.dot(gizmoWorldAxes[axis]))
+      }
+      delta.copy(constrained)
+    }
+
+    const snappedMatrices = new Map<string, Matrix4>()
+    for (const [id, matrix] of newWorldMatrices) {
+      const snapped = matrix.clone()
+      snapped.setPosition(new Vector3().setFromMatrixPosition(matrix).add(delta))
+      snappedMatrices.set(id, snapped)
+    }
+    return snappedMatrices
+  }
+
+  return {
+    featureSnapTarget,
+    applyFeatureSnap,
+    clearFeatureSnap,
+  }
+}
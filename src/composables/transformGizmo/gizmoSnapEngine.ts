@@ -1,4 +1,4 @@
-import { ref, type Ref } from 'vue'
+import { ref, shallowRef, type Ref } from 'vue'
 import { Box3Helper, Color, Euler, Matrix4, Vector3, type Object3D } from 'three'
 import type { useEditorStore } from '@/stores/editorStore'
 import type { useGameDataStore } from '@/stores/gameDataStore'
@@ -17,6 +17,14 @@ import {
   buildDisplayWorldMatrixFromItem,
   resolveDisplayGeometryInfo,
 } from '@/lib/scaleRenderCompensation'
+import { computeAlignmentSnap, type AlignmentGuide } from '@/lib/alignmentGuides'
+import {
+  calculateMeshContactDistance,
+  createMeshContactBody,
+  getMeshContactShape,
+  type MeshContactBody,
+  type MeshContactShape,
+} from '@/lib/meshSnap'
 import { getThreeModelManager } from '@/composables/useThreeModelManager'
 
 interface StaticCollisionData {
@@ -24,12 +32,15 @@ interface StaticCollisionData {
   corners: Vector3[]
   center: Vector3
   radius: number
+  // 精确吸附使用的模型网格；模型未加载或未开启精确吸附时为 null（回退到 OBB）
+  meshBody: MeshContactBody | null
 }
 
 interface SelectedItemOBBInfo {
   id: string
   localSize: Vector3
   localCenter: Vector3
+  meshShape: MeshContactShape | null
 }
 
 interface CreateGizmoSnapEngineOptions {
@@ -38,12 +49,15 @@ interface CreateGizmoSnapEngineOptions {
   settingsStore: ReturnType<typeof useSettingsStore>
   pivotRef: Ref<Object3D | null>
   transformRef?: Ref<any | null>
+  itemStartWorldMatrices: Ref<Map<string, Matrix4>>
   getEffectiveGizmoRotation: () => { x: number; y: number; z: number }
   isSnapTemporarilyDisabled: () => boolean
 }
 
 const DEFAULT_FURNITURE_SIZE: [number, number, number] = [100, 100, 150]
 const DEBUG_SHOW_BOUNDING_BOXES = false
+// 对齐参考线的搜索范围（在两者包围球半径之外额外的距离）
+const ALIGNMENT_GUIDE_SEARCH_RANGE = 1000
 
 export function createGizmoSnapEngine({
   editorStore,
@@ -51,11 +65,14 @@ export function createGizmoSnapEngine({
   settingsStore,
   pivotRef,
   transformRef,
+  itemStartWorldMatrices,
   getEffectiveGizmoRotation,
   isSnapTemporarilyDisabled,
 }: CreateGizmoSnapEngineOptions) {
   const staticWorldMatrices = ref(new Map<string, StaticCollisionData>())
   const selectedItemsOBBInfo = ref<SelectedItemOBBInfo[]>([])
+  // 当前帧的对齐参考线（世界坐标）
+  const alignmentGuides = shallowRef<AlignmentGuide[]>([])
   const debugHelpers: (Box3Helper | OBBHelper)[] = []
 
   function clearDebugHelpers() {
@@ -71,9 +88,14 @@ export function createGizmoSnapEngine({
     debugHelpers.length = 0
   }
 
+  function clearAlignmentGuides() {
+    if (alignmentGuides.value.length > 0) alignmentGuides.value = []
+  }
+
   function clearCollisionData() {
     staticWorldMatrices.value = new Map()
     selectedItemsOBBInfo.value = []
+    clearAlignmentGuides()
     clearDebugHelpers()
   }
 
@@ -116,12 +138,34 @@ export function createGizmoSnapEngine({
     return gizmoWorldAxes
   }
 
+  // 拖拽起点到当前位置的位移（所有选中物品平移量一致，取任一物品即可）
+  function resolveDragDelta(newWorldMatrices: Map<string, Matrix4>): Vector3 {
+    for (const [id, matrix] of newWorldMatrices) {
+      const startMatrix = itemStartWorldMatrices.value.get(id)
+      if (!startMatrix) continue
+      return new Vector3()
+        .setFromMatrixPosition(matrix)
+        .sub(new Vector3().setFromMatrixPosition(startMatrix))
+    }
+    return new Vector3()
+  }
+
   function prepareCollisionData(scheme: any) {
     if (!scheme) return
 
     const selectedIds = scheme.selectedItemIds.value as Set<string>
     const currentMode = settingsStore.settings.threeDisplayMode
     const modelManager = getThreeModelManager()
+    // 精确吸附只在模型显示模式下生效（其他模式下物品本身就是盒子）
+    const usePreciseSnap =
+      settingsStore.settings.enableSurfaceSnap &&
+      settingsStore.settings.enablePreciseSurfaceSnap &&
+      currentMode === 'model'
+
+    const resolveMeshShape = (gameId: number) => {
+      const geometry = usePreciseSnap ? modelManager.getModelGeometry(gameId) : null
+      return geometry ? getMeshContactShape(geometry) : null
+    }
 
     const obbInfoList: SelectedItemOBBInfo[] = []
     for (const id of selectedIds) {
@@ -130,6 +174,7 @@ export function createGizmoSnapEngine({
 
       let localSize: Vector3
       let localCenter: Vector3
+      let meshShape: MeshContactShape | null = null
 
       if (currentMode === 'model') {
         const modelBox = modelManager.getModelBoundingBox(item.gameId)
@@ -138,6 +183,7 @@ export function createGizmoSnapEngine({
           modelBox.getSize(localSize)
           localCenter = new Vector3()
           modelBox.getCenter(localCenter)
+          meshShape = resolveMeshShape(item.gameId)
         } else {
           const size = gameDataStore.getFurnitureSize(item.gameId) ?? DEFAULT_FURNITURE_SIZE
           localSize = new Vector3(...size)
@@ -151,11 +197,15 @@ export function createGizmoSnapEngine({
         localCenter = new Vector3()
       }
 
-      obbInfoList.push({ id, localSize, localCenter })
+      obbInfoList.push({ id, localSize, localCenter, meshShape })
     }
     selectedItemsOBBInfo.value = obbInfoList
 
-    if (!settingsStore.settings.enableSurfaceSnap) {
+    // 表面吸附和对齐参考线共用静态物品的 OBB
+    if (
+      !settingsStore.settings.enableSurfaceSnap &&
+      !settingsStore.settings.enableAlignmentGuides
+    ) {
       staticWorldMatrices.value = new Map()
       return
     }
@@ -184,12 +234,14 @@ export function createGizmoSnapEngine({
 
       const corners = obb.getCorners()
       const radius = obb.halfExtents.length()
+      const meshShape = useModelScale && modelBox ? resolveMeshShape(item.gameId) : null
 
       staticMatrices.set(item.internalId, {
         obb,
         corners,
         center: obb.center.clone(),
         radius,
+        meshBody: meshShape ? createMeshContactBody(meshShape, matrix) : null,
       })
     }
 
@@ -197,27 +249,36 @@ export function createGizmoSnapEngine({
   }
 
   function applyCollisionSnap(newWorldMatrices: Map<string, Matrix4>): Map<string, Matrix4> {
-    if (!settingsStore.settings.enableSurfaceSnap || isSnapTemporarilyDisabled()) {
+    const { enableSurfaceSnap, enableAlignmentGuides } = settingsStore.settings
+    if ((!enableSurfaceSnap && !enableAlignmentGuides) || isSnapTemporarilyDisabled()) {
+      clearAlignmentGuides()
       return newWorldMatrices
     }
 
     if (editorStore.gizmoMode !== 'translate') {
+      clearAlignmentGuides()
       return newWorldMatrices
     }
 
     const enabledAxes = resolveEnabledAxes()
     if (!enabledAxes.x && !enabledAxes.y && !enabledAxes.z) {
       console.log('[Snap] 未检测到活动轴，跳过吸附')
+      clearAlignmentGuides()
       return newWorldMatrices
     }
 
     const scheme = editorStore.activeScheme
-    if (!scheme) return newWorldMatrices
+    if (!scheme) {
+      clearAlignmentGuides()
+      return newWorldMatrices
+    }
 
     const gizmoWorldAxes = resolveGizmoWorldAxes()
     const currentMode = settingsStore.settings.threeDisplayMode
     const modelManager = currentMode === 'model' ? getThreeModelManager() : null
     const selectedOBBs: OBB[] = []
+    // 所有选中物品都有模型网格时才走精确吸附
+    let movingBodies: MeshContactBody[] | null = []
 
     for (const obbInfo of selectedItemsOBBInfo.value) {
       const matrix = newWorldMatrices.get(obbInfo.id)
@@ -239,9 +300,18 @@ export function createGizmoSnapEngine({
       })
       const obb = transformOBBByMatrix(displayMatrix, obbInfo.localSize, obbInfo.localCenter)
       selectedOBBs.push(obb)
+
+      if (movingBodies && obbInfo.meshShape) {
+        movingBodies.push(createMeshContactBody(obbInfo.meshShape, displayMatrix))
+      } else {
+        movingBodies = null
+      }
     }
 
-    if (selectedOBBs.length === 0) return newWorldMatrices
+    if (selectedOBBs.length === 0) {
+      clearAlignmentGuides()
+      return newWorldMatrices
+    }
 
     let selectionOBB: OBB
     if (selectedOBBs.length === 1) {
@@ -276,12 +346,38 @@ export function createGizmoSnapEngine({
     }
     const snapThreshold = settingsStore.settings.surfaceSnapThreshold
 
+    // 每个轴保留距离最近的吸附
+    const updateAxisSnap = (axis: 'x' | 'y' | 'z', projection: number) => {
+      const distance = Math.abs(projection)
+      if (distance <= 0.1 || distance >= snapByAxis[axis].distance) return
+      snapByAxis[axis].vector = gizmoWorldAxes[axis].clone().multiplyScalar(projection)
+      snapByAxis[axis].distance = distance
+    }
+
     const selectionCenter = selectionOBB.center
     const selectionRadius = selectionOBB.halfExtents.length()
     const selectionCornersPool: Vector3[] = Array.from({ length: 8 }, () => new Vector3())
     const selectionCorners = selectionOBB.getCorners(selectionCornersPool)
 
-    for (const data of staticWorldMatrices.value.values()) {
+    // 精确吸附只沿拖拽方向检测：每个活动轴取当前位移的符号，位移为 0 的轴不检测
+    const dragDelta = movingBodies ? resolveDragDelta(newWorldMatrices) : null
+    const contactDirections: Array<{ axis: 'x' | 'y' | 'z'; sign: number; direction: Vector3 }> = []
+    if (dragDelta) {
+      for (const axis of ['x', 'y', 'z'] as const) {
+        if (!enabledAxes[axis]) continue
+        const sign = Math.sign(dragDelta.dot(gizmoWorldAxes[axis]))
+        if (sign === 0) continue
+        contactDirections.push({
+          axis,
+          sign,
+          direction: gizmoWorldAxes[axis].clone().multiplyScalar(sign),
+        })
+      }
+    }
+
+    // 仅开启表面吸附时参与碰撞吸附
+    const collisionCandidates = enableSurfaceSnap ? [...staticWorldMatrices.value.values()] : []
+    for (const data of collisionCandidates) {
       const dynamicCullRadius = selectionRadius + data.radius + snapThreshold
       const distanceToCandidate = selectionCenter.distanceTo(data.center)
 
@@ -289,6 +385,28 @@ export function createGizmoSnapEngine({
         continue
       }
 
+      // 精确吸附：沿拖拽方向求网格接触距离
+      const targetBody = data.meshBody
+      if (movingBodies && targetBody) {
+        const { center, radius } = targetBody.worldSphere
+        for (const body of movingBodies) {
+          // 包围球相距超过阈值的移动物体不可能在本次检测内接触
+          const reach = body.worldSphere.radius + radius + snapThreshold
+          if (body.worldSphere.center.distanceToSquared(center) > reach * reach) continue
+
+          for (const { axis, sign, direction } of contactDirections) {
+            const distance = calculateMeshContactDistance(
+              body,
+              targetBody,
+              direction,
+              snapThreshold
+            )
+            if (distance !== null) updateAxisSnap(axis, sign * distance)
+          }
+        }
+        continue
+      }
+
       const snapVector = calculateOBBSnapVector(
         selectionOBB,
         data.obb,
@@ -299,38 +417,9 @@ export function createGizmoSnapEngine({
       )
       if (!snapVector) continue
 
-      if (enabledAxes.x) {
-        const projX = snapVector.dot(gizmoWorldAxes.x)
-        if (Math.abs(projX) > 0.1) {
-          const distX = Math.abs(projX)
-          if (distX < snapByAxis.x.distance) {
-            snapByAxis.x.vector = gizmoWorldAxes.x.clone().multiplyScalar(projX)
-            snapByAxis.x.distance = distX
-          }
-        }
-      }
-
-      if (enabledAxes.y) {
-        const projY = snapVector.dot(gizmoWorldAxes.y)
-        if (Math.abs(projY) > 0.1) {
-          const distY = Math.abs(projY)
-          if (distY < snapByAxis.y.distance) {
-            snapByAxis.y.vector = gizmoWorldAxes.y.clone().multiplyScalar(projY)
-            snapByAxis.y.distance = distY
-          }
-        }
-      }
-
-      if (enabledAxes.z) {
-        const projZ = snapVector.dot(gizmoWorldAxes.z)
-        if (Math.abs(projZ) > 0.1) {
-          const distZ = Math.abs(projZ)
-          if (distZ < snapByAxis.z.distance) {
-            snapByAxis.z.vector = gizmoWorldAxes.z.clone().multiplyScalar(projZ)
-            snapByAxis.z.distance = distZ
-          }
-        }
-      }
+      if (enabledAxes.x) updateAxisSnap('x', snapVector.dot(gizmoWorldAxes.x))
+      if (enabledAxes.y) updateAxisSnap('y', snapVector.dot(gizmoWorldAxes.y))
+      if (enabledAxes.z) updateAxisSnap('z', snapVector.dot(gizmoWorldAxes.z))
     }
 
     const finalSnapOffset = new Vector3()
@@ -338,6 +427,30 @@ export function createGizmoSnapEngine({
     if (snapByAxis.y.vector) finalSnapOffset.add(snapByAxis.y.vector)
     if (snapByAxis.z.vector) finalSnapOffset.add(snapByAxis.z.vector)
 
+    // 对齐参考线：碰撞吸附已生效的轴不再做对齐吸附，只显示参考线
+    if (enableAlignmentGuides) {
+      const guideRange = selectionRadius + ALIGNMENT_GUIDE_SEARCH_RANGE
+      const candidates = [...staticWorldMatrices.value.values()].filter(
+        (data) => selectionCenter.distanceTo(data.center) <= guideRange + data.radius
+      )
+      const alignment = computeAlignmentSnap(
+        selectionCorners.map((corner) => corner.clone().add(finalSnapOffset)),
+        candidates,
+        gizmoWorldAxes,
+        {
+          x: enabledAxes.x && !snapByAxis.x.vector,
+          y: enabledAxes.y && !snapByAxis.y.vector,
+          z: enabledAxes.z && !snapByAxis.z.vector,
+        },
+        enabledAxes,
+        snapThreshold
+      )
+      finalSnapOffset.add(alignment.offset)
+      alignmentGuides.value = alignment.guides
+    } else {
+      clearAlignmentGuides()
+    }
+
     if (finalSnapOffset.length() <= 0.1) {
       return newWorldMatrices
     }
@@ -358,5 +471,9 @@ export function createGizmoSnapEngine({
     prepareCollisionData,
     clearCollisionData,
     applyCollisionSnap,
+    clearAlignmentGuides,
+    resolveEnabledAxes,
+    resolveGizmoWorldAxes,
+    alignmentGuides,
   }
 }
@@ -4,10 +4,18 @@ import { useEditorStore } from '../stores/editorStore'
 import { useUIStore } from '../stores/uiStore'
 import { useEditorHistory } from './editor/useEditorHistory'
 import { applyTransformToItems } from '../lib/itemTransform'
+import { rotateItemsInWorkingCoordinate } from '../lib/rotationTransform'
+import { getWorkingFrameRotation } from '../lib/coordinateTransform'
+import { getItemsSizeInFrame, getItemsWorldBoundsMetrics } from '../lib/spatialBounds'
+import { samplePolylineByArcLength, type PathSample } from '../lib/pathDistribution'
+import { MAX_GROUP_SIZE } from '../lib/validationRules'
 import type {
   AppItem,
   AdvancedPasteOptions,
   ClipboardData,
+  GridRepeatConfig,
+  PathRepeatConfig,
+  RadialRepeatConfig,
   StepRepeatConfig,
   TransformParams,
 } from '../types/editor'
@@ -196,6 +204,64 @@ function getClipboardEffectiveWorkingRotation(
   return uiStore.getEffectiveCoordinateRotation(itemIds, itemsMap) || { x: 0, y: 0, z: 0 }
 }
 
+/**
+ * 环形阵列相邻两份之间的角度。
+ * 按总角度分布时，整圈（360° 的倍数）要把原件也算一份平均分，避免最后一份和原件重叠。
+ */
+function getRadialAngleStep(config: RadialRepeatConfig): number {
+  if (config.angleMode === 'step') {
+    return config.angle
+  }
+
+  const isFullCircle = config.angle !== 0 && config.angle % 360 === 0
+  return config.angle / (isFullCircle ? config.repeatCount + 1 : config.repeatCount)
+}
+
+/** 网格阵列的一格：各轴上的序号，(0, 0, 0) 是原件所在的格子。 */
+interface GridCell {
+  x: number
+  y: number
+  z: number
+}
+
+/** 按「层 → 行 → 列」的顺序列出除原件外的所有格子。 */
+function getGridCells(counts: GridRepeatConfig['counts']): GridCell[] {
+  const cells: GridCell[] = []
+  for (let z = 0; z < counts.z; z++) {
+    for (let y = 0; y < counts.y; y++) {
+      for (let x = 0; x < counts.x; x++) {
+        if (x === 0 && y === 0 && z === 0) continue
+        cells.push({ x, y, z })
+      }
+    }
+  }
+  return cells
+}
+
+/**
+ * 把若干份副本打包成组合：同一单元（一份或一行）里的副本按顺序装进组合，装满上限就另开一个。
+ * 单份就超过上限的副本没法整体成组，保留它自己原本的组合。
+ */
+function packGridGroups(units: string[][][]): string[][] {
+  const chunks: string[][] = []
+
+  for (const copies of units) {
+    let current: string[] = []
+    for (const copyIds of copies) {
+      if (copyIds.length > MAX_GROUP_SIZE) continue
+      if (current.length + copyIds.length > MAX_GROUP_SIZE) {
+        chunks.push(current)
+        current = []
+      }
+      current.push(...copyIds)
+    }
+    chunks.push(current)
+  }
+
+  // 单件物品不必成组
+  return chunks.filter((chunk) => chunk.length > 1)
+}
+
 type InsertIdMode = 'regenerate' | 'preserve-source'
 
 /** insertClipboardData 的选项：是否记入撤销、是否刷新选中、是否通知场景重绘等。 */
@@ -504,6 +570,202 @@ export function useClipboard() {
     return nextData
   }
 
+  /**
+   * 环形阵列的第 stepIndex 份：每份都从原始剪贴板直接算出（不逐份累加），避免误差越转越大。
+   * 绕中心旋转沿用编辑器的工作坐标系旋转；不朝向中心时只移动位置，朝向保持原样。
+   */
+  function transformClipboardDataRadial(
+    clipboardData: ClipboardData,
+    config: RadialRepeatConfig,
+    center: { x: number; y: number; z: number },
+    stepIndex: number
+  ): ClipboardData {
+    const nextData = cloneClipboardData(clipboardData)
+    const workingRotation = config.alignToWorking
+      ? uiStore.workingCoordinateSystem.rotation
+      : { x: 0, y: 0, z: 0 }
+    const angle = getRadialAngleStep(config) * stepIndex
+
+    const rotatedItems = rotateItemsInWorkingCoordinate(
+      nextData.items,
+      { [config.axis]: angle },
+      center,
+      workingRotation,
+      false
+    )
+
+    const rise = { x: 0, y: 0, z: 0, [config.axis]: config.heightStep * stepIndex }
+    const riseData = config.alignToWorking ? uiStore.workingDeltaToData(rise) : rise
+    const sourceRotations = new Map(nextData.items.map((item) => [item.internalId, item.rotation]))
+
+    nextData.items = rotatedItems.map((item) => ({
+      ...item,
+      x: item.x + riseData.x,
+      y: item.y + riseData.y,
+      z: item.z + riseData.z,
+      rotation: config.faceCenter
+        ? item.rotation
+        : { ...(sourceRotations.get(item.internalId) ?? item.rotation) },
+    }))
+
+    return nextData
+  }
+
+  /**
+   * 沿路径分布的一份：先绕剪贴板中心按切线方向转向（可选），再把中心移到采样点。
+   * 高度只跟随路径相对起点的起伏，平地上画的路径不会把物品压到地面以下。
+   */
+  function transformClipboardDataAlongPath(
+    clipboardData: ClipboardData,
+    config: PathRepeatConfig,
+    pivot: { x: number; y: number; z: number },
+    sample: PathSample,
+    startZ: number
+  ): ClipboardData {
+    const nextData = cloneClipboardData(clipboardData)
+
+    // 数据空间的朝角：与侧栏 Z 旋转同向
+    const heading = (Math.atan2(sample.tangent.y, sample.tangent.x) * 180) / Math.PI
+    const rotatedItems = config.alignToPath
+      ? rotateItemsInWorkingCoordinate(
+          nextData.items,
+          { z: heading },
+          pivot,
+          { x: 0, y: 0, z: 0 },
+          false
+        )
+      : nextData.items
+
+    const offset = {
+      x: sample.position.x - pivot.x,
+      y: sample.position.y - pivot.y,
+      z: sample.position.z - startZ,
+    }
+    nextData.items = rotatedItems.map((item) => ({
+      ...item,
+      x: item.x + offset.x,
+      y: item.y + offset.y,
+      z: item.z + offset.z,
+    }))
+
+    return nextData
+  }
+
+  /**
+   * 把多份剪贴板副本依次插入，合成一笔撤销，最后选中所有新物品。
+   * buildCopy 返回第 index 份（从 1 开始）要插入的剪贴板数据；
+   * afterInsert 拿到每一份的新 internalId，可在同一笔撤销里做后续调整（如重新分组）。
+   */
+  function insertRepeatedCopies(
+    historyLabel: string,
+    repeatCount: number,
+    buildCopy: (index: number) => ClipboardData,
+    afterInsert?: (copies: string[][]) => void
+  ): string[] {
+    return recordTransaction(historyLabel, () => {
+      const copies: string[][] = []
+
+      for (let index = 1; index <= repeatCount; index++) {
+        // 每一轮单独插入但不各占撤销栈一层；最后整段算一次操作
+        const result = insertClipboardData(buildCopy(index), {
+          idMode: 'regenerate',
+          recordHistory: false,
+          updateSelection: false,
+          triggerUpdates: false,
+        })
+        copies.push(result.newIds)
+      }
+
+      afterInsert?.(copies)
+
+      const createdIds = copies.flat()
+      if (createdIds.length > 0) {
+        selectInsertedItems(createdIds)
+        triggerRef(activeScheme.value!.groupOrigins)
+        store.triggerSceneUpdate()
+        store.triggerSelectionUpdate()
+      }
+
+      return createdIds
+    })
+  }
+
+  /**
+   * 网格阵列相邻两格的间距（按 UI 轴向；对齐工作坐标系时插入前再换算到数据空间）。
+   * 自动间距时取剪贴板内容的世界包围盒尺寸，再加上用户填写的额外间隙。
+   */
+  function getGridSpacing(
+    clipboardData: ClipboardData,
+    config: GridRepeatConfig
+  ): { x: number; y: number; z: number } {
+    if (!config.autoSpacing) {
+      return { ...config.spacing }
+    }
+
+    // 包围盒尺寸与 Y 轴翻转无关，世界空间的大小可以直接当作数据空间的间距；
+    // 对齐工作坐标系时间距沿工作轴施加，尺寸也要沿工作轴测量
+    const working = uiStore.workingCoordinateSystem
+    const size =
+      config.alignToWorking && working.enabled
+        ? getItemsSizeInFrame(clipboardData.items, getWorkingFrameRotation(working.rotation))
+        : getItemsWorldBoundsMetrics(clipboardData.items)?.size
+    return {
+      x: (size?.x ?? 0) + config.spacing.x,
+      y: (size?.y ?? 0) + config.spacing.y,
+      z: (size?.z ?? 0) + config.spacing.z,
+    }
+  }
+
+  /**
+   * 把网格阵列的副本重新分组：每份一个组合，或每行（同一 Y/Z 序号）一个组合。
+   * 插入时按剪贴板重新生成的旧组合被整体替换，对应的组原点一并去掉。
+   */
+  function regroupGridCopies(
+    cells: GridCell[],
+    copies: string[][],
+    grouping: GridRepeatConfig['grouping']
+  ) {
+    const scheme = activeScheme.value
+    if (!scheme) return
+
+    const units: string[][][] = []
+    if (grouping === 'copy') {
+      copies.forEach((copyIds) => units.push([copyIds]))
+    } else {
+      const rows = new Map<string, string[][]>()
+      cells.forEach((cell, index) => {
+        const copyIds = copies[index]
+        if (!copyIds) return
+        const key = `${cell.y}:${cell.z}`
+        const row = rows.get(key)
+        if (row) row.push(copyIds)
+        else rows.set(key, [copyIds])
+      })
+      rows.forEach((row) => units.push(row))
+    }
+
+    const nextGroupIds = new Map<string, number>()
+    let maxGroupId = scheme.maxGroupId.value
+    for (const chunk of packGridGroups(units)) {
+      const groupId = ++maxGroupId
+      chunk.forEach((id) => nextGroupIds.set(id, groupId))
+    }
+    if (nextGroupIds.size === 0) return
+
+    const replacedGroupIds = new Set<number>()
+    scheme.items.value = scheme.items.value.map((item) => {
+      const groupId = nextGroupIds.get(item.internalId)
+      if (groupId === undefined) return item
+      if (item.groupId > 0) replacedGroupIds.add(item.groupId)
+      return { ...item, groupId }
+    })
+
+    const nextOrigins = new Map(scheme.groupOrigins.value)
+    replacedGroupIds.forEach((groupId) => nextOrigins.delete(groupId))
+    scheme.groupOrigins.value = nextOrigins
+    scheme.maxGroupId.value = maxGroupId
+  }
+
   /** 在数据坐标下平移 dx、dy 后插入（Z 不改）；返回新物品的 internalId 列表。 */
   function pasteItems(clipboardData: ClipboardData, offsetX: number, offsetY: number): string[] {
     return insertClipboardData(clipboardData, {
@@ -549,6 +811,9 @@ export function useClipboard() {
    * 两种用途：
    * 1）preserveIds — 从别的方案拷来时保留存档里的 ID；同方案内不能用来「自己贴自己」。
    * 2）stepRepeat — 按设定多次「变一点再贴一份」，多轮插入合成一笔撤销。
+   * 3）radialRepeat — 绕中心轴环形阵列（可带每份升高做成螺旋），同样合成一笔撤销。
+   * 4）gridRepeat — 按行 × 列 × 层铺满网格，并按份或按行重新分组。
+   * 5）pathRepeat — 沿折线等弧长放置副本，可选随切线转向。
    */
   function advancedPaste(options: AdvancedPasteOptions): string[] {
     if (!activeScheme.value || clipboard.value.items.length === 0) {
@@ -566,36 +831,78 @@ export function useClipboard() {
       }).newIds
     }
 
-    if (options.stepRepeat.repeatCount <= 0) {
-      return []
-    }
+    if (options.mode === 'radialRepeat') {
+      const { radialRepeat } = options
+      if (radialRepeat.repeatCount <= 0) {
+        return []
+      }
 
-    return recordTransaction('clipboard.step_repeat', () => {
-      const { stepRepeat } = options
-      const createdIds: string[] = []
-      const pivot = getClipboardPivot(clipboard.value)
-      let currentClipboardData = cloneClipboardData(clipboard.value)
+      const source = clipboard.value
+      const center = radialRepeat.center ?? getClipboardPivot(source)
+      return insertRepeatedCopies('clipboard.radial_repeat', radialRepeat.repeatCount, (index) =>
+        transformClipboardDataRadial(source, radialRepeat, center, index)
+      )
+    }
 
-      for (let index = 0; index < stepRepeat.repeatCount; index++) {
-        currentClipboardData = transformClipboardDataStep(currentClipboardData, stepRepeat, pivot)
-        // 每一轮单独插入但不各占撤销栈一层；最后整段 step_repeat 算一次操作
-        const result = insertClipboardData(currentClipboardData, {
-          idMode: 'regenerate',
-          recordHistory: false,
-          updateSelection: false,
-          triggerUpdates: false,
-        })
-        createdIds.push(...result.newIds)
+    if (options.mode === 'gridRepeat') {
+      const { gridRepeat } = options
+      const cells = getGridCells(gridRepeat.counts)
+      if (cells.length === 0) {
+        return []
       }
 
-      if (createdIds.length > 0) {
-        selectInsertedItems(createdIds)
-        triggerRef(activeScheme.value!.groupOrigins)
-        store.triggerSceneUpdate()
-        store.triggerSelectionUpdate()
+      const source = clipboard.value
+      const spacing = getGridSpacing(source, gridRepeat)
+      return insertRepeatedCopies(
+        'clipboard.grid_repeat',
+        cells.length,
+        (index) => {
+          const cell = cells[index - 1]!
+          const delta = {
+            x: spacing.x * cell.x,
+            y: spacing.y * cell.y,
+            z: spacing.z * cell.z,
+          }
+          const offset = gridRepeat.alignToWorking ? uiStore.workingDeltaToData(delta) : delta
+          return {
+            ...source,
+            items: source.items.map((item) => ({
+              ...item,
+              x: item.x + offset.x,
+              y: item.y + offset.y,
+              z: item.z + offset.z,
+            })),
+          }
+        },
+        (copies) => regroupGridCopies(cells, copies, gridRepeat.grouping)
+      )
+    }
+
+    if (options.mode === 'pathRepeat') {
+      const { pathRepeat } = options
+      const samples = samplePolylineByArcLength(pathRepeat.points, pathRepeat.count)
+      const startZ = pathRepeat.points[0]?.z ?? 0
+      if (samples.length === 0 || pathRepeat.points.length < 2) {
+        return []
       }
 
-      return createdIds
+      const source = clipboard.value
+      const pivot = getClipboardPivot(source)
+      return insertRepeatedCopies('clipboard.path_repeat', samples.length, (index) =>
+        transformClipboardDataAlongPath(source, pathRepeat, pivot, samples[index - 1]!, startZ)
+      )
+    }
+
+    const { stepRepeat } = options
+    if (stepRepeat.repeatCount <= 0) {
+      return []
+    }
+
+    const pivot = getClipboardPivot(clipboard.value)
+    let currentClipboardData = cloneClipboardData(clipboard.value)
+    return insertRepeatedCopies('clipboard.step_repeat', stepRepeat.repeatCount, () => {
+      currentClipboardData = transformClipboardDataStep(currentClipboardData, stepRepeat, pivot)
+      return currentClipboardData
     })
   }
 
@@ -631,5 +938,6 @@ export function useClipboard() {
     copyToClipboard,
     cutToClipboard,
     buildClipboardDataFromSelection,
+    insertClipboardData,
   }
 }
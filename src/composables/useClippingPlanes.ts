@@ -0,0 +1,126 @@
+import { computed } from 'vue'
+import { useEditorStore } from '@/stores/editorStore'
+import { useUIStore } from '@/stores/uiStore'
+import { convertPositionWorkingToGlobal } from '@/lib/coordinateTransform'
+import { getItemsWorldBoundsMetrics } from '@/lib/spatialBounds'
+import { MAX_CLIPPING_PLANES } from '@/composables/renderer/shared/clipping'
+import type { ClippingPlaneConfig } from '@/types/editor'
+
+type ClippingAxis = ClippingPlaneConfig['axis']
+
+const AXIS_VECTORS: Record<ClippingAxis, { x: number; y: number; z: number }> = {
+  x: { x: 1, y: 0, z: 0 },
+  y: { x: 0, y: 1, z: 0 },
+  z: { x: 0, y: 0, z: 1 },
+}
+
+/**
+ * 剖切平面管理
+ *
+ * 平面定义保存在 uiStore（世界空间，不随方案保存），
+ * 由 useThreeClippingPlanes 同步到材质并提供拖拽 Gizmo。
+ */
+export function useClippingPlanes() {
+  const editorStore = useEditorStore()
+  const uiStore = useUIStore()
+
+  const clippingPlanes = computed(() => uiStore.clippingPlanes)
+  const activeClippingPlane = computed(
+    () => uiStore.clippingPlanes.find((plane) => plane.id === uiStore.activeClippingPlaneId) ?? null
+  )
+  const canAddClippingPlane = computed(() => uiStore.clippingPlanes.length < MAX_CLIPPING_PLANES)
+
+  // 新平面默认经过选区中心，没有选区时经过场景中心
+  function getDefaultOrigin(): { x: number; y: number; z: number } {
+    const scheme = editorStore.activeScheme
+    const selectedIds = scheme?.selectedItemIds.value
+    const items =
+      selectedIds && selectedIds.size > 0
+        ? editorStore.visibleItems.filter((item) => selectedIds.has(item.internalId))
+        : editorStore.visibleItems
+
+    const metrics = getItemsWorldBoundsMetrics(items)
+    if (!metrics) return { x: 0, y: 0, z: 0 }
+    return { x: metrics.center.x, y: metrics.center.y, z: metrics.center.z }
+  }
+
+  /**
+   * 新建剖切平面
+   *
+   * 默认剖掉轴正方向一侧（法线指向负方向）；启用工作坐标系时沿工作坐标系的轴
+   * @returns 新平面；已达到数量上限时返回 null
+   */
+  function addClippingPlane(axis: ClippingAxis): ClippingPlaneConfig | null {
+    if (!canAddClippingPlane.value) return null
+
+    const base = AXIS_VECTORS[axis]
+    const negated = { x: -base.x, y: -base.y, z: -base.z }
+    const working = uiStore.workingCoordinateSystem
+    const normal = working.enabled
+      ? convertPositionWorkingToGlobal(negated, working.rotation)
+      : negated
+
+    const plane: ClippingPlaneConfig = {
+      id: crypto.randomUUID(),
+      axis,
+      alignedToWorking: working.enabled,
+      normal,
+      origin: getDefaultOrigin(),
+      enabled: true,
+    }
+    uiStore.clippingPlanes = [...uiStore.clippingPlanes, plane]
+    uiStore.activeClippingPlaneId = plane.id
+    return plane
+  }
+
+  function updateClippingPlane(id: string, patch: Partial<Omit<ClippingPlaneConfig, 'id'>>) {
+    uiStore.clippingPlanes = uiStore.clippingPlanes.map((plane) =>
+      plane.id === id ? { ...plane, ...patch } : plane
+    )
+  }
+
+  // 翻转保留的一侧
+  function flipClippingPlane(id: string) {
+    const plane = uiStore.clippingPlanes.find((current) => current.id === id)
+    if (!plane) return
+    updateClippingPlane(id, {
+      normal: { x: -plane.normal.x, y: -plane.normal.y, z: -plane.normal.z },
+    })
+  }
+
+  function toggleClippingPlane(id: string) {
+    const plane = uiStore.clippingPlanes.find((current) => current.id === id)
+    if (!plane) return
+    updateClippingPlane(id, { enabled: !plane.enabled })
+  }
+
+  function setActiveClippingPlane(id: string | null) {
+    uiStore.activeClippingPlaneId = id
+  }
+
+  function removeClippingPlane(id: string) {
+    const next = uiStore.clippingPlanes.filter((plane) => plane.id !== id)
+    uiStore.clippingPlanes = next
+    if (uiStore.activeClippingPlaneId === id) {
+      uiStore.activeClippingPlaneId = next[next.length - 1]?.id ?? null
+    }
+  }
+
+  function clearClippingPlanes() {
+    uiStore.clippingPlanes = []
+    uiStore.activeClippingPlaneId = null
+  }
+
+  return {
+    clippingPlanes,
+    activeClippingPlane,
+    canAddClippingPlane,
+    addClippingPlane,
+    updateClippingPlane,
+    flipClippingPlane,
+    toggleClippingPlane,
+    setActiveClippingPlane,
+    removeClippingPlane,
+    clearClippingPlanes,
+  }
+}
@@ -14,6 +14,7 @@ import backgroundUrl from '@/assets/home.webp'
 import { createCodeImportOps } from './fileOps/codeImport'
 import { createWatchModeOps } from './fileOps/watchMode'
 import { createArchiveOps } from './fileOps/archive'
+import { createSceneExportOps } from './fileOps/sceneExport'
 
 // 检查浏览器是否支持 File System Access API
 const isFileSystemAccessSupported = 'showDirectoryPicker' in window
@@ -27,8 +28,7 @@ export function useFileOperations(editorStore: ReturnType<typeof useEditorStore>
   const settingsStore = useSettingsStore()
   const gameDataStore = useGameDataStore()
   const validationStore = useValidationStore()
-  const { hasDuplicate, duplicateItemCount, hasLimitIssues, limitIssues } =
-    storeToRefs(validationStore)
+  const { findings } = storeToRefs(validationStore)
 
   function preloadImage(url: string) {
     const img = new Image()
@@ -59,40 +59,33 @@ export function useFileOperations(editorStore: ReturnType<typeof useEditorStore>
   async function prepareDataForSave(): Promise<GameItem[] | null> {
     const details: AlertDetailItem[] = []
 
-    if (settingsStore.settings.enableDuplicateDetection && hasDuplicate.value) {
+    // 保存时会自动修复的问题单独列出，其余问题仅作提醒
+    const fixMsgs: string[] = []
+    const warningMsgs: string[] = []
+    for (const finding of findings.value) {
+      const text = t(finding.description, { n: finding.issues.length })
+      if (finding.fix) {
+        fixMsgs.push(`${text} (${t(finding.fix)})`)
+      } else {
+        warningMsgs.push(text)
+      }
+    }
+
+    if (warningMsgs.length > 0) {
       details.push({
         type: 'warning',
-        title: t('fileOps.duplicate.title'),
-        text: `${t('fileOps.duplicate.desc', { n: duplicateItemCount.value })}\n${t('fileOps.duplicate.detail')}`,
+        title: t('fileOps.validation.title'),
+        list: warningMsgs,
       })
     }
 
-    if (hasLimitIssues.value) {
-      const { outOfBoundsItemIds, oversizedGroups, invalidScaleItemIds, invalidRotationItemIds } =
-        limitIssues.value
-      const limitMsgs: string[] = []
-
-      if (outOfBoundsItemIds.length > 0) {
-        limitMsgs.push(t('fileOps.limit.outOfBounds', { n: outOfBoundsItemIds.length }))
-      }
-      if (oversizedGroups.length > 0) {
-        limitMsgs.push(t('fileOps.limit.oversized', { n: oversizedGroups.length }))
-      }
-      if (invalidScaleItemIds.length > 0) {
-        limitMsgs.push(t('fileOps.limit.invalidScale', { n: invalidScaleItemIds.length }))
-      }
-      if (invalidRotationItemIds.length > 0) {
-        limitMsgs.push(t('fileOps.limit.invalidRotation', { n: invalidRotationItemIds.length }))
-      }
-
-      if (limitMsgs.length > 0) {
-        details.push({
-          type: 'info',
-          title: t('fileOps.limit.title'),
-          text: t('fileOps.limit.desc'),
-          list: limitMsgs,
-        })
-      }
+    if (fixMsgs.length > 0) {
+      details.push({
+        type: 'info',
+        title: t('fileOps.limit.title'),
+        text: t('fileOps.limit.desc'),
+        list: fixMsgs,
+      })
     }
 
     if (details.length > 0 && !suppressSaveWarning.value) {
@@ -114,10 +107,10 @@ export function useFileOperations(editorStore: ReturnType<typeof useEditorStore>
       }
     }
 
-    const outOfBoundsIds = new Set(limitIssues.value.outOfBoundsItemIds)
-    const oversizedGroupIds = new Set(limitIssues.value.oversizedGroups)
-    const invalidScaleIds = new Set(limitIssues.value.invalidScaleItemIds)
-    const invalidRotationIds = new Set(limitIssues.value.invalidRotationItemIds)
+    const outOfBoundsIds = validationStore.getFindingItemIds('outOfBounds')
+    const oversizedGroupItemIds = validationStore.getFindingItemIds('oversizedGroup')
+    const invalidScaleIds = validationStore.getFindingItemIds('invalidScale')
+    const invalidRotationIds = validationStore.getFindingItemIds('invalidRotation')
 
     const gameItems: GameItem[] = (editorStore.activeScheme?.items.value ?? [])
       .filter((item) => !outOfBoundsIds.has(item.internalId))
@@ -125,7 +118,7 @@ export function useFileOperations(editorStore: ReturnType<typeof useEditorStore>
         const originalGroupId = item.groupId
         let newGroupId = originalGroupId
 
-        if (originalGroupId > 0 && oversizedGroupIds.has(originalGroupId)) {
+        if (originalGroupId > 0 && oversizedGroupItemIds.has(item.internalId)) {
           newGroupId = 0
         }
 
@@ -267,6 +260,12 @@ export function useFileOperations(editorStore: ReturnType<typeof useEditorStore>
     console.log(`[FileOps] Exported ${gameItems.length} items to ${link.download}`)
   }
 
+  const sceneExportOps = createSceneExportOps({
+    editorStore,
+    notification,
+    t,
+  })
+
   async function startWatchMode() {
     await watchOps.startWatchMode()
 
@@ -302,6 +301,7 @@ export function useFileOperations(editorStore: ReturnType<typeof useEditorStore>
     importFromCode,
     importFromPublicSchemeCode,
     exportJSON,
+    exportScene: sceneExportOps.exportScene,
     saveToGame: watchOps.saveToGame,
     isFileSystemAccessSupported,
     watchState: watchOps.watchState,
@@ -324,6 +324,7 @@ export function useFileOperations(editorStore: ReturnType<typeof useEditorStore>
     moveArchiveGroup: archiveOps.moveGroup,
     archiveScheme: archiveOps.archiveScheme,
     openArchiveEntry: archiveOps.openArchiveEntry,
+    readArchiveEntrySnapshot: archiveOps.readArchiveEntrySnapshot,
     updateArchiveEntryFromScheme: archiveOps.updateArchiveEntryFromScheme,
     renameArchiveEntry: archiveOps.renameEntry,
     deleteArchiveEntry: archiveOps.deleteEntry,
@@ -79,6 +79,45 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions) {
         return
       }
 
+      if (event.key === 'Escape' && uiStore.isSelectingSnapSource) {
+        event.preventDefault()
+        uiStore.setSelectingSnapSource(false)
+        return
+      }
+
+      if (event.key === 'Escape' && uiStore.isDrawingScatterRegion) {
+        event.preventDefault()
+        uiStore.setDrawingScatterRegion(false)
+        return
+      }
+
+      // 绘制路径时：Enter 完成，Backspace 撤销上一个点，Esc 放弃整条路径
+      if (uiStore.isDrawingPath) {
+        if (event.key === 'Enter') {
+          event.preventDefault()
+          uiStore.setDrawingPath(false)
+          return
+        }
+        if (event.key === 'Backspace') {
+          event.preventDefault()
+          uiStore.drawnPathPoints = uiStore.drawnPathPoints.slice(0, -1)
+          return
+        }
+        if (event.key === 'Escape') {
+          event.preventDefault()
+          uiStore.drawnPathPoints = []
+          uiStore.setDrawingPath(false)
+          return
+        }
+      }
+
+      // 测量中 Esc 先放弃当前测量，不取消选择
+      if (event.key === 'Escape' && uiStore.measurePoints.length > 0) {
+        event.preventDefault()
+        uiStore.measurePoints = []
+        return
+      }
+
       // 匹配快捷键命令
       const shortcut = eventToShortcut(event)
       const commandId = shortcutMap.value.get(shortcut)
@@ -0,0 +1,347 @@
+import { ref, toRaw } from 'vue'
+import { useEditorStore } from '../stores/editorStore'
+import { useGameDataStore } from '../stores/gameDataStore'
+import { useNotification } from './useNotification'
+import { useI18n } from './useI18n'
+import { useClipboard } from './useClipboard'
+import { useEditorItemAdd } from './editor/useEditorItemAdd'
+import { convertGameItemToAppItem } from './fileOps/codeImport'
+import { PrefabDB } from '../lib/prefabLibraryStore'
+import { renderPrefabIcon } from '../lib/prefabIcon'
+import type { AppItem, GameItem } from '../types/editor'
+import { PREFAB_RECORD_VERSION, type PrefabFile, type PrefabRecord } from '../types/prefab'
+
+function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+    const r = (Math.random() * 16) | 0
+    const v = c === 'x' ? r : (r & 0x3) | 0x8
+    return v.toString(16)
+  })
+}
+
+/** 标签去空格、去重，保持输入顺序 */
+function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean)))
+}
+
+/**
+ * 把物品平移到以锚点为原点的局部坐标（锚点：XY 中心 + 最低 Z），
+ * 与方案码 combination 导入的锚点规则保持一致。
+ */
+function normalizeItemsToAnchor(items: AppItem[]): AppItem[] {
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  let minZ = Infinity
+
+  for (const item of items) {
+    if (item.x < minX) minX = item.x
+    if (item.x > maxX) maxX = item.x
+    if (item.y < minY) minY = item.y
+    if (item.y > maxY) maxY = item.y
+    if (item.z < minZ) minZ = item.z
+  }
+
+  const anchorX = (minX + maxX) / 2
+  const anchorY = (minY + maxY) / 2
+
+  return items.map((item) => ({
+    ...item,
+    x: item.x - anchorX,
+    y: item.y - anchorY,
+    z: item.z - minZ,
+  }))
+}
+
+function convertAppItemToGameItem(item: AppItem): GameItem {
+  return {
+    ...item.extra,
+    ItemID: item.gameId,
+    InstanceID: item.instanceId,
+    GroupID: item.groupId,
+    AttachID: item.extra.AttachID ?? 0,
+    Location: { X: item.x, Y: item.y, Z: item.z },
+    Rotation: {
+      Roll: item.rotation.x,
+      Pitch: item.rotation.y,
+      Yaw: item.rotation.z,
+    },
+    Scale: item.extra.Scale ? { ...item.extra.Scale } : { X: 1, Y: 1, Z: 1 },
+  }
+}
+
+/** 解析预制件文件：兼容 combination `{ type, data }` 与完整存档 `{ PlaceInfo }` 两种结构 */
+function parsePrefabFile(content: string): Partial<PrefabFile> & { data: GameItem[] } {
+  const json = JSON.parse(content) as Record<string, unknown>
+  const rawItems = Array.isArray(json.data)
+    ? json.data
+    : Array.isArray(json.PlaceInfo)
+      ? json.PlaceInfo
+      : null
+
+  if (!rawItems) {
+    throw new Error('Missing data')
+  }
+
+  const data = rawItems.filter(
+    (entry): entry is GameItem =>
+      !!entry && typeof entry === 'object' && typeof (entry as GameItem).ItemID === 'number'
+  )
+
+  return {
+    name: typeof json.name === 'string' ? json.name : undefined,
+    tags: Array.isArray(json.tags)
+      ? json.tags.filter((tag): tag is string => typeof tag === 'string')
+      : undefined,
+    groupOrigins: Array.isArray(json.groupOrigins)
+      ? (json.groupOrigins as unknown[]).filter(
+          (entry): entry is [number, number] =>
+            Array.isArray(entry) && typeof entry[0] === 'number' && typeof entry[1] === 'number'
+        )
+      : undefined,
+    data,
+  }
+}
+
+// 预制件列表（模块级单例，所有调用共享）
+const prefabs = ref<PrefabRecord[]>([])
+const hasLoaded = ref(false)
+const isLoading = ref(false)
+
+/**
+ * 预制件库
+ *
+ * 预制件持久化在 IndexedDB（独立于工作台快照），插入时走剪贴板的 insertClipboardData，
+ * 因此 InstanceID / GroupID / 组原点的重新分配与普通粘贴完全一致。
+ */
+export function usePrefabLibrary() {
+  const editorStore = useEditorStore()
+  const gameDataStore = useGameDataStore()
+  const notification = useNotification()
+  const { t } = useI18n()
+  const { buildClipboardDataFromSelection, insertClipboardData } = useClipboard()
+  const { getAddPositionFn } = useEditorItemAdd()
+
+  async function loadPrefabs(force = false): Promise<void> {
+    if (isLoading.value || (hasLoaded.value && !force)) return
+
+    isLoading.value = true
+    try {
+      prefabs.value = await PrefabDB.getAll()
+      hasLoaded.value = true
+    } catch (error) {
+      console.error('[PrefabLibrary] Failed to load prefabs:', error)
+      notification.error(t('prefab.loadFailed'))
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  function createRecord(
+    name: string,
+    tags: string[],
+    items: AppItem[],
+    groupOrigins: Array<[number, string]>
+  ): PrefabRecord {
+    const normalizedItems = normalizeItemsToAnchor(items)
+    const now = Date.now()
+
+    return {
+      version: PREFAB_RECORD_VERSION,
+      id: generateUUID(),
+      name: name.trim() || t('prefab.untitled'),
+      tags: normalizeTags(tags),
+      icon: renderPrefabIcon(normalizedItems, (gameId) => gameDataStore.getFurnitureSize(gameId)),
+      items: normalizedItems,
+      groupOrigins,
+      itemCount: normalizedItems.length,
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  async function persistRecord(record: PrefabRecord): Promise<void> {
+    await PrefabDB.save(record)
+    prefabs.value = [record, ...prefabs.value.filter((entry) => entry.id !== record.id)]
+  }
+
+  /** 将当前选中内容保存为预制件 */
+  async function saveSelectionAsPrefab(name: string, tags: string[]): Promise<PrefabRecord | null> {
+    const clipboardData = buildClipboardDataFromSelection()
+    if (clipboardData.items.length === 0) {
+      notification.warning(t('prefab.noSelection'))
+      return null
+    }
+
+    const record = createRecord(
+      name,
+      tags,
+      clipboardData.items,
+      Array.from(clipboardData.groupOrigins.entries())
+    )
+
+    try {
+      await persistRecord(record)
+      notification.success(t('prefab.saved', { name: record.name }))
+      return record
+    } catch (error) {
+      console.error('[PrefabLibrary] Failed to save prefab:', error)
+      notification.error(t('prefab.saveFailed'))
+      return null
+    }
+  }
+
+  /** 修改名称 / 标签 */
+  async function updatePrefab(
+    id: string,
+    patch: { name?: string; tags?: string[] }
+  ): Promise<void> {
+    const current = prefabs.value.find((entry) => entry.id === id)
+    if (!current) return
+
+    // 列表中的记录是响应式代理，写入 IndexedDB 前需要还原为普通对象
+    const raw = toRaw(current)
+    const next: PrefabRecord = structuredClone({
+      ...raw,
+      name: patch.name !== undefined ? patch.name.trim() || raw.name : raw.name,
+      tags: patch.tags !== undefined ? normalizeTags(patch.tags) : raw.tags,
+      updatedAt: Date.now(),
+    })
+
+    try {
+      await persistRecord(next)
+    } catch (error) {
+      console.error('[PrefabLibrary] Failed to update prefab:', error)
+      notification.error(t('prefab.saveFailed'))
+    }
+  }
+
+  async function deletePrefab(id: string): Promise<void> {
+    try {
+      await PrefabDB.delete(id)
+      prefabs.value = prefabs.value.filter((entry) => entry.id !== id)
+    } catch (error) {
+      console.error('[PrefabLibrary] Failed to delete prefab:', error)
+      notification.error(t('prefab.deleteFailed'))
+    }
+  }
+
+  /**
+   * 插入预制件：锚点落在屏幕中心射线命中点（与家具背包添加一致），新物品使用全新编号
+   * @returns 新物品的 internalId 列表
+   */
+  function insertPrefab(prefab: PrefabRecord): string[] {
+    if (!editorStore.activeScheme) {
+      editorStore.createScheme()
+    }
+
+    const position = getAddPositionFn.value?.() ?? [0, 0, 0]
+    const { newIds } = insertClipboardData(
+      {
+        sourceSchemeId: null,
+        items: prefab.items,
+        groupOrigins: new Map(prefab.groupOrigins),
+      },
+      {
+        idMode: 'regenerate',
+        offset: { x: position[0], y: position[1], z: position[2] },
+      }
+    )
+
+    if (newIds.length > 0) {
+      console.log(`[PrefabLibrary] Inserted prefab "${prefab.name}" (${newIds.length} items)`)
+    }
+
+    return newIds
+  }
+
+  /** 导出为 combination 结构的 JSON 文件 */
+  function exportPrefab(prefab: PrefabRecord): void {
+    const itemsById = new Map(prefab.items.map((item) => [item.internalId, item]))
+    const groupOrigins: Array<[number, number]> = []
+    for (const [groupId, originItemId] of prefab.groupOrigins) {
+      const originItem = itemsById.get(originItemId)
+      if (originItem) groupOrigins.push([groupId, originItem.instanceId])
+    }
+
+    const file: PrefabFile = {
+      type: 'combination',
+      name: prefab.name,
+      tags: prefab.tags,
+      groupOrigins,
+      data: prefab.items.map(convertAppItemToGameItem),
+    }
+
+    const blob = new Blob([JSON.stringify(file)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${prefab.name}.json`
+    link.click()
+
+    URL.revokeObjectURL(url)
+  }
+
+  /** 从 JSON 文件导入预制件（支持多选） */
+  function importPrefabFiles(): Promise<void> {
+    return new Promise((resolve) => {
+      const input = document.createElement('input')
+      input.type = 'file'
+      input.accept = '.json'
+      input.multiple = true
+
+      input.onchange = async (event: Event) => {
+        const files = Array.from((event.target as HTMLInputElement).files ?? [])
+        let importedCount = 0
+
+        for (const file of files) {
+          try {
+            const parsed = parsePrefabFile(await file.text())
+            if (parsed.data.length === 0) {
+              throw new Error('Empty data')
+            }
+
+            const items = parsed.data.map(convertGameItemToAppItem)
+            const idByInstance = new Map(items.map((item) => [item.instanceId, item.internalId]))
+            const groupOrigins: Array<[number, string]> = []
+            for (const [groupId, instanceId] of parsed.groupOrigins ?? []) {
+              const originItemId = idByInstance.get(instanceId)
+              if (originItemId) groupOrigins.push([groupId, originItemId])
+            }
+
+            const fallbackName = file.name.replace(/\.json$/i, '')
+            await persistRecord(
+              createRecord(parsed.name ?? fallbackName, parsed.tags ?? [], items, groupOrigins)
+            )
+            importedCount++
+          } catch (error) {
+            console.error(`[PrefabLibrary] Failed to import ${file.name}:`, error)
+            notification.error(t('prefab.importFailed', { name: file.name }))
+          }
+        }
+
+        if (importedCount > 0) {
+          notification.success(t('prefab.imported', { n: importedCount }))
+        }
+        resolve()
+      }
+
+      input.click()
+    })
+  }
+
+  return {
+    prefabs,
+    hasLoaded,
+    isLoading,
+    loadPrefabs,
+    saveSelectionAsPrefab,
+    updatePrefab,
+    deletePrefab,
+    insertPrefab,
+    exportPrefab,
+    importPrefabFiles,
+  }
+}
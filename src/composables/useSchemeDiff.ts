@@ -0,0 +1,99 @@
+import { computed, shallowRef } from 'vue'
+import { useEditorStore } from '../stores/editorStore'
+import { useUIStore } from '../stores/uiStore'
+import { useEditorSelection } from './editor/useEditorSelection'
+import {
+  diffSchemeItems,
+  getSchemeDiffPrimaryKind,
+  schemeDiffEntryHasKind,
+  type SchemeDiffKind,
+  type SchemeDiffResult,
+} from '../lib/schemeDiff'
+import type { AppItem } from '../types/editor'
+import type { SchemeSourceType } from './useSchemeSources'
+
+export interface SchemeDiffSource {
+  type: SchemeSourceType
+  /** 显示名称（方案名 / 文件名 / 方案集条目名） */
+  label: string
+}
+
+interface SchemeDiffSession {
+  /** 被对比的方案（只在该方案激活时显示结果） */
+  schemeId: string
+  source: SchemeDiffSource
+  /** 基准物品快照（开始对比时拷贝，之后不随来源变化） */
+  baseItems: AppItem[]
+}
+
+// 对比会话（模块级单例：侧边栏、画布着色共享同一份结果）
+const session = shallowRef<SchemeDiffSession | null>(null)
+
+/**
+ * 方案对比
+ *
+ * 以当前激活方案为目标、另一份数据为基准，结果随当前方案的编辑实时更新。
+ */
+export function useSchemeDiff() {
+  const editorStore = useEditorStore()
+  const uiStore = useUIStore()
+  const { updateSelection } = useEditorSelection()
+
+  const isActive = computed(
+    () => !!session.value && session.value.schemeId === editorStore.activeSchemeId
+  )
+
+  const source = computed(() => (isActive.value ? session.value!.source : null))
+
+  const result = computed<SchemeDiffResult | null>(() => {
+    void editorStore.sceneVersion
+    const current = session.value
+    const scheme = editorStore.activeScheme
+    if (!current || !scheme || current.schemeId !== scheme.id) return null
+    return diffSchemeItems(current.baseItems, scheme.items.value)
+  })
+
+  /** 画布着色：internalId -> 主分类（未变化的物品不在表内） */
+  const itemKinds = computed(() => {
+    const kinds = new Map<string, SchemeDiffKind>()
+    for (const entry of result.value?.entries ?? []) {
+      if (entry.target) kinds.set(entry.target.internalId, getSchemeDiffPrimaryKind(entry))
+    }
+    return kinds
+  })
+
+  function start(baseItems: AppItem[], diffSource: SchemeDiffSource): boolean {
+    const schemeId = editorStore.activeSchemeId
+    if (!schemeId) return false
+
+    session.value = { schemeId, source: diffSource, baseItems }
+    uiStore.setSidebarView('diff')
+    console.log(`[SchemeDiff] Comparing with ${diffSource.type}: ${diffSource.label}`)
+    return true
+  }
+
+  function clear() {
+    session.value = null
+    if (uiStore.sidebarView === 'diff') {
+      uiStore.setSidebarView('structure')
+    }
+  }
+
+  /** 选中某一分类的全部物品（删除的物品不在当前方案中，无法选中） */
+  function selectKind(kind: SchemeDiffKind, additive = false) {
+    const ids = (result.value?.entries ?? [])
+      .filter((entry) => entry.target && schemeDiffEntryHasKind(entry, kind))
+      .map((entry) => entry.target!.internalId)
+    updateSelection(ids, additive, { skipGroupExpansion: true })
+  }
+
+  return {
+    isActive,
+    source,
+    result,
+    itemKinds,
+    start,
+    clear,
+    selectKind,
+  }
+}
@@ -0,0 +1,92 @@
+import { triggerRef } from 'vue'
+import { useEditorStore } from '../stores/editorStore'
+import { useEditorHistory } from './editor/useEditorHistory'
+import {
+  applySchemeMergePlan,
+  buildSchemeMergePlan,
+  type SchemeMergePlan,
+  type SchemeMergeSide,
+} from '../lib/schemeMerge'
+import type { AppItem } from '../types/editor'
+
+function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+    const r = (Math.random() * 16) | 0
+    const v = c === 'x' ? r : (r & 0x3) | 0x8
+    return v.toString(16)
+  })
+}
+
+/**
+ * 方案合并
+ *
+ * 当前激活方案作为“我方”，base / theirs 由调用方从任意来源读取。
+ * 合并结果作为一条事务写入历史，可以整体撤销。
+ */
+export function useSchemeMerge() {
+  const store = useEditorStore()
+  const { recordTransaction } = useEditorHistory()
+
+  function createPlan(baseItems: AppItem[], theirsItems: AppItem[]): SchemeMergePlan | null {
+    const scheme = store.activeScheme
+    if (!scheme) return null
+    return buildSchemeMergePlan(baseItems, scheme.items.value, theirsItems)
+  }
+
+  /**
+   * 应用合并计划
+   * @returns 受影响的物品数量统计；没有激活方案时返回 null
+   */
+  function applyMerge(
+    plan: SchemeMergePlan,
+    resolutions: ReadonlyMap<string, SchemeMergeSide>,
+    theirsGroupOrigins?: ReadonlyMap<number, string>
+  ): { changed: number; removed: number } | null {
+    const scheme = store.activeScheme
+    if (!scheme) return null
+
+    return recordTransaction('scheme.merge', () => {
+      const result = applySchemeMergePlan(scheme.items.value, plan, resolutions, {
+        maxInstanceId: scheme.maxInstanceId.value,
+        maxGroupId: scheme.maxGroupId.value,
+        createId: generateUUID,
+        theirsGroupOrigins,
+      })
+
+      // 被删除的物品如果是组原点，同步移除原点记录；对方带来的组原点在我方没有原点时补上
+      const remainingIds = new Set(result.items.map((item) => item.internalId))
+      const currentOrigins = scheme.groupOrigins.value
+      const nextOrigins = new Map(currentOrigins)
+      for (const [groupId, itemId] of currentOrigins) {
+        if (!remainingIds.has(itemId)) nextOrigins.delete(groupId)
+      }
+      for (const [groupId, itemId] of result.groupOrigins) {
+        if (!nextOrigins.has(groupId)) nextOrigins.set(groupId, itemId)
+      }
+      if (
+        nextOrigins.size !== currentOrigins.size ||
+        Array.from(nextOrigins).some(([groupId, itemId]) => currentOrigins.get(groupId) !== itemId)
+      ) {
+        scheme.groupOrigins.value = nextOrigins
+        triggerRef(scheme.groupOrigins)
+      }
+
+      scheme.items.value = result.items
+      scheme.maxInstanceId.value = result.maxInstanceId
+      scheme.maxGroupId.value = result.maxGroupId
+
+      // 合并后选中受影响的物品，方便检查
+      scheme.selectedItemIds.value = new Set(result.touchedIds)
+
+      store.triggerSceneUpdate()
+      store.triggerSelectionUpdate()
+
+      return { changed: result.touchedIds.length, removed: result.removedCount }
+    })
+  }
+
+  return {
+    createPlan,
+    applyMerge,
+  }
+}
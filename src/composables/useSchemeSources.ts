@@ -0,0 +1,75 @@
+import { useEditorStore } from '../stores/editorStore'
+import { useCommandStore } from '../stores/commandStore'
+import { convertGameItemToAppItem } from './fileOps/codeImport'
+import { WatchHistoryDB } from '../lib/watchHistoryStore'
+import type { AppItem, GameDataFile, GameItem } from '../types/editor'
+
+export type SchemeSourceType = 'scheme' | 'history' | 'archive'
+
+/** 方案数据来源：打开的方案 / 监控历史快照 / 方案集条目 */
+export interface SchemeSourceRef {
+  type: SchemeSourceType
+  id: string
+}
+
+export interface LoadedSchemeSource {
+  type: SchemeSourceType
+  /** 显示名称（方案名 / 文件名 / 方案集条目名） */
+  label: string
+  items: AppItem[]
+  /** 组原点：GroupID -> 原点物品 internalId（游戏存档不含原点信息，为空） */
+  groupOrigins: Map<number, string>
+}
+
+/**
+ * 方案数据来源读取（供对比、合并等只读场景使用，不会打开新标签页）
+ */
+export function useSchemeSources() {
+  const editorStore = useEditorStore()
+  const commandStore = useCommandStore()
+
+  async function loadSource(source: SchemeSourceRef): Promise<LoadedSchemeSource | null> {
+    if (source.type === 'scheme') {
+      const scheme = editorStore.schemes.find((entry) => entry.id === source.id)
+      if (!scheme) return null
+      return {
+        type: 'scheme',
+        label: scheme.name.value,
+        items: scheme.items.value.slice(),
+        groupOrigins: new Map(scheme.groupOrigins.value),
+      }
+    }
+
+    if (source.type === 'history') {
+      const snapshot = await WatchHistoryDB.get(source.id)
+      if (!snapshot) return null
+
+      const data = JSON.parse(snapshot.content) as GameDataFile
+      const placeInfo: GameItem[] = Array.isArray(data.PlaceInfo) ? data.PlaceInfo : []
+      return {
+        type: 'history',
+        label: snapshot.fileName,
+        items: placeInfo.map(convertGameItemToAppItem),
+        groupOrigins: new Map(),
+      }
+    }
+
+    const entry = commandStore.fileOps.archiveState.index.entries.find(
+      (item) => item.id === source.id
+    )
+    if (!entry) return null
+
+    const snapshot = await commandStore.fileOps.readArchiveEntrySnapshot(source.id)
+    if (!snapshot) return null
+    return {
+      type: 'archive',
+      label: entry.name,
+      items: snapshot.items,
+      groupOrigins: new Map(snapshot.groupOrigins),
+    }
+  }
+
+  return {
+    loadSource,
+  }
+}
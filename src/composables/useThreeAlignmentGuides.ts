@@ -0,0 +1,65 @@
+import { shallowRef, watch, type Ref } from 'vue'
+import type { Camera } from 'three'
+import { useThreeSnapPicker } from '@/composables/useThreeSnapPicker'
+import { invalidateScene } from '@/composables/useSceneInvalidate'
+import type { AlignmentGuide } from '@/lib/alignmentGuides'
+import type { ScreenPoint } from '@/lib/interaction/screenGeometry'
+import type { InteractionAdapter } from './renderer/types'
+
+/**
+ * 对齐参考线叠加层数据（容器相对坐标，每次渲染后刷新）
+ */
+export interface AlignmentGuideOverlayLine {
+  kind: AlignmentGuide['kind']
+  start: ScreenPoint
+  end: ScreenPoint
+  distance: number | null
+}
+
+const EMPTY_OVERLAY: AlignmentGuideOverlayLine[] = []
+
+/**
+ * 平移 Gizmo 拖拽时的对齐参考线投影
+ *
+ * 参考线由 gizmoSnapEngine 按世界坐标计算，这里只负责按当前相机投影到屏幕。
+ */
+export function useThreeAlignmentGuides(
+  cameraRef: Ref<Camera | null>,
+  interactionAdapter: Ref<InteractionAdapter>,
+  guides: Ref<AlignmentGuide[]>
+) {
+  const { projectToScreen } = useThreeSnapPicker(cameraRef, interactionAdapter)
+
+  const alignmentGuideOverlay = shallowRef<AlignmentGuideOverlayLine[]>(EMPTY_OVERLAY)
+
+  /**
+   * 按当前相机重新投影参考线（在渲染回调中调用）
+   */
+  function refreshAlignmentGuideOverlay() {
+    const camera = cameraRef.value
+    if (!camera || guides.value.length === 0) {
+      if (alignmentGuideOverlay.value !== EMPTY_OVERLAY) alignmentGuideOverlay.value = EMPTY_OVERLAY
+      return
+    }
+
+    const lines: AlignmentGuideOverlayLine[] = []
+    for (const guide of guides.value) {
+      const start = projectToScreen(guide.start, camera)
+      const end = projectToScreen(guide.end, camera)
+      if (!start || !end) continue
+      lines.push({ kind: guide.kind, start, end, distance: guide.distance })
+    }
+
+    alignmentGuideOverlay.value = lines
+  }
+
+  // 拖拽结束清空参考线后补渲一帧，由渲染回调刷新叠加层
+  watch(guides, () => {
+    invalidateScene()
+  })
+
+  return {
+    alignmentGuideOverlay,
+    refreshAlignmentGuideOverlay,
+  }
+}
@@ -0,0 +1,117 @@
+import { computed, markRaw, onUnmounted, ref, watch } from 'vue'
+import { DoubleSide, Mesh, MeshBasicMaterial, Object3D, Plane, PlaneGeometry, Vector3 } from 'three'
+import { useUIStore } from '@/stores/uiStore'
+import { useClippingPlanes } from '@/composables/useClippingPlanes'
+import { invalidateScene } from '@/composables/useSceneInvalidate'
+import { sceneClippingPlanes } from '@/composables/renderer/shared/clipping'
+
+// 平面辅助面的颜色和透明度
+const HELPER_COLOR = 0x38bdf8
+const HELPER_OPACITY = 0.08
+// 场景为空时辅助面的边长
+const DEFAULT_HELPER_SIZE = 2000
+
+const PLANE_LOCAL_NORMAL = new Vector3(0, 0, 1)
+
+/**
+ * 3D 视图的剖切平面
+ *
+ * - 把 uiStore 中的平面定义同步到共享的 sceneClippingPlanes（所有物品材质引用同一数组）
+ * - 为当前平面提供 Gizmo 锚点（局部 Z 轴 = 法线，只允许沿法线拖动）和半透明辅助面
+ *
+ * @param getSceneSize - 场景尺寸（用于辅助面大小）
+ */
+export function useThreeClippingPlanes(getSceneSize: () => number | null) {
+  const uiStore = useUIStore()
+  const { activeClippingPlane, updateClippingPlane } = useClippingPlanes()
+
+  const pivot = markRaw(new Object3D())
+  const helperGeometry = markRaw(new PlaneGeometry(1, 1))
+  const helperMaterial = markRaw(
+    new MeshBasicMaterial({
+      color: HELPER_COLOR,
+      transparent: true,
+      opacity: HELPER_OPACITY,
+      side: DoubleSide,
+      depthWrite: false,
+    })
+  )
+  const helperMesh = markRaw(new Mesh(helperGeometry, helperMaterial))
+  helperMesh.raycast = () => {}
+  helperMesh.renderOrder = 2
+
+  const isDragging = ref(false)
+  const scratchNormal = new Vector3()
+  const scratchOrigin = new Vector3()
+
+  const shouldShowClippingGizmo = computed(() => !!activeClippingPlane.value?.enabled)
+
+  // 平面定义 → 材质共享的 Plane 数组（原地更新）
+  watch(
+    () => uiStore.clippingPlanes,
+    (planes) => {
+      sceneClippingPlanes.length = 0
+      for (const config of planes) {
+        if (!config.enabled) continue
+        scratchNormal.set(config.normal.x, config.normal.y, config.normal.z).normalize()
+        scratchOrigin.set(config.origin.x, config.origin.y, config.origin.z)
+        sceneClippingPlanes.push(
+          new Plane().setFromNormalAndCoplanarPoint(scratchNormal, scratchOrigin)
+        )
+      }
+      invalidateScene()
+    },
+    { immediate: true }
+  )
+
+  // 当前平面 → Gizmo 锚点和辅助面的位置朝向
+  watch(
+    [activeClippingPlane, getSceneSize],
+    ([plane, sceneSize]) => {
+      if (!plane) return
+
+      scratchNormal.set(plane.normal.x, plane.normal.y, plane.normal.z).normalize()
+      pivot.quaternion.setFromUnitVectors(PLANE_LOCAL_NORMAL, scratchNormal)
+      // 拖拽中由 TransformControls 驱动位置，避免回写打断拖拽
+      if (!isDragging.value) {
+        pivot.position.set(plane.origin.x, plane.origin.y, plane.origin.z)
+      }
+
+      const size = (sceneSize ?? 0) > 0 ? sceneSize! * 1.2 : DEFAULT_HELPER_SIZE
+      helperMesh.position.set(plane.origin.x, plane.origin.y, plane.origin.z)
+      helperMesh.quaternion.copy(pivot.quaternion)
+      helperMesh.scale.set(size, size, 1)
+      invalidateScene()
+    },
+    { immediate: true }
+  )
+
+  function handleClippingGizmoDragging(dragging: boolean) {
+    isDragging.value = dragging
+  }
+
+  // Gizmo 只开放局部 Z 轴，锚点位置即平面经过的点
+  function handleClippingGizmoChange() {
+    const plane = activeClippingPlane.value
+    if (!plane || !isDragging.value) return
+
+    const { x, y, z } = pivot.position
+    if (plane.origin.x === x && plane.origin.y === y && plane.origin.z === z) return
+    updateClippingPlane(plane.id, { origin: { x, y, z } })
+  }
+
+  onUnmounted(() => {
+    sceneClippingPlanes.length = 0
+    helperGeometry.dispose()
+    helperMaterial.dispose()
+  })
+
+  return {
+    clippingPivot: pivot,
+    clippingHelperMesh: helperMesh,
+    shouldShowClippingGizmo,
+    isClippingGizmoDragging: isDragging,
+    handleClippingGizmoDragging,
+    handleClippingGizmoChange,
+  }
+}
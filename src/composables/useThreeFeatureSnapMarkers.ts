@@ -0,0 +1,84 @@
+import { shallowRef, watch, type Ref } from 'vue'
+import { Vector3, type Camera } from 'three'
+import { useEditorStore } from '@/stores/editorStore'
+import { useUIStore } from '@/stores/uiStore'
+import { useThreeSnapPicker } from '@/composables/useThreeSnapPicker'
+import { invalidateScene } from '@/composables/useSceneInvalidate'
+import { matrixTransform } from '@/lib/matrixTransform'
+import type { SnapFeature, SnapFeatureKind } from '@/lib/featureSnap'
+import type { ScreenPoint } from '@/lib/interaction/screenGeometry'
+import type { InteractionAdapter } from './renderer/types'
+
+/**
+ * 特征点吸附标记叠加层数据（容器相对坐标，每次渲染后刷新）
+ */
+export interface FeatureSnapOverlayState {
+  // 拖拽中吸附到的目标特征点
+  target: { point: ScreenPoint; kind: SnapFeatureKind } | null
+  // 用户指定的吸附源点（拖拽中不显示）
+  source: ScreenPoint | null
+}
+
+const EMPTY_OVERLAY: FeatureSnapOverlayState = {
+  target: null,
+  source: null,
+}
+
+/**
+ * 特征点吸附的目标 / 源点标记投影
+ */
+export function useThreeFeatureSnapMarkers(
+  cameraRef: Ref<Camera | null>,
+  interactionAdapter: Ref<InteractionAdapter>,
+  featureSnapTarget: Ref<SnapFeature | null>,
+  isTransformDragging: Ref<boolean>
+) {
+  const editorStore = useEditorStore()
+  const uiStore = useUIStore()
+  const { projectToScreen } = useThreeSnapPicker(cameraRef, interactionAdapter)
+
+  const featureSnapOverlay = shallowRef<FeatureSnapOverlayState>(EMPTY_OVERLAY)
+
+  // 源点只在所在物品仍被选中时有效
+  function resolveSourceWorldPoint(): Vector3 | null {
+    const source = uiStore.featureSnapSource
+    if (!source) return null
+    if (!editorStore.activeScheme?.selectedItemIds.value.has(source.itemId)) return null
+
+    const item = editorStore.itemsMap.get(source.itemId)
+    if (!item) return null
+
+    const { x, y, z } = source.localPoint
+    return new Vector3(x, y, z).applyMatrix4(matrixTransform.buildWorldMatrixFromItem(item, false))
+  }
+
+  /**
+   * 按当前相机重新投影标记（在渲染回调中调用）
+   */
+  function refreshFeatureSnapOverlay() {
+    const camera = cameraRef.value
+    const target = featureSnapTarget.value
+    const sourcePoint = isTransformDragging.value ? null : resolveSourceWorldPoint()
+
+    if (!camera || (!target && !sourcePoint)) {
+      if (featureSnapOverlay.value !== EMPTY_OVERLAY) featureSnapOverlay.value = EMPTY_OVERLAY
+      return
+    }
+
+    const targetScreen = target ? projectToScreen(target.point, camera) : null
+    featureSnapOverlay.value = {
+      target: target && targetScreen ? { point: targetScreen, kind: target.kind } : null,
+      source: sourcePoint ? projectToScreen(sourcePoint, camera) : null,
+    }
+  }
+
+  // 目标或源点变化后补渲一帧，由渲染回调刷新叠加层
+  watch([featureSnapTarget, () => uiStore.featureSnapSource], () => {
+    invalidateScene()
+  })
+
+  return {
+    featureSnapOverlay,
+    refreshFeatureSnapOverlay,
+  }
+}
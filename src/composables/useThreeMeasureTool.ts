@@ -0,0 +1,215 @@
+import { computed, shallowRef, watch, type Ref } from 'vue'
+import { Vector3, type Camera } from 'three'
+import { useEditorStore } from '@/stores/editorStore'
+import { useUIStore } from '@/stores/uiStore'
+import { useEditorDimensions } from '@/composables/editor/useEditorDimensions'
+import { useThreeSnapPicker } from '@/composables/useThreeSnapPicker'
+import { invalidateScene } from '@/composables/useSceneInvalidate'
+import { isPointClipped } from '@/composables/renderer/shared/clipping'
+import {
+  getMeasureDistances,
+  resolveDimensionAnchor,
+  type MeasureDistances,
+} from '@/lib/dimensions'
+import type { ScreenPoint } from '@/lib/interaction/screenGeometry'
+import type { MeasurePoint } from '@/types/editor'
+import type { InteractionAdapter } from './renderer/types'
+
+// 按下和抬起之间移动超过该距离视为拖拽，不放置测量点
+const CLICK_THRESHOLD_PX = 5
+
+/**
+ * 屏幕空间中的一段测量线
+ * id 为固定标注的 ID，实时测量为 null
+ */
+export interface MeasureSegmentOverlay {
+  id: string | null
+  start: ScreenPoint
+  end: ScreenPoint
+  label: ScreenPoint
+  distances: MeasureDistances
+}
+
+/**
+ * 测量叠加层数据（容器相对坐标，每次渲染后刷新）
+ */
+export interface MeasureOverlayState {
+  cursor: (ScreenPoint & { snap: MeasurePoint['snap'] }) | null
+  points: ScreenPoint[]
+  live: MeasureSegmentOverlay | null
+  // 起点和终点都已放置，可固定为标注
+  canPin: boolean
+  dimensions: MeasureSegmentOverlay[]
+}
+
+const EMPTY_OVERLAY: MeasureOverlayState = {
+  cursor: null,
+  points: [],
+  live: null,
+  canPin: false,
+  dimensions: [],
+}
+
+/**
+ * 3D 测量工具
+ *
+ * - 悬停时吸附到物品中心 / OBB 角点（屏幕距离阈值内），否则取射线命中的表面点，未命中时落到地面
+ * - 第一次点击放置起点，第二次放置终点，再次点击开始新的测量
+ * - 测量结果可通过 tool.pinMeasurement 固定为尺寸标注（随方案保存，端点随物品移动）
+ *
+ * 叠加层坐标需要在每次渲染后调用 refreshMeasureOverlay 刷新。
+ */
+export function useThreeMeasureTool(
+  cameraRef: Ref<Camera | null>,
+  interactionAdapter: Ref<InteractionAdapter>
+) {
+  const editorStore = useEditorStore()
+  const uiStore = useUIStore()
+  const { dimensions } = useEditorDimensions()
+
+  const { getRelativePosition, projectToScreen, resolveSnapPoint } = useThreeSnapPicker(
+    cameraRef,
+    interactionAdapter
+  )
+
+  const scratchPoint = new Vector3()
+  const scratchStart = new Vector3()
+  const scratchEnd = new Vector3()
+
+  const hoverPoint = shallowRef<MeasurePoint | null>(null)
+  const measureOverlay = shallowRef<MeasureOverlayState>(EMPTY_OVERLAY)
+  let pointerDownPos: ScreenPoint | null = null
+
+  const isMeasureToolActive = computed(() => editorStore.currentTool === 'measure')
+
+  function handleMeasurePointerDown(evt: PointerEvent) {
+    if (evt.button !== 0) return
+    const { x, y } = getRelativePosition(evt)
+    pointerDownPos = { x, y }
+  }
+
+  function handleMeasurePointerMove(evt: PointerEvent) {
+    hoverPoint.value = resolveSnapPoint(evt)
+  }
+
+  // 点击（非拖拽）放置测量点：已有起点时放置终点，否则开始新的测量
+  function handleMeasurePointerUp(evt: PointerEvent) {
+    const downPos = pointerDownPos
+    pointerDownPos = null
+    if (!downPos) return
+
+    const { x, y } = getRelativePosition(evt)
+    if (Math.hypot(x - downPos.x, y - downPos.y) > CLICK_THRESHOLD_PX) return
+
+    const point = resolveSnapPoint(evt)
+    if (!point) return
+
+    const points = uiStore.measurePoints
+    const start = points.length === 1 ? points[0] : undefined
+    uiStore.measurePoints = start ? [start, point] : [point]
+    hoverPoint.value = point
+  }
+
+  function cancelMeasurement() {
+    pointerDownPos = null
+    hoverPoint.value = null
+    uiStore.measurePoints = []
+  }
+
+  function buildSegment(
+    id: string | null,
+    start: Vector3,
+    end: Vector3,
+    camera: Camera
+  ): MeasureSegmentOverlay | null {
+    if (isPointClipped(start) || isPointClipped(end)) return null
+
+    const startScreen = projectToScreen(start, camera)
+    const endScreen = projectToScreen(end, camera)
+    if (!startScreen || !endScreen) return null
+
+    return {
+      id,
+      start: startScreen,
+      end: endScreen,
+      label: { x: (startScreen.x + endScreen.x) / 2, y: (startScreen.y + endScreen.y) / 2 },
+      distances: getMeasureDistances(start, end),
+    }
+  }
+
+  /**
+   * 按当前相机重新投影测量线和标注（在渲染回调中调用）
+   */
+  function refreshMeasureOverlay() {
+    const camera = cameraRef.value
+    const points = uiStore.measurePoints
+    const hover = isMeasureToolActive.value ? hoverPoint.value : null
+    const dimensionList = dimensions.value
+
+    if (!camera || (points.length === 0 && !hover && dimensionList.length === 0)) {
+      if (measureOverlay.value !== EMPTY_OVERLAY) measureOverlay.value = EMPTY_OVERLAY
+      return
+    }
+
+    let cursor: MeasureOverlayState['cursor'] = null
+    if (hover) {
+      scratchPoint.set(hover.position.x, hover.position.y, hover.position.z)
+      const screen = projectToScreen(scratchPoint, camera)
+      if (screen) cursor = { ...screen, snap: hover.snap }
+    }
+
+    const screenPoints: ScreenPoint[] = []
+    for (const point of points) {
+      scratchPoint.set(point.position.x, point.position.y, point.position.z)
+      const screen = projectToScreen(scratchPoint, camera)
+      if (screen) screenPoints.push(screen)
+    }
+
+    // 只有起点时，终点跟随悬停位置
+    const start = points[0]
+    const end = points[1] ?? hover
+    let live: MeasureSegmentOverlay | null = null
+    if (start && end) {
+      scratchStart.set(start.position.x, start.position.y, start.position.z)
+      scratchEnd.set(end.position.x, end.position.y, end.position.z)
+      live = buildSegment(null, scratchStart, scratchEnd, camera)
+    }
+
+    const itemsMap = editorStore.itemsMap
+    const dimensionSegments: MeasureSegmentOverlay[] = []
+    for (const dimension of dimensionList) {
+      resolveDimensionAnchor(dimension.start, itemsMap, scratchStart)
+      resolveDimensionAnchor(dimension.end, itemsMap, scratchEnd)
+      const segment = buildSegment(dimension.id, scratchStart, scratchEnd, camera)
+      if (segment) dimensionSegments.push(segment)
+    }
+
+    measureOverlay.value = {
+      cursor,
+      points: screenPoints,
+      live,
+      canPin: points.length === 2,
+      dimensions: dimensionSegments,
+    }
+  }
+
+  // 切换到其他工具时丢弃未固定的测量
+  watch(isMeasureToolActive, (active) => {
+    if (!active) cancelMeasurement()
+  })
+
+  // 测量状态变化后补渲一帧，由渲染回调刷新叠加层
+  watch([hoverPoint, () => uiStore.measurePoints, dimensions], () => {
+    invalidateScene()
+  })
+
+  return {
+    isMeasureToolActive,
+    measureOverlay,
+    handleMeasurePointerDown,
+    handleMeasurePointerMove,
+    handleMeasurePointerUp,
+    cancelMeasurement,
+    refreshMeasureOverlay,
+  }
+}
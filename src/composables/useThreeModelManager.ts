@@ -1,4 +1,4 @@
-import { DynamicDrawUsage, InstancedMesh, type Material, Box3 } from 'three'
+import { DynamicDrawUsage, InstancedMesh, type BufferGeometry, type Material, Box3 } from 'three'
 import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js'
 import { DRACOLoader } from 'three/addons/loaders/DRACOLoader.js'
 import { useGameDataStore } from '@/stores/gameDataStore'
@@ -50,6 +50,14 @@ interface DisposeMeshOptions {
   evictColoredMaterial?: boolean
 }
 
+/** 单个家具的几何体 + 材质（几何体借用缓存资源，调用方不得释放） */
+export interface ModelMeshResources {
+  geometry: BufferGeometry
+  material: Material | Material[]
+  // 临时构建、未进入缓存的材质，调用方用完后负责释放
+  ownedMaterials: Material[]
+}
+
 export interface ThreeModelManager {
   createInstancedMesh(
     itemId: number,
@@ -57,7 +65,13 @@ export interface ThreeModelManager {
     instanceCount: number,
     dyePlan: ModelDyePlan
   ): Promise<InstancedMesh | null>
+  resolveModelMesh(
+    itemId: number,
+    cacheKey: string,
+    dyePlan: ModelDyePlan
+  ): Promise<ModelMeshResources | null>
   getModelBoundingBox(itemId: number): Box3 | null
+  getModelGeometry(itemId: number): BufferGeometry | null
   getUnloadedModels(itemIds: number[]): number[]
   preloadModels(
     itemIds: number[],
@@ -230,6 +244,71 @@ export function useThreeModelManager(profile: ModelAssetProfile): ThreeModelMana
     return buildPromise
   }
 
+  /**
+   * 按染色计划解析材质：plain 直接复用默认材质，dyed 按 cacheKey 构建/复用染色材质。
+   */
+  async function resolveMaterial(
+    itemId: number,
+    cacheKey: string,
+    geomData: GeometryData,
+    dyePlan: ModelDyePlan
+  ): Promise<Material | Material[]> {
+    if (dyePlan.mode === 'plain') return geomData.mergedMaterial
+
+    let coloredMat = coloredMaterialCache.get(cacheKey)
+    if (!coloredMat) {
+      coloredMat = await buildDyedMaterials(
+        geomData.plainMaterials,
+        geomData.meshBaseNames,
+        geomData.slotMeshIndices,
+        geomData.materialRegistry,
+        dyePlan.dyeMap,
+        `itemId=${itemId} cacheKey=${cacheKey}`
+      )
+      coloredMaterialCache.set(cacheKey, coloredMat)
+    }
+
+    return coloredMat
+  }
+
+  /**
+   * 获取家具的几何体与（染色）材质，不创建 InstancedMesh。
+   * 供场景导出等一次性消费者使用：cacheKey 与渲染层一致时直接复用已有染色材质，
+   * 否则临时构建且不写入 coloredMaterialCache（避免渲染层从未使用的变体常驻显存）。
+   */
+  async function resolveModelMesh(
+    itemId: number,
+    cacheKey: string,
+    dyePlan: ModelDyePlan
+  ): Promise<ModelMeshResources | null> {
+    const geomData = await ensureGeometryData(itemId)
+    if (!geomData) return null
+
+    if (dyePlan.mode === 'plain') {
+      return { geometry: geomData.geometry, material: geomData.mergedMaterial, ownedMaterials: [] }
+    }
+
+    const cachedMaterial = coloredMaterialCache.get(cacheKey)
+    if (cachedMaterial) {
+      return { geometry: geomData.geometry, material: cachedMaterial, ownedMaterials: [] }
+    }
+
+    const material = await buildDyedMaterials(
+      geomData.plainMaterials,
+      geomData.meshBaseNames,
+      geomData.slotMeshIndices,
+      geomData.materialRegistry,
+      dyePlan.dyeMap,
+      `itemId=${itemId} cacheKey=${cacheKey}`
+    )
+    // 未染色的槽位直接沿用共享的默认材质，不能由调用方释放
+    const plainMaterials = new Set<Material>(geomData.plainMaterials)
+    const ownedMaterials = (Array.isArray(material) ? material : [material]).filter(
+      (entry) => !plainMaterials.has(entry)
+    )
+    return { geometry: geomData.geometry, material, ownedMaterials }
+  }
+
   /**
    * 为指定家具创建 InstancedMesh。
    * 自动分配容量、构建/复用染色材质，并管理 InstancedMesh 实例。
@@ -256,25 +335,7 @@ export function useThreeModelManager(profile: ModelAssetProfile): ThreeModelMana
     const geomData = await ensureGeometryData(itemId)
     if (!geomData) return null
 
-    let material: Material | Material[]
-    if (dyePlan.mode === 'plain') {
-      material = geomData.mergedMaterial
-    } else {
-      let coloredMat = coloredMaterialCache.get(cacheKey)
-      if (!coloredMat) {
-        coloredMat = await buildDyedMaterials(
-          geomData.plainMaterials,
-          geomData.meshBaseNames,
-          geomData.slotMeshIndices,
-          geomData.materialRegistry,
-          dyePlan.dyeMap,
-          `itemId=${itemId} cacheKey=${cacheKey}`
-        )
-        coloredMaterialCache.set(cacheKey, coloredMat)
-      }
-
-      material = coloredMat
-    }
+    const material = await resolveMaterial(itemId, cacheKey, geomData, dyePlan)
 
     // 容量分配：缓冲 +16，预留 *1.5，最小 32，上限为代码内渲染硬顶
     const allocatedCapacity = Math.min(
@@ -304,6 +365,14 @@ export function useThreeModelManager(profile: ModelAssetProfile): ThreeModelMana
     return geometryCache.get(itemId)?.boundingBox ?? null
   }
 
+  /**
+   * 同步读取已加载的合并几何体（与 InstancedMesh 共享，调用方不得释放）；未加载时返回 `null`。
+   * 渲染层在 model 模式下会为其构建 BVH（`geometry.boundsTree`）。
+   */
+  function getModelGeometry(itemId: number): BufferGeometry | null {
+    return geometryCache.get(itemId)?.geometry ?? null
+  }
+
   /**
    * 预载指定的家具模型。
    * @param itemIds 家具 ID 列表
@@ -469,7 +538,9 @@ export function useThreeModelManager(profile: ModelAssetProfile): ThreeModelMana
 
   return {
     createInstancedMesh,
+    resolveModelMesh,
     getModelBoundingBox,
+    getModelGeometry,
     getUnloadedModels,
     preloadModels,
     disposeMesh,
@@ -0,0 +1,134 @@
+import { computed, shallowRef, watch, type Ref } from 'vue'
+import { Vector3, type Camera } from 'three'
+import { useUIStore } from '@/stores/uiStore'
+import { useThreeSnapPicker } from '@/composables/useThreeSnapPicker'
+import { invalidateScene } from '@/composables/useSceneInvalidate'
+import { getPolylineLength } from '@/lib/pathDistribution'
+import type { ScreenPoint } from '@/lib/interaction/screenGeometry'
+import type { MeasurePoint } from '@/types/editor'
+import type { InteractionAdapter } from './renderer/types'
+
+// 按下和抬起之间移动超过该距离视为拖拽（旋转视角），不添加路径点
+const CLICK_THRESHOLD_PX = 5
+
+/**
+ * 路径绘制叠加层数据（容器相对坐标，每次渲染后刷新）
+ */
+export interface PathDrawOverlayState {
+  cursor: ScreenPoint | null
+  // 已放置的路径点；最后一个点到 cursor 之间画预览线
+  points: ScreenPoint[]
+  length: number
+}
+
+const EMPTY_OVERLAY: PathDrawOverlayState = {
+  cursor: null,
+  points: [],
+  length: 0,
+}
+
+/**
+ * 3D 路径绘制（沿路径分布使用）
+ *
+ * 绘制期间左键点击依次添加路径点（吸附规则与测量工具一致），
+ * Enter 完成、Backspace 撤销上一个点、Esc 取消（见 useKeyboardShortcuts）。
+ * 路径点以世界坐标存放在 uiStore.drawnPathPoints 中。
+ */
+export function useThreePathDrawing(
+  cameraRef: Ref<Camera | null>,
+  interactionAdapter: Ref<InteractionAdapter>
+) {
+  const uiStore = useUIStore()
+  const { getRelativePosition, projectToScreen, resolveSnapPoint } = useThreeSnapPicker(
+    cameraRef,
+    interactionAdapter
+  )
+
+  const scratchPoint = new Vector3()
+
+  const hoverPoint = shallowRef<MeasurePoint | null>(null)
+  const pathOverlay = shallowRef<PathDrawOverlayState>(EMPTY_OVERLAY)
+  let pointerDownPos: ScreenPoint | null = null
+
+  const isDrawingPath = computed(() => uiStore.isDrawingPath)
+
+  function handlePathPointerDown(evt: PointerEvent) {
+    if (evt.button !== 0) return
+    const { x, y } = getRelativePosition(evt)
+    pointerDownPos = { x, y }
+  }
+
+  function handlePathPointerMove(evt: PointerEvent) {
+    hoverPoint.value = resolveSnapPoint(evt)
+  }
+
+  function handlePathPointerUp(evt: PointerEvent) {
+    const downPos = pointerDownPos
+    pointerDownPos = null
+    if (!downPos) return
+
+    const { x, y } = getRelativePosition(evt)
+    if (Math.hypot(x - downPos.x, y - downPos.y) > CLICK_THRESHOLD_PX) return
+
+    const point = resolveSnapPoint(evt)
+    if (!point) return
+
+    uiStore.drawnPathPoints = [...uiStore.drawnPathPoints, { ...point.position }]
+    hoverPoint.value = point
+  }
+
+  /**
+   * 按当前相机重新投影路径（在渲染回调中调用）
+   */
+  function refreshPathOverlay() {
+    const camera = cameraRef.value
+    const points = uiStore.drawnPathPoints
+    const hover = isDrawingPath.value ? hoverPoint.value : null
+
+    if (!camera || !isDrawingPath.value) {
+      if (pathOverlay.value !== EMPTY_OVERLAY) pathOverlay.value = EMPTY_OVERLAY
+      return
+    }
+
+    const screenPoints: ScreenPoint[] = []
+    for (const point of points) {
+      scratchPoint.set(point.x, point.y, point.z)
+      const screen = projectToScreen(scratchPoint, camera)
+      if (screen) screenPoints.push(screen)
+    }
+
+    let cursor: ScreenPoint | null = null
+    if (hover) {
+      scratchPoint.set(hover.position.x, hover.position.y, hover.position.z)
+      cursor = projectToScreen(scratchPoint, camera)
+    }
+
+    pathOverlay.value = {
+      cursor,
+      points: screenPoints,
+      length: getPolylineLength(points),
+    }
+  }
+
+  // 结束绘制时丢弃悬停点
+  watch(isDrawingPath, (drawing) => {
+    if (drawing) return
+    pointerDownPos = null
+    hoverPoint.value = null
+    invalidateScene()
+  })
+
+  // 路径变化后补渲一帧，由渲染回调刷新叠加层
+  watch([hoverPoint, () => uiStore.drawnPathPoints], () => {
+    invalidateScene()
+  })
+
+  return {
+    isDrawingPath,
+    pathOverlay,
+    handlePathPointerDown,
+    handlePathPointerMove,
+    handlePathPointerUp,
+    refreshPathOverlay,
+  }
+}
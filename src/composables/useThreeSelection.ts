@@ -1,5 +1,5 @@
 import { ref, markRaw, type Ref } from 'vue'
-import { Raycaster, Vector2, type Camera } from 'three'
+import { Plane, Raycaster, Vector2, Vector3, type Camera } from 'three'
 import {
   computeBounds,
   isPointInPolygon,
@@ -14,6 +14,9 @@ import { useEditorSelectionAction } from './useEditorSelectionAction'
 import { useEditorHistory } from './editor/useEditorHistory'
 import { useGameDataStore } from '@/stores/gameDataStore'
 import { useSettingsStore } from '@/stores/settingsStore'
+import { getThreeModelManager } from '@/composables/useThreeModelManager'
+import { findNearestItemFeature } from '@/lib/featureSnap'
+import { matrixTransform } from '@/lib/matrixTransform'
 import type { AppItem } from '@/types/editor'
 import type { InteractionAdapter } from './renderer/types'
 
@@ -37,8 +40,12 @@ export function useThreeSelection(
   const lassoPoints = ref<ScreenPoint[]>([])
   const mouseDownPos = ref<ScreenPoint | null>(null)
 
-  const { deselectItems, updateSelection, intersectSelection, clearSelection } =
-    useEditorSelection()
+  const {
+    updateSelection,
+    clearSelection,
+    applySelectionAction: applyActionToSelection,
+    isSelectable,
+  } = useEditorSelection()
 
   const { setGroupOrigin } = useEditorGroups()
 
@@ -134,6 +141,26 @@ export function useThreeSelection(
     const dy = pos.y - start.y
     const distance = Math.hypot(dx, dy)
 
+    // 绘制散布区域：拖出的框 / 套索作为区域，单击不做任何事
+    if (uiStore.isDrawingScatterRegion) {
+      if (isSelecting.value && distance >= 3) {
+        const polygon =
+          editorStore.selectionMode === 'lasso'
+            ? lasso
+            : rectInfo
+              ? [
+                  { x: rectInfo.x, y: rectInfo.y },
+                  { x: rectInfo.x + rectInfo.width, y: rectInfo.y },
+                  { x: rectInfo.x + rectInfo.width, y: rectInfo.y + rectInfo.height },
+                  { x: rectInfo.x, y: rectInfo.y + rectInfo.height },
+                ]
+              : []
+        completeScatterRegion(start, polygon)
+      }
+      cancelSelectionSession()
+      return
+    }
+
     // isSelecting 在 Move 时已经由 distance >= 3 触发，但 PointerUp
     // 可能在没有 Move 事件的情况下触发（例如极快的点击），
     // 此处再次检查 distance 作为兜底，确保微小移动不被当作框选提交。
@@ -148,6 +175,41 @@ export function useThreeSelection(
     cancelSelectionSession()
   }
 
+  function setRayFromScreenPoint(point: ScreenPoint, camera: Camera): boolean {
+    const rect = uiStore.editorContainerRect
+    if (rect.width <= 0 || rect.height <= 0) return false
+    pointerNdc.x = (point.x / rect.width) * 2 - 1
+    pointerNdc.y = -(point.y / rect.height) * 2 + 1
+    raycaster.setFromCamera(pointerNdc, camera)
+    return true
+  }
+
+  /**
+   * 把屏幕上的框 / 套索投影成散布区域
+   * 区域所在平面取拖拽起点下方命中的表面高度（未命中时为地面），各顶点投影到该水平面上。
+   */
+  function completeScatterRegion(start: ScreenPoint, polygon: ScreenPoint[]) {
+    const camera = cameraRef.value
+    if (!camera || polygon.length < 3 || !setRayFromScreenPoint(start, camera)) return
+
+    const hit = interactionAdapter.value.pick(raycaster)
+    const planeZ = hit ? raycaster.ray.at(hit.distance, new Vector3()).z : 0
+    const plane = new Plane(new Vector3(0, 0, 1), -planeZ)
+    const worldPoint = new Vector3()
+
+    const points: { x: number; y: number }[] = []
+    for (const point of polygon) {
+      if (!setRayFromScreenPoint(point, camera)) return
+      if (!raycaster.ray.intersectPlane(plane, worldPoint)) continue
+      // 世界坐标 → 数据空间（Y 翻转）
+      points.push({ x: worldPoint.x, y: -worldPoint.y })
+    }
+    if (points.length < 3) return
+
+    uiStore.setScatterRegion({ points, z: planeZ })
+    uiStore.setDrawingScatterRegion(false)
+  }
+
   function handleGroupOriginClick(evt: any) {
     const camera = cameraRef.value
     if (!camera) return
@@ -319,6 +381,50 @@ export function useThreeSelection(
     uiStore.setSelectingQuickAlignTarget(false)
   }
 
+  // 特征点吸附源点：取选中物品上离点击处最近的顶点 / 边中点 / 面中心；点击空白处恢复为轴点
+  function handleSnapSourceClick(evt: any) {
+    const camera = cameraRef.value
+    const scheme = editorStore.activeScheme
+    if (!camera || !scheme) return
+
+    const pos = getRelativePosition(evt)
+    if (!pos) return
+
+    const { rect, x, y } = pos
+    pointerNdc.x = (x / rect.width) * 2 - 1
+    pointerNdc.y = -(y / rect.height) * 2 + 1
+    raycaster.setFromCamera(pointerNdc, camera)
+
+    const selectedIds = scheme.selectedItemIds.value
+    const hit = interactionAdapter.value.pick(raycaster, (id) => selectedIds.has(id))
+    const item = hit ? editorStore.itemsMap.get(hit.internalId) : undefined
+    if (!hit || !item) {
+      uiStore.setFeatureSnapSource(null)
+      uiStore.setSelectingSnapSource(false)
+      return
+    }
+
+    const currentMode = settingsStore.settings.threeDisplayMode
+    const feature = findNearestItemFeature(
+      item,
+      raycaster.ray.at(hit.distance, new Vector3()),
+      currentMode,
+      gameDataStore,
+      currentMode === 'model' ? getThreeModelManager() : null
+    )
+    if (feature) {
+      // 记录在物品局部空间中，物品移动或旋转后仍落在同一位置
+      const itemMatrix = matrixTransform.buildWorldMatrixFromItem(item, false)
+      const localPoint = feature.point.clone().applyMatrix4(itemMatrix.invert())
+      uiStore.setFeatureSnapSource({
+        itemId: item.internalId,
+        localPoint: { x: localPoint.x, y: localPoint.y, z: localPoint.z },
+      })
+    }
+
+    uiStore.setSelectingSnapSource(false)
+  }
+
   function replaceItemGameIdInPlace(
     item: AppItem,
     newGameId: number,
@@ -426,6 +532,11 @@ export function useThreeSelection(
       return
     }
 
+    if (uiStore.isSelectingSnapSource) {
+      handleSnapSourceClick(evt)
+      return
+    }
+
     const camera = cameraRef.value
     if (!camera) return
 
@@ -437,7 +548,8 @@ export function useThreeSelection(
     pointerNdc.y = -(y / rect.height) * 2 + 1
     raycaster.setFromCamera(pointerNdc, camera)
 
-    const hit = interactionAdapter.value.pick(raycaster)
+    // 锁定的物品被穿透，点击会选中其后方的物品
+    const hit = interactionAdapter.value.pick(raycaster, isSelectable)
 
     if (hit?.kind === 'slide-path-point' && hit.pointIndex !== undefined) {
       updateSelection([hit.internalId], false, { skipGroupExpansion: true })
@@ -471,6 +583,7 @@ export function useThreeSelection(
       camera,
       viewport,
       ({ internalId, center }) => {
+        if (!isSelectable(internalId)) return
         if (center.x < rect.x || center.x > right || center.y < rect.y || center.y > bottom) return
 
         selectedIds.add(internalId)
@@ -497,6 +610,7 @@ export function useThreeSelection(
       camera,
       viewport,
       ({ internalId, center }) => {
+        if (!isSelectable(internalId)) return
         if (
           center.x < lassoBounds.minX ||
           center.x > lassoBounds.maxX ||
@@ -534,44 +648,7 @@ export function useThreeSelection(
       }
     }
 
-    switch (action) {
-      case 'add':
-        updateSelection(selectedIds, true, { skipGroupExpansion })
-        break
-      case 'subtract':
-        // 此处 selectedIds 已由上方的前置检查保证非空
-        deselectItems(selectedIds, { skipGroupExpansion })
-        break
-      case 'intersect':
-        intersectSelection(selectedIds, { skipGroupExpansion })
-        break
-      case 'toggle': {
-        const scheme = editorStore.activeScheme
-        const currentSelected = scheme?.selectedItemIds.value
-        const toSelect: string[] = []
-        const toDeselect: string[] = []
-
-        for (const id of selectedIds) {
-          if (currentSelected?.has(id)) {
-            toDeselect.push(id)
-          } else {
-            toSelect.push(id)
-          }
-        }
-
-        if (toDeselect.length > 0) {
-          deselectItems(toDeselect, { skipGroupExpansion })
-        }
-        if (toSelect.length > 0) {
-          updateSelection(toSelect, true, { skipGroupExpansion })
-        }
-        break
-      }
-      case 'new':
-      default:
-        updateSelection(selectedIds, false, { skipGroupExpansion })
-        break
-    }
+    applyActionToSelection(selectedIds, action, { skipGroupExpansion })
   }
 
   return {
@@ -0,0 +1,150 @@
+import { markRaw, type Ref } from 'vue'
+import { Plane, Raycaster, Vector2, Vector3, type Camera } from 'three'
+import { useEditorStore } from '@/stores/editorStore'
+import { useUIStore } from '@/stores/uiStore'
+import { useSettingsStore } from '@/stores/settingsStore'
+import { useGameDataStore } from '@/stores/gameDataStore'
+import { getThreeModelManager } from '@/composables/useThreeModelManager'
+import { isPointClipped } from '@/composables/renderer/shared/clipping'
+import { getOBBFromMatrix, getOBBFromMatrixAndModelBox } from '@/lib/collision'
+import { buildDisplayWorldMatrixFromItem } from '@/lib/scaleRenderCompensation'
+import { isSlidePathItem } from '@/lib/slidePath'
+import type { ScreenPoint } from '@/lib/interaction/screenGeometry'
+import type { AppItem, MeasurePoint } from '@/types/editor'
+import type { InteractionAdapter } from './renderer/types'
+
+// 吸附到中心点/角点的屏幕距离阈值（px）
+const SNAP_RADIUS_PX = 12
+
+const UNIT_BOX_SIZE = new Vector3(1, 1, 1)
+
+/**
+ * 3D 视图中的点拾取（测量、绘制路径等工具共用）
+ *
+ * 吸附优先级：物品中心 / OBB 角点（屏幕距离阈值内）> 射线命中的表面点 > 地面（Z = 0）。
+ * 返回的坐标均为世界空间。
+ */
+export function useThreeSnapPicker(
+  cameraRef: Ref<Camera | null>,
+  interactionAdapter: Ref<InteractionAdapter>
+) {
+  const editorStore = useEditorStore()
+  const uiStore = useUIStore()
+  const settingsStore = useSettingsStore()
+  const gameDataStore = useGameDataStore()
+
+  const raycaster = markRaw(new Raycaster())
+  const pointerNdc = markRaw(new Vector2())
+  const groundPlane = markRaw(new Plane(new Vector3(0, 0, 1), 0))
+  const scratchPoint = new Vector3()
+  const scratchNdc = new Vector3()
+  const scratchForward = new Vector3()
+  const scratchDelta = new Vector3()
+
+  function getRelativePosition(evt: PointerEvent) {
+    const rect = uiStore.editorContainerRect
+    return {
+      x: evt.clientX - rect.left,
+      y: evt.clientY - rect.top,
+      rect,
+    }
+  }
+
+  // 世界坐标 → 容器坐标；在相机背面或投影失败时返回 null
+  function projectToScreen(point: Vector3, camera: Camera): ScreenPoint | null {
+    camera.getWorldDirection(scratchForward)
+    scratchDelta.subVectors(point, camera.position)
+    if (scratchDelta.dot(scratchForward) <= 0) return null
+
+    scratchNdc.copy(point).project(camera)
+    if (!Number.isFinite(scratchNdc.x) || !Number.isFinite(scratchNdc.y)) return null
+
+    const rect = uiStore.editorContainerRect
+    return {
+      x: (scratchNdc.x + 1) * 0.5 * rect.width,
+      y: (-scratchNdc.y + 1) * 0.5 * rect.height,
+    }
+  }
+
+  // 物品的吸附候选点：第一个为 OBB 中心，其余为 8 个角点（世界坐标）
+  function getItemSnapCandidates(item: AppItem): Vector3[] {
+    if (isSlidePathItem(item)) return []
+
+    const currentMode = settingsStore.settings.threeDisplayMode
+    const modelManager = currentMode === 'model' ? getThreeModelManager() : null
+    const { worldMatrix, modelBox } = buildDisplayWorldMatrixFromItem(item, {
+      currentMode,
+      getFurnitureSize: (gameId) => gameDataStore.getFurnitureSize(gameId),
+      getModelConfig: (gameId) => gameDataStore.getFurnitureModelConfig(gameId),
+      getModelBoundingBox: modelManager
+        ? (gameId) => modelManager.getModelBoundingBox(gameId)
+        : undefined,
+    })
+
+    const obb = modelBox
+      ? getOBBFromMatrixAndModelBox(worldMatrix, modelBox)
+      : getOBBFromMatrix(worldMatrix, UNIT_BOX_SIZE)
+    return [obb.center, ...obb.getCorners()]
+  }
+
+  function toSnapPoint(
+    position: Vector3,
+    snap: MeasurePoint['snap'],
+    itemId?: string
+  ): MeasurePoint {
+    return { position: { x: position.x, y: position.y, z: position.z }, snap, itemId }
+  }
+
+  /**
+   * 计算指针位置对应的吸附点（吸附优先级：中心/角点 > 表面 > 地面）
+   */
+  function resolveSnapPoint(evt: PointerEvent): MeasurePoint | null {
+    const camera = cameraRef.value
+    if (!camera) return null
+
+    const { x, y, rect } = getRelativePosition(evt)
+    if (rect.width <= 0 || rect.height <= 0) return null
+
+    pointerNdc.x = (x / rect.width) * 2 - 1
+    pointerNdc.y = -(y / rect.height) * 2 + 1
+    raycaster.setFromCamera(pointerNdc, camera)
+
+    // pick 内部使用 BVH 加速，并已跳过被剖切掉的交点
+    const hit = interactionAdapter.value.pick(raycaster)
+    if (hit) {
+      const item = editorStore.itemsMap.get(hit.internalId)
+      if (item) {
+        const candidates = getItemSnapCandidates(item)
+        let bestIndex = -1
+        let bestDistance = SNAP_RADIUS_PX
+        candidates.forEach((candidate, index) => {
+          if (isPointClipped(candidate)) return
+          const screen = projectToScreen(candidate, camera)
+          if (!screen) return
+          const distance = Math.hypot(screen.x - x, screen.y - y)
+          if (distance <= bestDistance) {
+            bestDistance = distance
+            bestIndex = index
+          }
+        })
+
+        const best = candidates[bestIndex]
+        if (best) {
+          return toSnapPoint(best, bestIndex === 0 ? 'center' : 'corner', item.internalId)
+        }
+      }
+
+      raycaster.ray.at(hit.distance, scratchPoint)
+      return toSnapPoint(scratchPoint, 'surface', item?.internalId)
+    }
+
+    const ground = raycaster.ray.intersectPlane(groundPlane, scratchPoint)
+    return ground ? toSnapPoint(ground, 'ground') : null
+  }
+
+  return {
+    getRelativePosition,
+    projectToScreen,
+    resolveSnapPoint,
+  }
+}
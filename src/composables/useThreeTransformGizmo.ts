@@ -18,11 +18,25 @@ import { useEditorHistory } from '@/composables/editor/useEditorHistory'
 import type { AppItem } from '@/types/editor'
 import { createGizmoAppearanceManager } from '@/composables/transformGizmo/gizmoAppearance'
 import { createGizmoSnapEngine } from '@/composables/transformGizmo/gizmoSnapEngine'
+import { createGizmoFeatureSnap } from '@/composables/transformGizmo/gizmoFeatureSnap'
 import {
   createGizmoTouchTranslateController,
   type PatchedTransformControls,
 } from '@/composables/transformGizmo/gizmoTouchTranslate'
 import { getThreeModelManager } from '@/composables/useThreeModelManager'
+import type { InteractionAdapter } from '@/composables/renderer/types'
+
+// 缩放 Gizmo 拖过中心时 TransformControls 会给出负值，倍数下限
+const MIN_GIZMO_SCALE_FACTOR = 0.01
+
+interface ScaleTransformUpdate {
+  id: string
+  x: number
+  y: number
+  z: number
+  rotation: { x: number; y: number; z: number }
+  scale: AppItem['extra']['Scale']
+}
 
 interface SlidePathGizmoBridge {
   updateItemWorldMatrices: (idToWorldMatrixMap: Map<string, Matrix4>) => void
@@ -40,7 +54,8 @@ export function useThreeTransformGizmo(
   orbitControlsRef?: Ref<any | null>,
   activeCameraRef?: Ref<any | null>,
   transformRef?: Ref<any | null>,
-  slidePathBridge?: SlidePathGizmoBridge
+  slidePathBridge?: SlidePathGizmoBridge,
+  interactionAdapter?: Ref<InteractionAdapter>
 ) {
   const gizmoStartMatrix = markRaw(new Matrix4())
   const itemStartWorldMatrices = ref(new Map<string, Matrix4>())
@@ -54,6 +69,13 @@ export function useThreeTransformGizmo(
   const lastRotationMatrices = ref<Map<string, Matrix4> | null>(null)
   const lastTranslateMatrices = ref<Map<string, Matrix4> | null>(null)
 
+  const isScaleMode = ref(false)
+  // 缩放拖拽的最新预览结果，mouseUp 时直接提交
+  let lastScaleResult: {
+    updates: ScaleTransformUpdate[]
+    worldMatrices: Map<string, Matrix4>
+  } | null = null
+
   const altDragCopyPending = ref(false)
   const altDragCopyExecuted = ref(false)
   const gizmoStartPosition = markRaw(new Vector3())
@@ -78,7 +100,7 @@ export function useThreeTransformGizmo(
   const { recordTransaction } = useEditorHistory()
   const { pasteItems, buildClipboardDataFromSelection } = useClipboard()
 
-  const { Alt, Control, Meta } = useMagicKeys()
+  const { Alt, Control, Meta, Shift } = useMagicKeys()
 
   function isSnapTemporarilyDisabled(): boolean {
     return (Control?.value ?? false) || (Meta?.value ?? false)
@@ -107,10 +129,44 @@ export function useThreeTransformGizmo(
     settingsStore,
     pivotRef,
     transformRef,
+    itemStartWorldMatrices,
     getEffectiveGizmoRotation,
     isSnapTemporarilyDisabled,
   })
 
+  // 按住特征点吸附修饰键（settings.inputBindings.transform.featureSnap）拖拽时
+  // 吸附到其他物品的顶点 / 边中点 / 面中心
+  const featureSnap = createGizmoFeatureSnap({
+    editorStore,
+    gameDataStore,
+    settingsStore,
+    uiStore,
+    pivotRef,
+    activeCameraRef,
+    interactionAdapter,
+    itemStartWorldMatrices,
+    resolveEnabledAxes: snapEngine.resolveEnabledAxes,
+    resolveGizmoWorldAxes: snapEngine.resolveGizmoWorldAxes,
+    isFeatureSnapActive: () => {
+      const modifier = settingsStore.settings.inputBindings.transform.featureSnap
+      if (modifier === 'shift') return Shift?.value ?? false
+      if (modifier === 'alt') return Alt?.value ?? false
+      return false
+    },
+  })
+
+  // 平移吸附：特征点吸附生效时跳过碰撞吸附和对齐参考线
+  function applyTranslateSnap(
+    newWorldMatrices: Map<string, Matrix4>,
+    pointer?: { clientX: number; clientY: number } | null
+  ): Map<string, Matrix4> {
+    const featureSnapped = featureSnap.applyFeatureSnap(newWorldMatrices, pointer)
+    if (!featureSnapped) return snapEngine.applyCollisionSnap(newWorldMatrices)
+
+    snapEngine.clearAlignmentGuides()
+    return featureSnapped
+  }
+
   const touchTranslateController = createGizmoTouchTranslateController({
     editorStore,
     settingsStore,
@@ -247,18 +303,29 @@ export function useThreeTransformGizmo(
     return Math.atan2(localPos.y, localPos.x)
   }
 
+  // 选区中是否有未锁定的物品（全部锁定时不显示 Gizmo）
+  function hasTransformableSelection(): boolean {
+    const scheme = editorStore.activeScheme
+    if (!scheme) return false
+
+    const lockedIds = scheme.lockedItemIds.value
+    for (const id of scheme.selectedItemIds.value) {
+      if (!lockedIds.has(id)) return true
+    }
+    return false
+  }
+
   const shouldShowGizmo = computed(
     () =>
       // 飞花道节点激活时也要显示 Gizmo，即使没有常规选中物品
-      (isSlidePathPointTransformActive() ||
-        (editorStore.activeScheme?.selectedItemIds.value.size ?? 0) > 0) &&
+      (isSlidePathPointTransformActive() || hasTransformableSelection()) &&
       editorStore.gizmoMode !== null
   )
 
   const transformSpace = computed<'local' | 'world'>(() => 'local')
 
   // 选区变化或方案切换时，如果当前编辑的节点不再有效则自动清除
-  // 飞花道节点只支持 translate，切换到 rotate 时强制回退
+  // 飞花道节点只支持 translate，切换到 rotate / scale 时强制回退
   watch(
     [
       () => uiStore.activeSlidePathPoint,
@@ -275,7 +342,7 @@ export function useThreeTransformGizmo(
 
       if (!isActiveItemSelected || !getActiveSlidePathPointTarget()) {
         uiStore.setActiveSlidePathPoint(null)
-      } else if (editorStore.gizmoMode === 'rotate') {
+      } else if (editorStore.gizmoMode === 'rotate' || editorStore.gizmoMode === 'scale') {
         editorStore.gizmoMode = 'translate'
       }
     },
@@ -291,8 +358,8 @@ export function useThreeTransformGizmo(
     const activeSlidePathPoint = getActiveSlidePathPointTarget()
     const pivot = pivotRef.value
     if (activeSlidePathPoint && pivot) {
-      // 节点编辑只支持 translate，阻止切换到 rotate 模式
-      if (editorStore.gizmoMode === 'rotate') {
+      // 节点编辑只支持 translate，阻止切换到 rotate / scale 模式
+      if (editorStore.gizmoMode === 'rotate' || editorStore.gizmoMode === 'scale') {
         editorStore.gizmoMode = 'translate'
       }
       pivot.position.copy(activeSlidePathPoint.worldPoint)
@@ -382,6 +449,7 @@ export function useThreeTransformGizmo(
       altDragCopyExecuted.value = false
       isRotateMode.value = false
       rotateAxis.value = null
+      isScaleMode.value = false
 
       pivot.updateMatrixWorld(true)
       gizmoStartMatrix.copy(pivot.matrixWorld)
@@ -400,6 +468,8 @@ export function useThreeTransformGizmo(
       altDragCopyExecuted.value = false
     }
 
+    // 缩放倍数以 pivot.scale 相对 1 计算，拖拽开始前复位
+    pivot.scale.set(1, 1, 1)
     pivot.updateMatrixWorld(true)
     gizmoStartMatrix.copy(pivot.matrixWorld)
     gizmoStartPosition.setFromMatrixPosition(pivot.matrixWorld)
@@ -421,6 +491,7 @@ export function useThreeTransformGizmo(
       isRotateMode.value = false
       rotateAxis.value = null
     }
+    isScaleMode.value = editorStore.gizmoMode === 'scale'
 
     if (scheme) {
       itemStartWorldMatrices.value = buildItemWorldMatricesMap(scheme, scheme.selectedItemIds.value)
@@ -443,10 +514,15 @@ export function useThreeTransformGizmo(
     hasInitializedRotation.value = false
     lastRotationMatrices.value = null
     lastTranslateMatrices.value = null
+    isScaleMode.value = false
+    lastScaleResult = null
+    uiStore.isScaleLimitHit = false
+    pivotRef.value?.scale.set(1, 1, 1)
     cachedSlidePathPoint = null
 
     slidePathBridge?.clearPreview()
     snapEngine.clearCollisionData()
+    featureSnap.clearFeatureSnap()
     setOrbitControlsEnabled(true)
   }
 
@@ -480,6 +556,108 @@ export function useThreeTransformGizmo(
     return newWorldMatrices
   }
 
+  /**
+   * 根据 pivot.scale 计算缩放结果
+   *
+   * - 单轴手柄：每件物品沿与该 Gizmo 轴最接近的局部轴缩放；中心手柄为等比缩放
+   * - 启用限制检测时，缩放值截断到各家具的 scaleRange（limitHit 标记是否发生截断）
+   * - scaleAroundPivot 开启时，物品位置相对轴点按同样的倍数缩放（不受截断影响）
+   */
+  function calculateScaleTransforms(): {
+    updates: ScaleTransformUpdate[]
+    worldMatrices: Map<string, Matrix4>
+    limitHit: boolean
+  } | null {
+    const pivot = pivotRef.value
+    if (!pivot) return null
+
+    const factors = [
+      Math.max(pivot.scale.x, MIN_GIZMO_SCALE_FACTOR),
+      Math.max(pivot.scale.y, MIN_GIZMO_SCALE_FACTOR),
+      Math.max(pivot.scale.z, MIN_GIZMO_SCALE_FACTOR),
+    ] as const
+
+    const gizmoRotation = new Matrix4().extractRotation(gizmoStartMatrix)
+    const gizmoAxes = [new Vector3(), new Vector3(), new Vector3()] as const
+    gizmoRotation.extractBasis(gizmoAxes[0], gizmoAxes[1], gizmoAxes[2])
+
+    // 轴点坐标系下的缩放：R × S × R⁻¹
+    const positionScaleMatrix = gizmoRotation
+      .clone()
+      .multiply(new Matrix4().makeScale(factors[0], factors[1], factors[2]))
+      .multiply(gizmoRotation.clone().invert())
+
+    const getAxisFactor = (itemAxis: Vector3) => {
+      let bestIndex = 0
+      let bestDot = -1
+      gizmoAxes.forEach((gizmoAxis, index) => {
+        const dot = Math.abs(itemAxis.dot(gizmoAxis))
+        if (dot > bestDot) {
+          bestDot = dot
+          bestIndex = index
+        }
+      })
+      return factors[bestIndex]!
+    }
+
+    const limitDetection = settingsStore.settings.enableLimitDetection
+    const scaleAroundPivot = settingsStore.settings.scaleAroundPivot
+    const itemAxes = [new Vector3(), new Vector3(), new Vector3()] as const
+    const updates: ScaleTransformUpdate[] = []
+    const worldMatrices = new Map<string, Matrix4>()
+    let limitHit = false
+
+    for (const [id, startMatrix] of itemStartWorldMatrices.value.entries()) {
+      const item = editorStore.itemsMap.get(id)
+      if (!item) continue
+
+      startMatrix.extractBasis(itemAxes[0], itemAxes[1], itemAxes[2])
+      itemAxes.forEach((axis) => axis.normalize())
+
+      // 局部 X ↔ Scale.Y，局部 Y ↔ Scale.X（见 matrixTransform）
+      const startScale = item.extra.Scale
+      const rawScale = {
+        X: startScale.X * getAxisFactor(itemAxes[1]),
+        Y: startScale.Y * getAxisFactor(itemAxes[0]),
+        Z: startScale.Z * getAxisFactor(itemAxes[2]),
+      }
+
+      let scale = rawScale
+      const scaleRange = limitDetection
+        ? gameDataStore.getFurniture(item.gameId)?.scaleRange
+        : undefined
+      if (scaleRange) {
+        const [min, max] = scaleRange
+        const clamp = (value: number) => Math.max(min, Math.min(max, value))
+        scale = { X: clamp(rawScale.X), Y: clamp(rawScale.Y), Z: clamp(rawScale.Z) }
+        limitHit ||= scale.X !== rawScale.X || scale.Y !== rawScale.Y || scale.Z !== rawScale.Z
+      }
+
+      let position = { x: item.x, y: item.y, z: item.z }
+      if (scaleAroundPivot) {
+        const worldPosition = new Vector3()
+          .setFromMatrixPosition(startMatrix)
+          .sub(gizmoStartPosition)
+          .applyMatrix4(positionScaleMatrix)
+          .add(gizmoStartPosition)
+        position = { x: worldPosition.x, y: -worldPosition.y, z: worldPosition.z }
+      }
+
+      const nextItem: AppItem = {
+        ...item,
+        ...position,
+        extra: { ...item.extra, Scale: scale },
+      }
+      worldMatrices.set(
+        id,
+        matrixTransform.buildWorldMatrixFromItem(nextItem, shouldUseModelScale(item))
+      )
+      updates.push({ id, ...position, rotation: item.rotation, scale })
+    }
+
+    return { updates, worldMatrices, limitHit }
+  }
+
   function buildDisplayWorldMatricesMap(
     rawWorldMatrices: Map<string, Matrix4>
   ): Map<string, Matrix4> {
@@ -639,6 +817,21 @@ export function useThreeTransformGizmo(
       return
     }
 
+    if (isScaleMode.value) {
+      const result = calculateScaleTransforms()
+      if (!result) return
+
+      if (!hasStartedTransform.value) {
+        hasStartedTransform.value = true
+      }
+
+      lastScaleResult = result
+      uiStore.isScaleLimitHit = result.limitHit
+      updateSelectedInstancesMatrix(buildDisplayWorldMatricesMap(result.worldMatrices), true)
+      slidePathBridge?.updateItemWorldMatrices(result.worldMatrices)
+      return
+    }
+
     if (touchTranslateController.tryApply(event, gizmoStartPosition)) {
       return
     }
@@ -676,7 +869,7 @@ export function useThreeTransformGizmo(
     let newWorldMatrices = calculateCurrentTransforms()
     if (!newWorldMatrices) return
 
-    newWorldMatrices = snapEngine.applyCollisionSnap(newWorldMatrices)
+    newWorldMatrices = applyTranslateSnap(newWorldMatrices, uiStore.editorPointerClient)
 
     if (!hasStartedTransform.value) {
       hasStartedTransform.value = true
@@ -739,6 +932,20 @@ export function useThreeTransformGizmo(
       return
     }
 
+    if (isScaleMode.value) {
+      if (lastScaleResult && lastScaleResult.updates.length > 0) {
+        updateSelectedInstancesMatrix(
+          buildDisplayWorldMatricesMap(lastScaleResult.worldMatrices),
+          false
+        )
+        slidePathBridge?.updateItemWorldMatrices(lastScaleResult.worldMatrices)
+        commitBatchedTransform(lastScaleResult.updates, { recordHistory: true })
+      }
+
+      endTransform()
+      return
+    }
+
     let newWorldMatrices: Map<string, Matrix4> | null = null
     if (isRotateMode.value && lastRotationMatrices.value) {
       newWorldMatrices = lastRotationMatrices.value
@@ -749,7 +956,7 @@ export function useThreeTransformGizmo(
     }
 
     if (newWorldMatrices) {
-      newWorldMatrices = snapEngine.applyCollisionSnap(newWorldMatrices)
+      newWorldMatrices = applyTranslateSnap(newWorldMatrices)
       updateSelectedInstancesMatrix(buildDisplayWorldMatricesMap(newWorldMatrices), false)
       slidePathBridge?.updateItemWorldMatrices(newWorldMatrices)
 
@@ -770,9 +977,11 @@ export function useThreeTransformGizmo(
   function buildItemWorldMatricesMap(scheme: any, selectedIds: Set<string>): Map<string, Matrix4> {
     const map = new Map<string, Matrix4>()
     const itemMap = new Map<string, AppItem>()
+    // 锁定的物品即使被选中也不参与 Gizmo 变换
+    const lockedIds: Set<string> = scheme.lockedItemIds.value
 
     scheme.items.value.forEach((item: AppItem) => {
-      if (selectedIds.has(item.internalId)) {
+      if (selectedIds.has(item.internalId) && !lockedIds.has(item.internalId)) {
         itemMap.set(item.internalId, item)
       }
     })
@@ -780,11 +989,7 @@ export function useThreeTransformGizmo(
     for (const id of selectedIds) {
       const item = itemMap.get(id)
       if (item) {
-        const currentMode = settingsStore.settings.threeDisplayMode
-        const modelConfig = gameDataStore.getFurnitureModelConfig(item.gameId)
-        const hasValidModel = modelConfig && modelConfig.meshes && modelConfig.meshes.length > 0
-        const useModelScale = !!(currentMode === 'model' && hasValidModel)
-        const matrix = matrixTransform.buildWorldMatrixFromItem(item, useModelScale)
+        const matrix = matrixTransform.buildWorldMatrixFromItem(item, shouldUseModelScale(item))
         map.set(id, matrix)
       }
     }
@@ -792,6 +997,13 @@ export function useThreeTransformGizmo(
     return map
   }
 
+  function shouldUseModelScale(item: AppItem): boolean {
+    const currentMode = settingsStore.settings.threeDisplayMode
+    const modelConfig = gameDataStore.getFurnitureModelConfig(item.gameId)
+    const hasValidModel = modelConfig && modelConfig.meshes && modelConfig.meshes.length > 0
+    return !!(currentMode === 'model' && hasValidModel)
+  }
+
   onUnmounted(() => {
     touchTranslateController.cleanup()
     snapEngine.clearCollisionData()
@@ -806,5 +1018,7 @@ export function useThreeTransformGizmo(
     handleGizmoMouseUp,
     handleGizmoChange,
     setupGizmoAppearance,
+    alignmentGuides: snapEngine.alignmentGuides,
+    featureSnapTarget: featureSnap.featureSnapTarget,
   }
 }
@@ -8,6 +8,8 @@ import { useGameDataStore } from '../stores/gameDataStore'
 import { useSettingsStore } from '../stores/settingsStore'
 import { useValidationStore } from '../stores/validationStore'
 import { workerApi } from '../workers/client'
+import { pruneSelectionSets } from '../lib/selectionSets'
+import { isValidationEnabled } from '../lib/validationRules'
 import type { HomeScheme } from '../types/editor'
 import type { WorkspaceSnapshot, HomeSchemeSnapshot } from '../types/persistence'
 
@@ -72,6 +74,11 @@ export function useWorkspaceWorker() {
         currentViewConfig: toRaw(scheme.currentViewConfig.value),
         viewState: toRaw(scheme.viewState.value),
         groupOrigins: toRaw(scheme.groupOrigins.value),
+        selectionSets: pruneSelectionSets(toRaw(scheme.selectionSets.value), scheme.items.value),
+        hiddenItemIds: toRaw(scheme.hiddenItemIds.value),
+        lockedItemIds: toRaw(scheme.lockedItemIds.value),
+        levels: toRaw(scheme.levels.value),
+        dimensions: toRaw(scheme.dimensions.value),
       }
     }
 
@@ -105,6 +112,9 @@ export function useWorkspaceWorker() {
       const result = await workerApi.updateSettings({
         enableDuplicateDetection: s.enableDuplicateDetection,
         enableLimitDetection: s.enableLimitDetection,
+        enableOverlapDetection: s.enableOverlapDetection,
+        overlapDetectionRatio: s.overlapDetectionRatio,
+        validationRuleToggles: { ...toRaw(s.validationRuleToggles) },
         enableAutoSave: s.enableAutoSave,
       })
 
@@ -164,10 +174,7 @@ export function useWorkspaceWorker() {
 
   // 计算属性：Worker 是否应该处于活跃状态
   const isWorkerActive = computed(
-    () =>
-      settingsStore.settings.enableAutoSave ||
-      settingsStore.settings.enableDuplicateDetection ||
-      settingsStore.settings.enableLimitDetection
+    () => settingsStore.settings.enableAutoSave || isValidationEnabled(settingsStore.settings)
   )
 
   const isWorkerInitialized = ref(false)
@@ -230,7 +237,15 @@ export function useWorkspaceWorker() {
 
     // 2b. 内容性变化 (Scene, Selection) -> 延迟保存 (Worker 端保持 2s 节流)
     const unwatchContent = watch(
-      [() => editorStore.sceneVersion, () => editorStore.selectionVersion],
+      [
+        () => editorStore.sceneVersion,
+        () => editorStore.selectionVersion,
+        () => editorStore.activeScheme?.selectionSets.value,
+        () => editorStore.activeScheme?.hiddenItemIds.value,
+        () => editorStore.activeScheme?.lockedItemIds.value,
+        () => editorStore.activeScheme?.levels.value,
+        () => editorStore.activeScheme?.dimensions.value,
+      ],
       () => {
         debouncedSyncWorkspace(false)
       }
@@ -299,6 +314,12 @@ export function useWorkspaceWorker() {
         groupOrigins: shallowRef(
           s.groupOrigins instanceof Map ? s.groupOrigins : new Map(s.groupOrigins || [])
         ), // 向后兼容：支持旧版本的数组格式
+        selectionSets: shallowRef(s.selectionSets ?? []),
+        hiddenItemIds: shallowRef(s.hiddenItemIds ?? new Set()),
+        lockedItemIds: shallowRef(s.lockedItemIds ?? new Set()),
+        levels: shallowRef(s.levels ?? []),
+        activeLevelId: ref(null),
+        dimensions: shallowRef(s.dimensions ?? []),
         history: shallowRef(undefined),
       }
     })
@@ -362,6 +383,11 @@ export function useWorkspaceWorker() {
       currentViewConfig: toRaw(scheme.currentViewConfig.value),
       viewState: toRaw(scheme.viewState.value),
       groupOrigins: toRaw(scheme.groupOrigins.value),
+      selectionSets: pruneSelectionSets(toRaw(scheme.selectionSets.value), scheme.items.value),
+      hiddenItemIds: toRaw(scheme.hiddenItemIds.value),
+      lockedItemIds: toRaw(scheme.lockedItemIds.value),
+      levels: toRaw(scheme.levels.value),
+      dimensions: toRaw(scheme.dimensions.value),
     }))
 
     return {
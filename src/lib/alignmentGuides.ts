@@ -0,0 +1,312 @@
+import { Vector3 } from 'three'
+
+/**
+ * 智能对齐参考线（平移 Gizmo 拖拽时使用）
+ *
+ * 在给定的三个正交轴上比较选区与周围物品的投影区间：
+ * - 边缘 / 中心对齐：选区的 min / center / max 与候选物品的 min / center / max 对齐
+ * - 等间距：选区与左右邻居间距相等，或与邻居之间已有的间距相等
+ *
+ * 所有坐标均为世界空间，不依赖 store，便于复用。
+ */
+
+export type GuideAxis = 'x' | 'y' | 'z'
+
+const GUIDE_AXES: GuideAxis[] = ['x', 'y', 'z']
+
+// 判定「已对齐 / 间距相等」的容差（单位）
+const ALIGN_EPSILON = 0.5
+
+export interface AlignmentGuide {
+  // align：对齐虚线；spacing：间距标注线
+  kind: 'align' | 'spacing'
+  start: Vector3
+  end: Vector3
+  // 标注的距离；null 表示不显示标注
+  distance: number | null
+}
+
+export interface AlignmentGuideCandidate {
+  corners: Vector3[]
+  center: Vector3
+}
+
+export interface AlignmentSnapResult {
+  offset: Vector3
+  guides: AlignmentGuide[]
+}
+
+interface Interval {
+  min: number
+  max: number
+  center: number
+}
+
+interface AlignmentMatch {
+  delta: number
+  // 对齐后的坐标值（沿轴）
+  value: number
+  // 选区特征：0 = min，1 = center，2 = max
+  feature: number
+  index: number
+}
+
+interface SpacingMatch {
+  delta: number
+  // 对齐后需要标注的间距区间（沿轴）
+  gaps: [number, number][]
+}
+
+function projectInterval(corners: Vector3[], axis: Vector3): Interval {
+  let min = Infinity
+  let max = -Infinity
+  for (const corner of corners) {
+    const value = corner.dot(axis)
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+  return { min, max, center: (min + max) / 2 }
+}
+
+function shiftInterval(interval: Interval, delta: number): Interval {
+  return {
+    min: interval.min + delta,
+    max: interval.max + delta,
+    center: interval.center + delta,
+  }
+}
+
+function findAlignmentMatches(
+  selection: Interval,
+  candidates: Interval[],
+  maxDelta: number
+): AlignmentMatch[] {
+  const matches: AlignmentMatch[] = []
+  const features = [selection.min, selection.center, selection.max]
+
+  candidates.forEach((candidate, index) => {
+    for (const target of [candidate.min, candidate.center, candidate.max]) {
+      features.forEach((value, feature) => {
+        const delta = target - value
+        if (Math.abs(delta) <= maxDelta) {
+          matches.push({ delta, value: target, feature, index })
+        }
+      })
+    }
+  })
+
+  return matches
+}
+
+function findSpacingMatches(
+  selection: Interval,
+  row: Interval[],
+  maxDelta: number
+): SpacingMatch[] {
+  const matches: SpacingMatch[] = []
+
+  // 最近的左右邻居
+  let left: Interval | null = null
+  let right: Interval | null = null
+  for (const item of row) {
+    if (item.max <= selection.min + ALIGN_EPSILON && (!left || item.max > left.max)) left = item
+    if (item.min >= selection.max - ALIGN_EPSILON && (!right || item.min < right.min)) right = item
+  }
+
+  const gapLeft = left ? selection.min - left.max : 0
+  const gapRight = right ? right.min - selection.max : 0
+
+  // 位于左右邻居正中
+  if (left && right) {
+    const delta = (gapRight - gapLeft) / 2
+    if (Math.abs(delta) <= maxDelta && gapLeft + delta > ALIGN_EPSILON) {
+      matches.push({
+        delta,
+        gaps: [
+          [left.max, selection.min + delta],
+          [selection.max + delta, right.min],
+        ],
+      })
+    }
+  }
+
+  // 延续左侧已有的间距
+  if (left) {
+    let outer: Interval | null = null
+    for (const item of row) {
+      if (item === left) continue
+      if (item.max <= left.min + ALIGN_EPSILON && (!outer || item.max > outer.max)) outer = item
+    }
+    const gap = outer ? left.min - outer.max : 0
+    const delta = gap - gapLeft
+    if (outer && gap > ALIGN_EPSILON && Math.abs(delta) <= maxDelta) {
+      matches.push({
+        delta,
+        gaps: [
+          [outer.max, left.min],
+          [left.max, selection.min + delta],
+        ],
+      })
+    }
+  }
+
+  // 延续右侧已有的间距
+  if (right) {
+    let outer: Interval | null = null
+    for (const item of row) {
+      if (item === right) continue
+      if (item.min >= right.max - ALIGN_EPSILON && (!outer || item.min < outer.min)) outer = item
+    }
+    const gap = outer ? outer.min - right.max : 0
+    const delta = gapRight - gap
+    if (outer && gap > ALIGN_EPSILON && Math.abs(delta) <= maxDelta) {
+      matches.push({
+        delta,
+        gaps: [
+          [selection.max + delta, right.min],
+          [right.max, outer.min],
+        ],
+      })
+    }
+  }
+
+  return matches
+}
+
+function isOverlapping(a: Interval, b: Interval): boolean {
+  return a.min < b.max && a.max > b.min
+}
+
+// 沿 axis 把 base 的坐标替换为 value
+function pointAtAxisValue(base: Vector3, axis: Vector3, value: number): Vector3 {
+  return base.clone().addScaledVector(axis, value - base.dot(axis))
+}
+
+/**
+ * 计算对齐吸附偏移和参考线
+ *
+ * @param selectionCorners 选区 OBB 角点（世界坐标，已包含之前的吸附偏移）
+ * @param candidates 附近的静态物品
+ * @param axes 比较所用的三个正交轴（通常为 Gizmo 轴）
+ * @param snapAxes 允许吸附的轴
+ * @param guideAxes 显示参考线的轴
+ * @param threshold 吸附距离
+ */
+export function computeAlignmentSnap(
+  selectionCorners: Vector3[],
+  candidates: AlignmentGuideCandidate[],
+  axes: Record<GuideAxis, Vector3>,
+  snapAxes: Record<GuideAxis, boolean>,
+  guideAxes: Record<GuideAxis, boolean>,
+  threshold: number
+): AlignmentSnapResult {
+  const offset = new Vector3()
+  const guides: AlignmentGuide[] = []
+  if (selectionCorners.length === 0 || candidates.length === 0) return { offset, guides }
+
+  const candidateIntervals = candidates.map((candidate) => ({
+    x: projectInterval(candidate.corners, axes.x),
+    y: projectInterval(candidate.corners, axes.y),
+    z: projectInterval(candidate.corners, axes.z),
+  }))
+  const selectionIntervals = {
+    x: projectInterval(selectionCorners, axes.x),
+    y: projectInterval(selectionCorners, axes.y),
+    z: projectInterval(selectionCorners, axes.z),
+  }
+
+  // 与选区在另外两个轴上都有重叠的物品视为同一排
+  const getRow = (axis: GuideAxis) =>
+    candidateIntervals
+      .filter((intervals) =>
+        GUIDE_AXES.every(
+          (other) => other === axis || isOverlapping(intervals[other], selectionIntervals[other])
+        )
+      )
+      .map((intervals) => intervals[axis])
+
+  // 1. 吸附：每个轴取偏移最小的对齐或等间距
+  for (const axis of GUIDE_AXES) {
+    if (!snapAxes[axis]) continue
+
+    const selection = selectionIntervals[axis]
+    const deltas = [
+      ...findAlignmentMatches(
+        selection,
+        candidateIntervals.map((intervals) => intervals[axis]),
+        threshold
+      ),
+      ...findSpacingMatches(selection, getRow(axis), threshold),
+    ].map((match) => match.delta)
+    if (deltas.length === 0) continue
+
+    const delta = deltas.reduce((best, value) => (Math.abs(value) < Math.abs(best) ? value : best))
+    offset.addScaledVector(axes[axis], delta)
+    selectionIntervals[axis] = shiftInterval(selection, delta)
+  }
+
+  // 2. 参考线：按吸附后的位置收集所有已对齐的关系
+  const snappedCorners = selectionCorners.map((corner) => corner.clone().add(offset))
+  const selectionCenter = new Vector3()
+  for (const corner of snappedCorners) selectionCenter.add(corner)
+  selectionCenter.divideScalar(snappedCorners.length)
+
+  for (const axis of GUIDE_AXES) {
+    if (!guideAxes[axis]) continue
+
+    const axisVector = axes[axis]
+    const selection = selectionIntervals[axis]
+
+    // 每个选区特征只连到最近的一个物品
+    const nearestByFeature = new Map<number, { match: AlignmentMatch; distance: number }>()
+    const matches = findAlignmentMatches(
+      selection,
+      candidateIntervals.map((intervals) => intervals[axis]),
+      ALIGN_EPSILON
+    )
+    for (const match of matches) {
+      const delta = candidates[match.index]!.center.clone().sub(selectionCenter)
+      const distance = delta.addScaledVector(axisVector, -delta.dot(axisVector)).length()
+      const current = nearestByFeature.get(match.feature)
+      if (!current || distance < current.distance) {
+        nearestByFeature.set(match.feature, { match, distance })
+      }
+    }
+
+    for (const { match } of nearestByFeature.values()) {
+      const candidate = candidates[match.index]!
+      const from = pointAtAxisValue(selectionCenter, axisVector, match.value)
+      const to = pointAtAxisValue(candidate.center, axisVector, match.value)
+      const direction = to.clone().sub(from)
+      if (direction.lengthSq() < 1e-6) continue
+      direction.normalize()
+
+      // 参考线从选区近端延伸到对方远端
+      const selectionRange = projectInterval(snappedCorners, direction)
+      const candidateRange = projectInterval(candidate.corners, direction)
+      const origin = from.dot(direction)
+      const gap = candidateRange.min - selectionRange.max
+
+      guides.push({
+        kind: 'align',
+        start: from.clone().addScaledVector(direction, selectionRange.min - origin),
+        end: from.clone().addScaledVector(direction, candidateRange.max - origin),
+        distance: gap > ALIGN_EPSILON ? gap : null,
+      })
+    }
+
+    const spacing = findSpacingMatches(selection, getRow(axis), ALIGN_EPSILON)
+    for (const match of spacing) {
+      for (const [start, end] of match.gaps) {
+        guides.push({
+          kind: 'spacing',
+          start: pointAtAxisValue(selectionCenter, axisVector, start),
+          end: pointAtAxisValue(selectionCenter, axisVector, end),
+          distance: end - start,
+        })
+      }
+    }
+  }
+
+  return { offset, guides }
+}
@@ -0,0 +1,237 @@
+import type { AppItem } from '@/types/editor'
+import { decodeColorMapToGroupMap } from '@/lib/colorMap'
+
+/** 单行物料：同一 gameId + 同一染色组合 */
+export interface BillOfMaterialsRow {
+  gameId: number
+  name: string
+  /** 解码后的染色：[groupId, colorIndex]，按 groupId 升序；空数组表示默认颜色 */
+  dye: Array<[number, number]>
+  count: number
+  /** 单价，家具未配置 price 时为 null */
+  unitPrice: number | null
+  totalPrice: number | null
+}
+
+export interface BillOfMaterialsCategory {
+  /** 分类名（FurnitureModelConfig.cat），无模型配置时为 null */
+  category: string | null
+  rows: BillOfMaterialsRow[]
+  count: number
+  totalPrice: number
+}
+
+export interface BillOfMaterials {
+  categories: BillOfMaterialsCategory[]
+  itemCount: number
+  totalPrice: number
+  /** 没有价格信息的物品数量（不计入 totalPrice） */
+  unpricedCount: number
+}
+
+export interface BillOfMaterialsContext {
+  getName: (gameId: number) => string
+  getCategory: (gameId: number) => string | null
+  getPrice: (gameId: number) => number | undefined
+}
+
+/** 导出表格的列名与兜底文案，由调用方按当前语言传入 */
+export interface BillOfMaterialsLabels {
+  category: string
+  name: string
+  gameId: string
+  dye: string
+  count: string
+  unitPrice: string
+  totalPrice: string
+  total: string
+  uncategorized: string
+  defaultDye: string
+}
+
+function decodeDye(item: AppItem): Array<[number, number]> {
+  return Array.from(decodeColorMapToGroupMap(item.extra.ColorMap).entries()).sort(
+    ([left], [right]) => left - right
+  )
+}
+
+function buildDyeKey(dye: Array<[number, number]>): string {
+  return dye.map(([groupId, colorIndex]) => `${groupId}:${colorIndex}`).join(',')
+}
+
+/**
+ * 汇总物料清单：按 gameId + 解码后的 ColorMap 聚合，再按模型分类分组。
+ *
+ * 排序规则：分类按名称排序（未分类置底），行按数量降序、gameId 升序，保证导出结果稳定。
+ */
+export function buildBillOfMaterials(
+  items: readonly AppItem[],
+  context: BillOfMaterialsContext
+): BillOfMaterials {
+  const rowMap = new Map<string, BillOfMaterialsRow>()
+
+  for (const item of items) {
+    const dye = decodeDye(item)
+    const key = `${item.gameId}|${buildDyeKey(dye)}`
+    const existing = rowMap.get(key)
+    if (existing) {
+      existing.count++
+      continue
+    }
+
+    const price = context.getPrice(item.gameId)
+    rowMap.set(key, {
+      gameId: item.gameId,
+      name: context.getName(item.gameId),
+      dye,
+      count: 1,
+      unitPrice: typeof price === 'number' && Number.isFinite(price) ? price : null,
+      totalPrice: null,
+    })
+  }
+
+  const categoryMap = new Map<string | null, BillOfMaterialsCategory>()
+  let totalPrice = 0
+  let unpricedCount = 0
+
+  for (const row of rowMap.values()) {
+    if (row.unitPrice !== null) {
+      row.totalPrice = row.unitPrice * row.count
+      totalPrice += row.totalPrice
+    } else {
+      unpricedCount += row.count
+    }
+
+    const category = context.getCategory(row.gameId)
+    let entry = categoryMap.get(category)
+    if (!entry) {
+      entry = { category, rows: [], count: 0, totalPrice: 0 }
+      categoryMap.set(category, entry)
+    }
+    entry.rows.push(row)
+    entry.count += row.count
+    entry.totalPrice += row.totalPrice ?? 0
+  }
+
+  const categories = Array.from(categoryMap.values()).sort((left, right) => {
+    if (left.category === null) return 1
+    if (right.category === null) return -1
+    return left.category.localeCompare(right.category)
+  })
+  for (const category of categories) {
+    category.rows.sort(
+      (left, right) =>
+        right.count - left.count ||
+        left.gameId - right.gameId ||
+        buildDyeKey(left.dye).localeCompare(buildDyeKey(right.dye))
+    )
+  }
+
+  return {
+    categories,
+    itemCount: items.length,
+    totalPrice,
+    unpricedCount,
+  }
+}
+
+/** 染色显示文本：`0:3 / 1:2`，默认颜色返回 fallback */
+export function formatBillOfMaterialsDye(dye: Array<[number, number]>, fallback: string): string {
+  if (dye.length === 0) return fallback
+  return dye.map(([groupId, colorIndex]) => `${groupId}:${colorIndex}`).join(' / ')
+}
+
+function escapeCsvCell(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function escapeMarkdownCell(value: string | number): string {
+  return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
+
+/**
+ * 导出 CSV（带 UTF-8 BOM，避免 Excel 打开中文乱码）
+ */
+export function billOfMaterialsToCsv(bom: BillOfMaterials, labels: BillOfMaterialsLabels): string {
+  const lines: string[] = [
+    [
+      labels.category,
+      labels.name,
+      labels.gameId,
+      labels.dye,
+      labels.count,
+      labels.unitPrice,
+      labels.totalPrice,
+    ]
+      .map(escapeCsvCell)
+      .join(','),
+  ]
+
+  for (const category of bom.categories) {
+    const categoryName = category.category ?? labels.uncategorized
+    for (const row of category.rows) {
+      lines.push(
+        [
+          categoryName,
+          row.name,
+          row.gameId,
+          formatBillOfMaterialsDye(row.dye, labels.defaultDye),
+          row.count,
+          row.unitPrice ?? '',
+          row.totalPrice ?? '',
+        ]
+          .map(escapeCsvCell)
+          .join(',')
+      )
+    }
+  }
+
+  lines.push(
+    [labels.total, '', '', '', bom.itemCount, '', bom.totalPrice].map(escapeCsvCell).join(',')
+  )
+  return '\uFEFF' + lines.join('\r\n')
+}
+
+/**
+ * 导出 Markdown：每个分类一张表，末尾附总计
+ */
+export function billOfMaterialsToMarkdown(
+  bom: BillOfMaterials,
+  labels: BillOfMaterialsLabels,
+  title: string
+): string {
+  const lines: string[] = [`# ${escapeMarkdownCell(title)}`, '']
+
+  for (const category of bom.categories) {
+    const categoryName = category.category ?? labels.uncategorized
+    lines.push(
+      `## ${escapeMarkdownCell(categoryName)} (${category.count})`,
+      '',
+      `| ${labels.name} | ${labels.gameId} | ${labels.dye} | ${labels.count} | ${labels.unitPrice} | ${labels.totalPrice} |`,
+      '| --- | ---: | --- | ---: | ---: | ---: |'
+    )
+
+    for (const row of category.rows) {
+      lines.push(
+        `| ${[
+          row.name,
+          row.gameId,
+          formatBillOfMaterialsDye(row.dye, labels.defaultDye),
+          row.count,
+          row.unitPrice ?? '-',
+          row.totalPrice ?? '-',
+        ]
+          .map(escapeMarkdownCell)
+          .join(' | ')} |`
+      )
+    }
+
+    lines.push('')
+  }
+
+  lines.push(
+    `**${labels.total}**: ${labels.count} ${bom.itemCount} · ${labels.totalPrice} ${bom.totalPrice}`
+  )
+  return lines.join('\n') + '\n'
+}
@@ -251,8 +251,31 @@ export class OBB {
     }
     return aabb
   }
+
+  /**
+   * 体积
+   */
+  getVolume(): number {
+    const { x, y, z } = this.halfExtents
+    return 8 * x * y * z
+  }
+
+  /**
+   * 判断点是否在 OBB 内（含边界）
+   */
+  containsPoint(point: Vector3): boolean {
+    const offset = _scratchOffset.subVectors(point, this.center)
+    return (
+      Math.abs(offset.dot(this.axes[0])) <= this.halfExtents.x &&
+      Math.abs(offset.dot(this.axes[1])) <= this.halfExtents.y &&
+      Math.abs(offset.dot(this.axes[2])) <= this.halfExtents.z
+    )
+  }
 }
 
+const _scratchOffset = new Vector3()
+const _scratchSample = new Vector3()
+
 /**
  * 从世界矩阵创建 OBB
  *
@@ -449,6 +472,69 @@ export function mergeOBBs(obbs: OBB[], referenceAxes?: [Vector3, Vector3, Vector
   ])
 }
 
+/**
+ * 计算两个 OBB 的交叠比例（交叠体积 / 较小 OBB 的体积）
+ *
+ * - 两个 OBB 朝向一致时（同类物品最常见的情况），直接在共同坐标系下按区间求交，结果精确
+ * - 朝向不一致时，在较小的 OBB 内均匀取 resolution³ 个采样点，统计落在另一个 OBB 内的比例
+ *
+ * @param a OBB A
+ * @param b OBB B
+ * @param resolution 每个轴上的采样数（仅朝向不一致时使用）
+ * @returns 0 ~ 1 之间的比例；任一 OBB 体积为 0 时返回 0
+ */
+export function getOBBOverlapRatio(a: OBB, b: OBB, resolution: number = 6): number {
+  const volumeA = a.getVolume()
+  const volumeB = b.getVolume()
+  if (volumeA <= 0 || volumeB <= 0) return 0
+
+  const [small, large] = volumeA <= volumeB ? [a, b] : [b, a]
+  const halfSmall = [small.halfExtents.x, small.halfExtents.y, small.halfExtents.z] as const
+  const halfLarge = [large.halfExtents.x, large.halfExtents.y, large.halfExtents.z] as const
+
+  // 朝向一致：small 的每个轴都与 large 的某个轴平行
+  const axisMap: number[] = []
+  for (const axis of small.axes) {
+    const index = large.axes.findIndex((other) => Math.abs(axis.dot(other)) > 1 - 1e-6)
+    if (index === -1 || axisMap.includes(index)) break
+    axisMap.push(index)
+  }
+
+  if (axisMap.length === 3) {
+    const offset = _scratchOffset.subVectors(small.center, large.center)
+    let overlapVolume = 1
+    for (let i = 0; i < 3; i++) {
+      const largeIndex = axisMap[i]!
+      const center = offset.dot(large.axes[largeIndex]!)
+      const overlap =
+        Math.min(center + halfSmall[i]!, halfLarge[largeIndex]!) -
+        Math.max(center - halfSmall[i]!, -halfLarge[largeIndex]!)
+      if (overlap <= 0) return 0
+      overlapVolume *= overlap
+    }
+    return Math.min(1, overlapVolume / small.getVolume())
+  }
+
+  // 朝向不一致：在较小 OBB 内按网格中心采样
+  let inside = 0
+  for (let i = 0; i < resolution; i++) {
+    const u = ((i + 0.5) / resolution) * 2 - 1
+    for (let j = 0; j < resolution; j++) {
+      const v = ((j + 0.5) / resolution) * 2 - 1
+      for (let k = 0; k < resolution; k++) {
+        const w = ((k + 0.5) / resolution) * 2 - 1
+        _scratchSample
+          .copy(small.center)
+          .addScaledVector(small.axes[0], u * halfSmall[0])
+          .addScaledVector(small.axes[1], v * halfSmall[1])
+          .addScaledVector(small.axes[2], w * halfSmall[2])
+        if (large.containsPoint(_scratchSample)) inside++
+      }
+    }
+  }
+  return inside / (resolution * resolution * resolution)
+}
+
 /**
  * 计算点在轴上的投影范围
  *
@@ -23,6 +23,21 @@ export interface Position {
 
 // ========== 位置转换（矩阵版本） ==========
 
+/**
+ * 工作坐标系在世界空间中的旋转矩阵（与 Gizmo 一致：ZYX 顺序，Z 轴取反）
+ *
+ * @param workingRotation 工作坐标系的旋转角度（视觉空间，度）
+ */
+export function getWorkingFrameRotation(workingRotation: Rotation): Matrix4 {
+  const euler = new Euler(
+    (workingRotation.x * Math.PI) / 180,
+    (workingRotation.y * Math.PI) / 180,
+    -(workingRotation.z * Math.PI) / 180,
+    'ZYX'
+  )
+  return new Matrix4().makeRotationFromEuler(euler)
+}
+
 /**
  * 位置转换：工作坐标系 -> 全局坐标系（世界空间）
  *
@@ -37,13 +52,7 @@ export function convertPositionWorkingToGlobal(
   const vec = new Vector3(point.x, point.y, point.z)
 
   // 构建 Gizmo 的旋转矩阵（与 useThreeTransformGizmo 完全一致）
-  const euler = new Euler(
-    (workingRotation.x * Math.PI) / 180,
-    (workingRotation.y * Math.PI) / 180,
-    -(workingRotation.z * Math.PI) / 180, // Z 轴取反
-    'ZYX'
-  )
-  const matrix = new Matrix4().makeRotationFromEuler(euler)
+  const matrix = getWorkingFrameRotation(workingRotation)
 
   vec.applyMatrix4(matrix)
 
@@ -68,14 +77,7 @@ export function convertPositionGlobalToWorking(
   const worldVec = new Vector3(point.x, point.y, point.z)
 
   // 构建 Gizmo 旋转矩阵的逆矩阵
-  const euler = new Euler(
-    (workingRotation.x * Math.PI) / 180,
-    (workingRotation.y * Math.PI) / 180,
-    -(workingRotation.z * Math.PI) / 180,
-    'ZYX'
-  )
-  const matrix = new Matrix4().makeRotationFromEuler(euler)
-  matrix.invert()
+  const matrix = getWorkingFrameRotation(workingRotation).invert()
 
   worldVec.applyMatrix4(matrix)
 
@@ -0,0 +1,100 @@
+import { Euler, MathUtils, Quaternion, Vector3 } from 'three'
+import type { AppItem, DimensionAnchor } from '../types/editor'
+
+const _euler = new Euler()
+const _quat = new Quaternion()
+const _offset = new Vector3()
+
+/**
+ * 两点之间的测量结果（游戏单位）
+ * - distance：直线距离
+ * - horizontal：水平面（XY）投影距离
+ * - vertical：高度差（Z）
+ */
+export interface MeasureDistances {
+  distance: number
+  horizontal: number
+  vertical: number
+}
+
+// 物品在数据空间中的朝向，与 matrixTransform.buildWorldMatrixFromItem 的旋转约定一致
+function getItemQuaternion(item: AppItem, target: Quaternion): Quaternion {
+  _euler.set(
+    -MathUtils.degToRad(item.rotation.x ?? 0),
+    -MathUtils.degToRad(item.rotation.y ?? 0),
+    MathUtils.degToRad(item.rotation.z ?? 0),
+    'ZYX'
+  )
+  return target.setFromEuler(_euler)
+}
+
+/**
+ * 创建尺寸标注端点
+ *
+ * 传入物品时记录该点在物品局部坐标系（数据空间，只含位置和旋转）中的偏移，
+ * 与显示模式和缩放无关，物品移动/旋转后端点跟随。
+ *
+ * @param point - 世界坐标
+ * @param item - 锚定的物品（可选）
+ */
+export function createDimensionAnchor(
+  point: { x: number; y: number; z: number },
+  item?: AppItem | null
+): DimensionAnchor {
+  const anchor: DimensionAnchor = { point: { x: point.x, y: point.y, z: point.z } }
+  if (!item) return anchor
+
+  // 世界 → 数据空间（Y 翻转），再逆旋转到物品局部
+  _offset.set(point.x - item.x, -point.y - item.y, point.z - item.z)
+  _offset.applyQuaternion(getItemQuaternion(item, _quat).invert())
+
+  return {
+    ...anchor,
+    itemId: item.internalId,
+    local: { x: _offset.x, y: _offset.y, z: _offset.z },
+  }
+}
+
+/**
+ * 解析尺寸标注端点的当前世界坐标
+ * 锚定物品已不存在时退回到创建时记录的世界坐标
+ */
+export function resolveDimensionAnchor(
+  anchor: DimensionAnchor,
+  itemsMap: ReadonlyMap<string, AppItem>,
+  target: Vector3
+): Vector3 {
+  const item = anchor.itemId ? itemsMap.get(anchor.itemId) : undefined
+  if (!item || !anchor.local) {
+    return target.set(anchor.point.x, anchor.point.y, anchor.point.z)
+  }
+
+  target.set(anchor.local.x, anchor.local.y, anchor.local.z)
+  target.applyQuaternion(getItemQuaternion(item, _quat))
+  return target.set(target.x + item.x, -(target.y + item.y), target.z + item.z)
+}
+
+/**
+ * 计算两点之间的直线、水平和垂直距离
+ * 世界空间与游戏坐标只差 Y 轴翻转，距离数值一致
+ */
+export function getMeasureDistances(
+  start: { x: number; y: number; z: number },
+  end: { x: number; y: number; z: number }
+): MeasureDistances {
+  const dx = end.x - start.x
+  const dy = end.y - start.y
+  const dz = end.z - start.z
+  return {
+    distance: Math.hypot(dx, dy, dz),
+    horizontal: Math.hypot(dx, dy),
+    vertical: Math.abs(dz),
+  }
+}
+
+/**
+ * 格式化测量距离（保留一位小数）
+ */
+export function formatMeasureDistance(value: number): string {
+  return value.toFixed(1)
+}
@@ -0,0 +1,136 @@
+import { Matrix4, Vector3, type BufferGeometry } from 'three'
+import { MeshBVH, type HitPointInfo } from 'three-mesh-bvh'
+import type { AppItem } from '../types/editor'
+import type { useGameDataStore } from '../stores/gameDataStore'
+import type { ThreeModelManager } from '../composables/useThreeModelManager'
+import { buildItemOBB } from './alignmentHelpers'
+import { buildDisplayWorldMatrixFromItem } from './scaleRenderCompensation'
+
+/**
+ * 特征点吸附（顶点 / 边中点 / 面中心）
+ *
+ * 模型已加载且构建了 BVH 时，取离给定点最近的三角形上的特征点；
+ * 否则回退到物品 OBB 的角点、棱中点和面中心。
+ */
+
+export type SnapFeatureKind = 'vertex' | 'edge' | 'face'
+
+export interface SnapFeature {
+  kind: SnapFeatureKind
+  // 世界坐标
+  point: Vector3
+}
+
+const scratchInverse = new Matrix4()
+const scratchLocal = new Vector3()
+const scratchHit: HitPointInfo = { point: new Vector3(), distance: 0, faceIndex: 0 }
+
+function pickNearest(candidates: SnapFeature[], worldPoint: Vector3): SnapFeature | null {
+  let best: SnapFeature | null = null
+  let bestDistance = Infinity
+  for (const candidate of candidates) {
+    const distance = candidate.point.distanceToSquared(worldPoint)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = candidate
+    }
+  }
+  return best
+}
+
+// 最近三角形的 3 个顶点、3 个边中点和重心
+function getTriangleFeatures(
+  geometry: BufferGeometry,
+  bvh: MeshBVH,
+  worldMatrix: Matrix4,
+  worldPoint: Vector3
+): SnapFeature[] {
+  scratchLocal.copy(worldPoint).applyMatrix4(scratchInverse.copy(worldMatrix).invert())
+  const hit = bvh.closestPointToPoint(scratchLocal, scratchHit)
+  const position = geometry.getAttribute('position')
+  if (!hit || !position) return []
+
+  const vertexIndex = (corner: number) => {
+    const i = hit.faceIndex * 3 + corner
+    return geometry.index ? geometry.index.getX(i) : i
+  }
+  const vertices = [0, 1, 2].map((corner) =>
+    new Vector3().fromBufferAttribute(position, vertexIndex(corner))
+  )
+  const [a, b, c] = vertices as [Vector3, Vector3, Vector3]
+
+  const localFeatures: { kind: SnapFeatureKind; point: Vector3 }[] = [
+    ...vertices.map((point) => ({ kind: 'vertex' as const, point })),
+    { kind: 'edge', point: a.clone().add(b).multiplyScalar(0.5) },
+    { kind: 'edge', point: b.clone().add(c).multiplyScalar(0.5) },
+    { kind: 'edge', point: c.clone().add(a).multiplyScalar(0.5) },
+    { kind: 'face', point: a.clone().add(b).add(c).divideScalar(3) },
+  ]
+
+  return localFeatures.map(({ kind, point }) => ({ kind, point: point.applyMatrix4(worldMatrix) }))
+}
+
+// OBB 的 8 个角点、12 个棱中点和 6 个面中心
+function getBoxFeatures(
+  item: AppItem,
+  currentMode: 'box' | 'icon' | 'simple-box' | 'model',
+  gameDataStore: ReturnType<typeof useGameDataStore>,
+  modelManager: ThreeModelManager | null
+): SnapFeature[] {
+  const obb = buildItemOBB(item, currentMode, gameDataStore, modelManager)
+  const features: SnapFeature[] = []
+  const kinds: SnapFeatureKind[] = ['face', 'edge', 'vertex']
+
+  for (const sx of [-1, 0, 1]) {
+    for (const sy of [-1, 0, 1]) {
+      for (const sz of [-1, 0, 1]) {
+        const nonZero = Math.abs(sx) + Math.abs(sy) + Math.abs(sz)
+        if (nonZero === 0) continue
+
+        const point = obb.center.clone()
+        ;[sx, sy, sz].forEach((sign, axis) => {
+          point.addScaledVector(obb.axes[axis]!, sign * obb.halfExtents.getComponent(axis))
+        })
+        features.push({ kind: kinds[nonZero - 1]!, point })
+      }
+    }
+  }
+
+  return features
+}
+
+/**
+ * 获取物品上离 worldPoint 最近的特征点
+ *
+ * @param item 物品数据
+ * @param worldPoint 参考点（通常为射线命中点）
+ * @param currentMode 当前显示模式
+ * @param gameDataStore 游戏数据 store
+ * @param modelManager 模型管理器（model 模式下用于获取几何体）
+ */
+export function findNearestItemFeature(
+  item: AppItem,
+  worldPoint: Vector3,
+  currentMode: 'box' | 'icon' | 'simple-box' | 'model',
+  gameDataStore: ReturnType<typeof useGameDataStore>,
+  modelManager: ThreeModelManager | null
+): SnapFeature | null {
+  if (currentMode === 'model' && modelManager) {
+    const { worldMatrix, useModelScale, modelBox } = buildDisplayWorldMatrixFromItem(item, {
+      currentMode,
+      getFurnitureSize: (gameId) => gameDataStore.getFurnitureSize(gameId),
+      getModelConfig: (gameId) => gameDataStore.getFurnitureModelConfig(gameId),
+      getModelBoundingBox: (gameId) => modelManager.getModelBoundingBox(gameId),
+    })
+
+    const geometry: BufferGeometry | null =
+      useModelScale && modelBox ? modelManager.getModelGeometry(item.gameId) : null
+    const bvh = geometry?.boundsTree
+    if (geometry && bvh instanceof MeshBVH) {
+      const features = getTriangleFeatures(geometry, bvh, worldMatrix, worldPoint)
+      if (features.length > 0) return pickNearest(features, worldPoint)
+    }
+  }
+
+  return pickNearest(getBoxFeatures(item, currentMode, gameDataStore, modelManager), worldPoint)
+}
@@ -77,3 +77,86 @@ export function calculateBounds(
     depth: maxZ - minZ,
   }
 }
+
+// 射线投射算法
+export function isPointInPolygon(point: { x: number; y: number }, polygon: number[][]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const pi = polygon[i]
+    const pj = polygon[j]
+    if (!pi || !pj || pi.length < 2 || pj.length < 2) continue
+
+    const xi = pi[0]!
+    const yi = pi[1]!
+    const xj = pj[0]!
+    const yj = pj[1]!
+
+    const intersect =
+      yi > point.y !== yj > point.y && point.x < ((xj - xi) * (point.y - yi)) / (yj - yi) + xi
+    if (intersect) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * 查找多边形集合内离指定点最近的位置
+ *
+ * 点已在某个多边形内时原样返回；否则取所有多边形边上的最近点，
+ * 并沿移动方向再向内推进 inset，避免正好落在边界上被浮点误差判为越界。
+ *
+ * @param point 目标点
+ * @param polygons 多边形列表（顶点为 [x, y]）
+ * @param inset 向内推进的距离
+ * @returns 最近位置；没有有效多边形时返回 null
+ */
+export function findNearestPointInPolygons(
+  point: { x: number; y: number },
+  polygons: number[][][],
+  inset: number = 1
+): { x: number; y: number } | null {
+  if (polygons.some((polygon) => isPointInPolygon(point, polygon))) {
+    return { x: point.x, y: point.y }
+  }
+
+  let best: { x: number; y: number; polygon: number[][] } | null = null
+  let bestDistanceSq = Infinity
+
+  for (const polygon of polygons) {
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[j]
+      const b = polygon[i]
+      if (!a || !b || a.length < 2 || b.length < 2) continue
+
+      const ax = a[0]!
+      const ay = a[1]!
+      const dx = b[0]! - ax
+      const dy = b[1]! - ay
+      const lengthSq = dx * dx + dy * dy
+      const t =
+        lengthSq > 0
+          ? Math.max(0, Math.min(1, ((point.x - ax) * dx + (point.y - ay) * dy) / lengthSq))
+          : 0
+
+      const x = ax + dx * t
+      const y = ay + dy * t
+      const distanceSq = (x - point.x) ** 2 + (y - point.y) ** 2
+      if (distanceSq < bestDistanceSq) {
+        bestDistanceSq = distanceSq
+        best = { x, y, polygon }
+      }
+    }
+  }
+
+  if (!best) return null
+
+  const distance = Math.sqrt(bestDistanceSq)
+  if (distance > 0) {
+    const inner = {
+      x: best.x + ((best.x - point.x) / distance) * inset,
+      y: best.y + ((best.y - point.y) / distance) * inset,
+    }
+    if (isPointInPolygon(inner, best.polygon)) return inner
+  }
+
+  return { x: best.x, y: best.y }
+}
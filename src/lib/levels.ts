@@ -0,0 +1,46 @@
+import type { AppItem, SchemeLevel } from '../types/editor'
+
+/** 新建楼层时的默认层高（游戏单位） */
+export const DEFAULT_LEVEL_HEIGHT = 400
+
+/**
+ * 物品是否属于楼层：按物品 Z 坐标（底部）判断，区间为 [minZ, maxZ)
+ */
+export function isItemInLevel(item: AppItem, level: SchemeLevel): boolean {
+  return item.z >= level.minZ && item.z < level.maxZ
+}
+
+/**
+ * 按下界从低到高排序楼层（返回新数组）
+ */
+export function sortLevels(levels: readonly SchemeLevel[]): SchemeLevel[] {
+  return [...levels].sort((a, b) => a.minZ - b.minZ || a.maxZ - b.maxZ)
+}
+
+/**
+ * 计算新楼层的默认高度区间
+ *
+ * - 传入物品时覆盖这些物品的 Z 范围
+ * - 否则叠在最高楼层之上，层高沿用最高楼层
+ * - 没有楼层时从 0 开始，使用默认层高
+ */
+export function suggestLevelRange(
+  levels: readonly SchemeLevel[],
+  items: readonly AppItem[] = []
+): { minZ: number; maxZ: number } {
+  if (items.length > 0) {
+    let minZ = Infinity
+    let maxZ = -Infinity
+    for (const item of items) {
+      if (item.z < minZ) minZ = item.z
+      if (item.z > maxZ) maxZ = item.z
+    }
+    return { minZ: Math.floor(minZ), maxZ: Math.floor(maxZ) + 1 }
+  }
+
+  const top = sortLevels(levels).pop()
+  if (!top) return { minZ: 0, maxZ: DEFAULT_LEVEL_HEIGHT }
+
+  const height = top.maxZ - top.minZ > 0 ? top.maxZ - top.minZ : DEFAULT_LEVEL_HEIGHT
+  return { minZ: top.maxZ, maxZ: top.maxZ + height }
+}
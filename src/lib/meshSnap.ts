@@ -0,0 +1,142 @@
+import { DoubleSide, Matrix4, Ray, Sphere, Vector3, type BufferGeometry } from 'three'
+import { MeshBVH } from 'three-mesh-bvh'
+
+/**
+ * 基于模型网格的精确吸附
+ *
+ * 使用渲染层为模型几何体构建的 BVH（`geometry.boundsTree`），
+ * 沿拖拽方向求移动物体与静止物体的最近接触距离，弥补 OBB 吸附在弧形、镂空家具上留下的空隙。
+ */
+
+// 每个几何体最多参与检测的采样顶点数
+const MAX_CONTACT_SAMPLES = 256
+
+/** 几何体级别的数据（与变换无关，可跨拖拽复用） */
+export interface MeshContactShape {
+  bvh: MeshBVH
+  // 局部空间采样顶点
+  samples: Vector3[]
+  boundingSphere: Sphere
+}
+
+/** 放置到世界空间中的网格 */
+export interface MeshContactBody {
+  shape: MeshContactShape
+  matrixWorld: Matrix4
+  inverseMatrix: Matrix4
+  worldSphere: Sphere
+}
+
+const shapeCache = new WeakMap<BufferGeometry, MeshContactShape>()
+
+const scratchRay = new Ray()
+const scratchOrigin = new Vector3()
+const scratchEnd = new Vector3()
+const scratchToCenter = new Vector3()
+
+function sampleVertices(geometry: BufferGeometry): Vector3[] {
+  const position = geometry.getAttribute('position')
+  if (!position) return []
+
+  // 超出上限时按固定步长抽样，保证结果稳定
+  const stride = Math.max(1, Math.ceil(position.count / MAX_CONTACT_SAMPLES))
+  const samples: Vector3[] = []
+  for (let i = 0; i < position.count; i += stride) {
+    samples.push(new Vector3().fromBufferAttribute(position, i))
+  }
+  return samples
+}
+
+/**
+ * 获取几何体的接触检测数据；几何体尚未构建 BVH 时返回 null（调用方回退到 OBB）
+ */
+export function getMeshContactShape(geometry: BufferGeometry): MeshContactShape | null {
+  const cached = shapeCache.get(geometry)
+  if (cached && cached.bvh === geometry.boundsTree) return cached
+
+  const bvh = geometry.boundsTree
+  if (!(bvh instanceof MeshBVH)) return null
+
+  if (!geometry.boundingSphere) geometry.computeBoundingSphere()
+  const shape: MeshContactShape = {
+    bvh,
+    samples: sampleVertices(geometry),
+    boundingSphere: geometry.boundingSphere!.clone(),
+  }
+  shapeCache.set(geometry, shape)
+  return shape
+}
+
+export function createMeshContactBody(
+  shape: MeshContactShape,
+  matrixWorld: Matrix4
+): MeshContactBody {
+  return {
+    shape,
+    matrixWorld,
+    inverseMatrix: matrixWorld.clone().invert(),
+    worldSphere: shape.boundingSphere.clone().applyMatrix4(matrixWorld),
+  }
+}
+
+// from 的采样点沿 direction 射向 to，返回最近的正面命中距离
+function castSamples(
+  from: MeshContactBody,
+  to: MeshContactBody,
+  direction: Vector3,
+  maxDistance: number
+): number | null {
+  const { center, radius } = to.worldSphere
+  let best: number | null = null
+
+  for (const sample of from.shape.samples) {
+    scratchOrigin.copy(sample).applyMatrix4(from.matrixWorld)
+
+    // 射线段不经过对方包围球时跳过
+    scratchToCenter.subVectors(center, scratchOrigin)
+    const along = scratchToCenter.dot(direction)
+    if (along < -radius || along > maxDistance + radius) continue
+    if (scratchToCenter.lengthSq() - along * along > radius * radius) continue
+
+    // 转换到对方局部空间（仿射变换下距离比例不变）
+    scratchEnd.copy(scratchOrigin).addScaledVector(direction, maxDistance)
+    scratchEnd.applyMatrix4(to.inverseMatrix)
+    scratchRay.origin.copy(scratchOrigin).applyMatrix4(to.inverseMatrix)
+    scratchRay.direction.subVectors(scratchEnd, scratchRay.origin)
+    const localLength = scratchRay.direction.length()
+    if (localLength < 1e-9) continue
+    scratchRay.direction.divideScalar(localLength)
+
+    const hit = to.shape.bvh.raycastFirst(scratchRay, DoubleSide, 0, localLength)
+    // 只统计射入正面的命中：从内部射出说明已穿插，不参与吸附
+    if (!hit?.face || hit.face.normal.dot(scratchRay.direction) >= 0) continue
+
+    const distance = (hit.distance / localLength) * maxDistance
+    if (best === null || distance < best) best = distance
+  }
+
+  return best
+}
+
+/**
+ * 计算 moving 沿 direction 移动多远会接触到 target
+ *
+ * 双向检测：moving 的采样点沿 direction 射向 target，target 的采样点沿 -direction 射向 moving。
+ *
+ * @param direction 世界空间单位向量
+ * @param maxDistance 最大检测距离（吸附阈值）
+ * @returns 接触距离，超出 maxDistance 时返回 null
+ */
+export function calculateMeshContactDistance(
+  moving: MeshContactBody,
+  target: MeshContactBody,
+  direction: Vector3,
+  maxDistance: number
+): number | null {
+  const forward = castSamples(moving, target, direction, maxDistance)
+  const backward = castSamples(target, moving, direction.clone().negate(), maxDistance)
+
+  if (forward === null) return backward
+  if (backward === null) return forward
+  return Math.min(forward, backward)
+}
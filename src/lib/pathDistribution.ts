@@ -0,0 +1,74 @@
+import { Vector3 } from 'three'
+
+/**
+ * 折线上的一个采样点
+ * - position：采样点坐标
+ * - tangent：所在线段的单位方向（整条路径长度为 0 时取 +X）
+ */
+export interface PathSample {
+  position: Vector3
+  tangent: Vector3
+}
+
+type PathPoint = { x: number; y: number; z: number }
+
+/**
+ * 计算折线总长度
+ */
+export function getPolylineLength(points: PathPoint[]): number {
+  let length = 0
+  for (let index = 1; index < points.length; index++) {
+    const prev = points[index - 1]!
+    const current = points[index]!
+    length += Math.hypot(current.x - prev.x, current.y - prev.y, current.z - prev.z)
+  }
+  return length
+}
+
+/**
+ * 沿折线按弧长等距取 count 个点（包含起点和终点；count 为 1 时只取起点）
+ *
+ * 坐标空间由调用方决定，弧长和切线与 Y 轴是否翻转无关。
+ */
+export function samplePolylineByArcLength(points: PathPoint[], count: number): PathSample[] {
+  const first = points[0]
+  if (!first || count <= 0) return []
+
+  const vectors = points.map((point) => new Vector3(point.x, point.y, point.z))
+  const totalLength = getPolylineLength(points)
+  if (totalLength <= 0) {
+    return Array.from({ length: count }, () => ({
+      position: vectors[0]!.clone(),
+      tangent: new Vector3(1, 0, 0),
+    }))
+  }
+
+  const spacing = count > 1 ? totalLength / (count - 1) : 0
+  const samples: PathSample[] = []
+  let segmentIndex = 0
+  let segmentStartLength = 0
+
+  for (let sampleIndex = 0; sampleIndex < count; sampleIndex++) {
+    const targetLength = Math.min(spacing * sampleIndex, totalLength)
+
+    // 前进到包含目标弧长的线段；跳过长度为 0 的线段
+    while (segmentIndex < vectors.length - 2) {
+      const segmentLength = vectors[segmentIndex]!.distanceTo(vectors[segmentIndex + 1]!)
+      if (segmentStartLength + segmentLength >= targetLength && segmentLength > 0) break
+      segmentStartLength += segmentLength
+      segmentIndex++
+    }
+
+    const start = vectors[segmentIndex]!
+    const end = vectors[segmentIndex + 1] ?? start
+    const segmentLength = start.distanceTo(end)
+    const t = segmentLength > 0 ? (targetLength - segmentStartLength) / segmentLength : 0
+
+    samples.push({
+      position: start.clone().lerp(end, Math.min(Math.max(t, 0), 1)),
+      tangent: segmentLength > 0 ? end.clone().sub(start).normalize() : new Vector3(1, 0, 0),
+    })
+  }
+
+  return samples
+}
@@ -0,0 +1,104 @@
+import type { AppItem } from '@/types/editor'
+
+const ICON_SIZE = 128
+const ICON_PADDING = 8
+const DEFAULT_FURNITURE_SIZE: [number, number, number] = [100, 100, 150]
+
+interface FootprintEntry {
+  corners: Array<[number, number]>
+  top: number
+}
+
+/**
+ * 计算物品俯视投影的四个角点（数据坐标）。
+ * 与 Box 渲染模式一致：局部 X 长度 = sizeX * Scale.Y，局部 Y 长度 = sizeY * Scale.X，仅考虑 Yaw。
+ */
+function buildFootprint(item: AppItem, size: [number, number, number]): FootprintEntry {
+  const scale = item.extra.Scale
+  const halfX = (size[0] * (scale?.Y ?? 1)) / 2
+  const halfY = (size[1] * (scale?.X ?? 1)) / 2
+  const yaw = ((item.rotation.z ?? 0) * Math.PI) / 180
+  const cos = Math.cos(yaw)
+  const sin = Math.sin(yaw)
+
+  const corners = (
+    [
+      [-halfX, -halfY],
+      [halfX, -halfY],
+      [halfX, halfY],
+      [-halfX, halfY],
+    ] as Array<[number, number]>
+  ).map(
+    ([lx, ly]) => [item.x + lx * cos - ly * sin, item.y + lx * sin + ly * cos] as [number, number]
+  )
+
+  return {
+    corners,
+    top: item.z + size[2] * (scale?.Z ?? 1),
+  }
+}
+
+/**
+ * 渲染预制件缩略图：俯视投影，按顶面高度由低到高绘制，越高颜色越亮。
+ * 画布坐标与数据坐标同向（数据 Y 即画布向下），与编辑器顶视图一致。
+ *
+ * @returns PNG dataURL；无物品或无法创建画布时返回 null
+ */
+export function renderPrefabIcon(
+  items: readonly AppItem[],
+  getFurnitureSize: (gameId: number) => [number, number, number] | null
+): string | null {
+  if (items.length === 0 || typeof document === 'undefined') return null
+
+  const footprints = items
+    .map((item) => buildFootprint(item, getFurnitureSize(item.gameId) ?? DEFAULT_FURNITURE_SIZE))
+    .sort((a, b) => a.top - b.top)
+
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const { corners } of footprints) {
+    for (const [x, y] of corners) {
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+    }
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = ICON_SIZE
+  canvas.height = ICON_SIZE
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+
+  const extent = Math.max(maxX - minX, maxY - minY, 1)
+  const scale = (ICON_SIZE - ICON_PADDING * 2) / extent
+  const offsetX = (ICON_SIZE - (maxX - minX) * scale) / 2
+  const offsetY = (ICON_SIZE - (maxY - minY) * scale) / 2
+  const minTop = footprints[0]!.top
+  const topRange = Math.max(footprints[footprints.length - 1]!.top - minTop, 1)
+
+  ctx.lineWidth = 1
+  ctx.lineJoin = 'round'
+
+  for (const { corners, top } of footprints) {
+    const lightness = 38 + ((top - minTop) / topRange) * 40
+    ctx.fillStyle = `hsl(215 25% ${lightness}%)`
+    ctx.strokeStyle = 'hsl(215 30% 20% / 0.8)'
+
+    ctx.beginPath()
+    corners.forEach(([x, y], index) => {
+      const px = offsetX + (x - minX) * scale
+      const py = offsetY + (y - minY) * scale
+      if (index === 0) ctx.moveTo(px, py)
+      else ctx.lineTo(px, py)
+    })
+    ctx.closePath()
+    ctx.fill()
+    ctx.stroke()
+  }
+
+  return canvas.toDataURL('image/png')
+}
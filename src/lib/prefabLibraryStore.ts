@@ -0,0 +1,29 @@
+import { createStore, get, set, del, values } from 'idb-keyval'
+import type { PrefabRecord } from '../types/prefab'
+
+// 独立的 IndexedDB 库（idb-keyval 每个库只能有一个 object store）
+const prefabStore = createStore('building-momo-prefab-db', 'prefabs')
+
+// API 封装
+export const PrefabDB = {
+  // 保存（新建或覆盖）预制件
+  async save(record: PrefabRecord): Promise<void> {
+    await set(record.id, record, prefabStore)
+  },
+
+  // 获取单个预制件
+  async get(id: string): Promise<PrefabRecord | undefined> {
+    return await get<PrefabRecord>(id, prefabStore)
+  },
+
+  // 删除预制件
+  async delete(id: string): Promise<void> {
+    await del(id, prefabStore)
+  },
+
+  // 获取全部预制件（按更新时间倒序）
+  async getAll(): Promise<PrefabRecord[]> {
+    const records = await values<PrefabRecord>(prefabStore)
+    return records.sort((a, b) => b.updatedAt - a.updatedAt)
+  },
+}
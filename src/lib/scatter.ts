@@ -0,0 +1,86 @@
+import { computeBounds, isPointInPolygon } from './interaction/screenGeometry'
+
+type PlanePoint = { x: number; y: number }
+
+// 每件物品平均尝试的候选点数量，超过后认为区域已经放不下
+const ATTEMPTS_PER_POINT = 30
+
+/**
+ * 创建可复现的伪随机数生成器（mulberry32），返回 [0, 1) 的随机数
+ * 相同 seed 得到相同序列，用于散布结果复现
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = Math.floor(seed) >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * 在多边形内做 Poisson-disk 采样（dart throwing + 网格加速）
+ *
+ * 在包围盒内随机投点，落在多边形内且与已接受点的距离都不小于 minDistance 时接受，
+ * 直到得到 count 个点或尝试次数用尽。结果在区域内均匀铺开，而不是从一点向外生长。
+ *
+ * @returns 接受的点；区域放不下时少于 count
+ */
+export function samplePoissonDiskInPolygon(
+  polygon: PlanePoint[],
+  count: number,
+  minDistance: number,
+  random: () => number
+): PlanePoint[] {
+  if (polygon.length < 3 || count <= 0) return []
+
+  const bounds = computeBounds(polygon)
+  const width = bounds.maxX - bounds.minX
+  const height = bounds.maxY - bounds.minY
+  if (width <= 0 || height <= 0) return []
+
+  // 网格边长为 minDistance / √2，每格最多一个点，只需检查周围 5×5 格
+  const cellSize = minDistance > 0 ? minDistance / Math.SQRT2 : 0
+  const grid = new Map<string, PlanePoint>()
+  const cellKey = (cx: number, cy: number) => `${cx},${cy}`
+
+  function isFarEnough(point: PlanePoint): boolean {
+    if (cellSize <= 0) return true
+    const cx = Math.floor((point.x - bounds.minX) / cellSize)
+    const cy = Math.floor((point.y - bounds.minY) / cellSize)
+    for (let dx = -2; dx <= 2; dx++) {
+      for (let dy = -2; dy <= 2; dy++) {
+        const neighbor = grid.get(cellKey(cx + dx, cy + dy))
+        if (neighbor && Math.hypot(neighbor.x - point.x, neighbor.y - point.y) < minDistance) {
+          return false
+        }
+      }
+    }
+    return true
+  }
+
+  const points: PlanePoint[] = []
+  const maxAttempts = count * ATTEMPTS_PER_POINT
+  for (let attempt = 0; attempt < maxAttempts && points.length < count; attempt++) {
+    const candidate = {
+      x: bounds.minX + random() * width,
+      y: bounds.minY + random() * height,
+    }
+    if (!isPointInPolygon(candidate, polygon) || !isFarEnough(candidate)) continue
+
+    points.push(candidate)
+    if (cellSize > 0) {
+      grid.set(
+        cellKey(
+          Math.floor((candidate.x - bounds.minX) / cellSize),
+          Math.floor((candidate.y - bounds.minY) / cellSize)
+        ),
+        candidate
+      )
+    }
+  }
+
+  return points
+}
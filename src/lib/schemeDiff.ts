@@ -0,0 +1,307 @@
+import type { AppItem } from '@/types/editor'
+import { decodeColorMapToGroupMap } from '@/lib/colorMap'
+
+/** 匹配成功的物品上可能出现的变化（可同时存在多项） */
+export type SchemeDiffChange = 'moved' | 'rotated' | 'rescaled' | 'redyed' | 'regrouped'
+
+/** 对比分类：新增 / 删除 / 各类变化 */
+export type SchemeDiffKind = 'added' | 'removed' | SchemeDiffChange
+
+export const SCHEME_DIFF_CHANGES: readonly SchemeDiffChange[] = [
+  'moved',
+  'rotated',
+  'rescaled',
+  'redyed',
+  'regrouped',
+]
+
+export const SCHEME_DIFF_KINDS: readonly SchemeDiffKind[] = [
+  'added',
+  'removed',
+  ...SCHEME_DIFF_CHANGES,
+]
+
+export interface SchemeDiffEntry {
+  status: 'added' | 'removed' | 'changed'
+  /** 基准方案中的物品（新增时为 null） */
+  base: AppItem | null
+  /** 目标方案中的物品（删除时为 null） */
+  target: AppItem | null
+  /** 变化列表，按 SCHEME_DIFF_CHANGES 顺序排列 */
+  changes: SchemeDiffChange[]
+  /** 匹配方式：InstanceID 精确匹配或按 gameId + 距离兜底匹配 */
+  matchedBy: 'instanceId' | 'spatial' | null
+}
+
+export interface SchemeDiffResult {
+  entries: SchemeDiffEntry[]
+  counts: Record<SchemeDiffKind, number>
+  unchangedCount: number
+}
+
+export interface SchemeDiffOptions {
+  /** 位置容差（游戏单位） */
+  positionTolerance?: number
+  /** 旋转容差（度） */
+  rotationTolerance?: number
+  /** 缩放容差 */
+  scaleTolerance?: number
+  /** InstanceID 匹配失败后，同 gameId 物品按距离兜底匹配的最大距离 */
+  spatialMatchDistance?: number
+}
+
+const DEFAULT_OPTIONS: Required<SchemeDiffOptions> = {
+  positionTolerance: 0.01,
+  rotationTolerance: 0.01,
+  scaleTolerance: 0.0001,
+  spatialMatchDistance: 50,
+}
+
+function distanceSq(a: AppItem, b: AppItem): number {
+  const dx = a.x - b.x
+  const dy = a.y - b.y
+  const dz = a.z - b.z
+  return dx * dx + dy * dy + dz * dz
+}
+
+/** 角度差（考虑 360° 周期） */
+function angleDelta(a: number, b: number): number {
+  const delta = (((a - b) % 360) + 540) % 360
+  return Math.abs(delta - 180)
+}
+
+function buildDyeKey(item: AppItem): string {
+  return Array.from(decodeColorMapToGroupMap(item.extra.ColorMap).entries())
+    .sort(([left], [right]) => left - right)
+    .map(([groupId, colorIndex]) => `${groupId}:${colorIndex}`)
+    .join(',')
+}
+
+function buildGroupMembers(items: readonly AppItem[]): Map<number, string[]> {
+  const members = new Map<number, string[]>()
+  for (const item of items) {
+    if (item.groupId <= 0) continue
+    const list = members.get(item.groupId)
+    if (list) list.push(item.internalId)
+    else members.set(item.groupId, [item.internalId])
+  }
+  return members
+}
+
+/**
+ * 比较同一物品两个状态的位置 / 旋转 / 缩放 / 染色。
+ * 不含组合关系：组变化需要结合整组成员判断，见 diffSchemeItems。
+ */
+export function compareSchemeItemState(
+  base: AppItem,
+  target: AppItem,
+  options: SchemeDiffOptions = {}
+): SchemeDiffChange[] {
+  const { positionTolerance, rotationTolerance, scaleTolerance } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  }
+  const changes: SchemeDiffChange[] = []
+
+  if (distanceSq(base, target) > positionTolerance * positionTolerance) {
+    changes.push('moved')
+  }
+
+  if (
+    angleDelta(base.rotation.x, target.rotation.x) > rotationTolerance ||
+    angleDelta(base.rotation.y, target.rotation.y) > rotationTolerance ||
+    angleDelta(base.rotation.z, target.rotation.z) > rotationTolerance
+  ) {
+    changes.push('rotated')
+  }
+
+  const baseScale = base.extra.Scale
+  const targetScale = target.extra.Scale
+  if (
+    Math.abs((baseScale?.X ?? 1) - (targetScale?.X ?? 1)) > scaleTolerance ||
+    Math.abs((baseScale?.Y ?? 1) - (targetScale?.Y ?? 1)) > scaleTolerance ||
+    Math.abs((baseScale?.Z ?? 1) - (targetScale?.Z ?? 1)) > scaleTolerance
+  ) {
+    changes.push('rescaled')
+  }
+
+  if (buildDyeKey(base) !== buildDyeKey(target)) {
+    changes.push('redyed')
+  }
+
+  return changes
+}
+
+/**
+ * 匹配两个方案中的物品：
+ * 1. 同 InstanceID 且同 gameId 视为同一物品（重复 InstanceID 时取最近的一个）
+ * 2. 剩余物品按 gameId 分组，在 spatialMatchDistance 内按距离从近到远贪心配对
+ *
+ * @returns target internalId -> { base, matchedBy }
+ */
+export function matchSchemeItems(
+  baseItems: readonly AppItem[],
+  targetItems: readonly AppItem[],
+  spatialMatchDistance: number = DEFAULT_OPTIONS.spatialMatchDistance
+): Map<string, { base: AppItem; matchedBy: 'instanceId' | 'spatial' }> {
+  const matches = new Map<string, { base: AppItem; matchedBy: 'instanceId' | 'spatial' }>()
+  const matchedBaseIds = new Set<string>()
+
+  const baseByInstanceId = new Map<number, AppItem[]>()
+  for (const item of baseItems) {
+    const list = baseByInstanceId.get(item.instanceId)
+    if (list) list.push(item)
+    else baseByInstanceId.set(item.instanceId, [item])
+  }
+
+  for (const target of targetItems) {
+    const candidates = baseByInstanceId.get(target.instanceId)
+    if (!candidates) continue
+
+    let best: AppItem | null = null
+    let bestDistance = Infinity
+    for (const candidate of candidates) {
+      if (candidate.gameId !== target.gameId || matchedBaseIds.has(candidate.internalId)) continue
+      const distance = distanceSq(candidate, target)
+      if (distance < bestDistance) {
+        best = candidate
+        bestDistance = distance
+      }
+    }
+
+    if (best) {
+      matches.set(target.internalId, { base: best, matchedBy: 'instanceId' })
+      matchedBaseIds.add(best.internalId)
+    }
+  }
+
+  // 空间兜底：InstanceID 被重新分配（如跨存档复制）时仍能识别为同一物品
+  const unmatchedBaseByGameId = new Map<number, AppItem[]>()
+  for (const item of baseItems) {
+    if (matchedBaseIds.has(item.internalId)) continue
+    const list = unmatchedBaseByGameId.get(item.gameId)
+    if (list) list.push(item)
+    else unmatchedBaseByGameId.set(item.gameId, [item])
+  }
+
+  const maxDistanceSq = spatialMatchDistance * spatialMatchDistance
+  const pairs: Array<{ base: AppItem; target: AppItem; distance: number }> = []
+  for (const target of targetItems) {
+    if (matches.has(target.internalId)) continue
+    const candidates = unmatchedBaseByGameId.get(target.gameId)
+    if (!candidates) continue
+
+    for (const candidate of candidates) {
+      const distance = distanceSq(candidate, target)
+      if (distance <= maxDistanceSq) {
+        pairs.push({ base: candidate, target, distance })
+      }
+    }
+  }
+
+  pairs.sort((left, right) => left.distance - right.distance)
+  for (const { base, target } of pairs) {
+    if (matches.has(target.internalId) || matchedBaseIds.has(base.internalId)) continue
+    matches.set(target.internalId, { base, matchedBy: 'spatial' })
+    matchedBaseIds.add(base.internalId)
+  }
+
+  return matches
+}
+
+/**
+ * 对比两个物品列表，返回新增 / 删除 / 变化的物品。
+ *
+ * 组变化按“组内成员”判断而不是直接比较 GroupID，
+ * 因此两份存档的 GroupID 编号不同但成员一致时不会被误报。
+ */
+export function diffSchemeItems(
+  baseItems: readonly AppItem[],
+  targetItems: readonly AppItem[],
+  options: SchemeDiffOptions = {}
+): SchemeDiffResult {
+  const { spatialMatchDistance } = { ...DEFAULT_OPTIONS, ...options }
+
+  const matches = matchSchemeItems(baseItems, targetItems, spatialMatchDistance)
+  const baseToTarget = new Map<string, string>()
+  for (const [targetId, { base }] of matches) {
+    baseToTarget.set(base.internalId, targetId)
+  }
+
+  const baseGroupMembers = buildGroupMembers(baseItems)
+  const targetGroupMembers = buildGroupMembers(targetItems)
+
+  // 组伙伴签名：只统计双方都存在的物品，避免删除组内成员导致其余成员被误报
+  function getBaseMatesKey(base: AppItem): string {
+    if (base.groupId <= 0) return ''
+    return (baseGroupMembers.get(base.groupId) ?? [])
+      .filter((id) => id !== base.internalId)
+      .map((id) => baseToTarget.get(id))
+      .filter((id): id is string => !!id)
+      .sort()
+      .join(',')
+  }
+
+  function getTargetMatesKey(target: AppItem): string {
+    if (target.groupId <= 0) return ''
+    return (targetGroupMembers.get(target.groupId) ?? [])
+      .filter((id) => id !== target.internalId && matches.has(id))
+      .sort()
+      .join(',')
+  }
+
+  const counts = Object.fromEntries(SCHEME_DIFF_KINDS.map((kind) => [kind, 0])) as Record<
+    SchemeDiffKind,
+    number
+  >
+  const entries: SchemeDiffEntry[] = []
+  let unchangedCount = 0
+
+  for (const target of targetItems) {
+    const match = matches.get(target.internalId)
+    if (!match) {
+      entries.push({ status: 'added', base: null, target, changes: [], matchedBy: null })
+      counts.added++
+      continue
+    }
+
+    const { base } = match
+    const changes = compareSchemeItemState(base, target, options)
+
+    if (
+      base.groupId > 0 !== target.groupId > 0 ||
+      getBaseMatesKey(base) !== getTargetMatesKey(target)
+    ) {
+      changes.push('regrouped')
+    }
+
+    if (changes.length === 0) {
+      unchangedCount++
+      continue
+    }
+
+    for (const change of changes) counts[change]++
+    entries.push({ status: 'changed', base, target, changes, matchedBy: match.matchedBy })
+  }
+
+  for (const base of baseItems) {
+    if (baseToTarget.has(base.internalId)) continue
+    entries.push({ status: 'removed', base, target: null, changes: [], matchedBy: null })
+    counts.removed++
+  }
+
+  return { entries, counts, unchangedCount }
+}
+
+/** 物品在对比中的主分类（用于着色：新增优先，其次按变化顺序取第一项） */
+export function getSchemeDiffPrimaryKind(entry: SchemeDiffEntry): SchemeDiffKind {
+  if (entry.status === 'added') return 'added'
+  if (entry.status === 'removed') return 'removed'
+  return entry.changes[0]!
+}
+
+/** 判断条目是否属于某个分类 */
+export function schemeDiffEntryHasKind(entry: SchemeDiffEntry, kind: SchemeDiffKind): boolean {
+  if (kind === 'added' || kind === 'removed') return entry.status === kind
+  return entry.changes.includes(kind)
+}
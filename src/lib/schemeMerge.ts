@@ -0,0 +1,273 @@
+import type { AppItem } from '@/types/editor'
+import {
+  compareSchemeItemState,
+  diffSchemeItems,
+  matchSchemeItems,
+  type SchemeDiffChange,
+} from '@/lib/schemeDiff'
+
+export type SchemeMergeSide = 'ours' | 'theirs'
+
+/** 双方都改动了同一物品且结果不同（含一方删除、另一方修改） */
+export interface SchemeMergeConflict {
+  /** 基准物品的 internalId，作为冲突的稳定标识 */
+  id: string
+  base: AppItem
+  /** 我方（当前方案）的物品，null 表示我方已删除 */
+  ours: AppItem | null
+  /** 对方的物品，null 表示对方已删除 */
+  theirs: AppItem | null
+  oursChanges: SchemeDiffChange[]
+  theirsChanges: SchemeDiffChange[]
+}
+
+export interface SchemeMergePlan {
+  /** 仅对方修改的物品：用对方状态覆盖我方物品 */
+  patches: Array<{ ours: AppItem; theirs: AppItem; changes: SchemeDiffChange[] }>
+  /** 仅对方删除的物品（我方未改动） */
+  removals: AppItem[]
+  /** 对方新增的物品 */
+  additions: AppItem[]
+  conflicts: SchemeMergeConflict[]
+  /** 对方 GroupID -> 我方 GroupID（由双方都存在的组内物品推断） */
+  groupIdMap: Map<number, number>
+}
+
+export interface SchemeMergeApplyResult {
+  items: AppItem[]
+  maxInstanceId: number
+  maxGroupId: number
+  /** 新增或被修改的物品 internalId（用于合并后选中） */
+  touchedIds: string[]
+  removedCount: number
+  /** 来自对方的组原点（已换算为合并后的 GroupID 与 internalId） */
+  groupOrigins: Map<number, string>
+}
+
+function mapByBaseId(matches: Map<string, { base: AppItem }>, items: readonly AppItem[]) {
+  const itemById = new Map(items.map((item) => [item.internalId, item]))
+  const byBaseId = new Map<string, AppItem>()
+  for (const [itemId, { base }] of matches) {
+    const item = itemById.get(itemId)
+    if (item) byBaseId.set(base.internalId, item)
+  }
+  return byBaseId
+}
+
+function buildChangesByTarget(base: readonly AppItem[], target: readonly AppItem[]) {
+  const changesById = new Map<string, SchemeDiffChange[]>()
+  const added: AppItem[] = []
+  for (const entry of diffSchemeItems(base, target).entries) {
+    if (entry.status === 'changed') changesById.set(entry.target!.internalId, entry.changes)
+    else if (entry.status === 'added') added.push(entry.target!)
+  }
+  return { changesById, added }
+}
+
+/**
+ * 三方合并：以 base 为共同祖先，计算 theirs 相对 base 的改动并尝试应用到 ours。
+ *
+ * - 只有一方改动的物品自动采用改动方
+ * - 双方改动结果相同的物品视为无冲突
+ * - 双方改动不同（或一方删除、一方修改）记为冲突，由用户逐个选择
+ * - 双方新增的物品中，位置和状态完全一致的视为同一物品，只保留我方
+ */
+export function buildSchemeMergePlan(
+  baseItems: readonly AppItem[],
+  oursItems: readonly AppItem[],
+  theirsItems: readonly AppItem[]
+): SchemeMergePlan {
+  const oursByBase = mapByBaseId(matchSchemeItems(baseItems, oursItems), oursItems)
+  const theirsByBase = mapByBaseId(matchSchemeItems(baseItems, theirsItems), theirsItems)
+  const oursDiff = buildChangesByTarget(baseItems, oursItems)
+  const theirsDiff = buildChangesByTarget(baseItems, theirsItems)
+
+  const plan: SchemeMergePlan = {
+    patches: [],
+    removals: [],
+    additions: [],
+    conflicts: [],
+    groupIdMap: new Map(),
+  }
+
+  for (const base of baseItems) {
+    const ours = oursByBase.get(base.internalId) ?? null
+    const theirs = theirsByBase.get(base.internalId) ?? null
+    const oursChanges = ours ? (oursDiff.changesById.get(ours.internalId) ?? []) : null
+    const theirsChanges = theirs ? (theirsDiff.changesById.get(theirs.internalId) ?? []) : null
+
+    if (ours && theirs && ours.groupId > 0 && theirs.groupId > 0) {
+      if (!plan.groupIdMap.has(theirs.groupId)) {
+        plan.groupIdMap.set(theirs.groupId, ours.groupId)
+      }
+    }
+
+    // 对方未改动：保持我方
+    if (theirsChanges !== null && theirsChanges.length === 0) continue
+
+    if (theirsChanges === null) {
+      // 对方删除
+      if (oursChanges === null) continue
+      if (oursChanges.length === 0) {
+        plan.removals.push(ours!)
+        continue
+      }
+    } else if (oursChanges !== null) {
+      // 对方修改
+      if (oursChanges.length === 0) {
+        plan.patches.push({ ours: ours!, theirs: theirs!, changes: theirsChanges })
+        continue
+      }
+
+      const sameResult =
+        compareSchemeItemState(ours!, theirs!).length === 0 &&
+        oursChanges.includes('regrouped') === theirsChanges.includes('regrouped')
+      if (sameResult) continue
+    }
+
+    plan.conflicts.push({
+      id: base.internalId,
+      base,
+      ours,
+      theirs,
+      oursChanges: oursChanges ?? [],
+      theirsChanges: theirsChanges ?? [],
+    })
+  }
+
+  // 双方各自新增了相同物品（如都从同一处粘贴）时不重复添加
+  const duplicatedAdditions = matchSchemeItems(oursDiff.added, theirsDiff.added, 0.01)
+  for (const theirs of theirsDiff.added) {
+    const match = duplicatedAdditions.get(theirs.internalId)
+    if (match && compareSchemeItemState(match.base, theirs).length === 0) continue
+    plan.additions.push(theirs)
+  }
+
+  return plan
+}
+
+/**
+ * 按合并计划与冲突选择生成新的物品列表（纯函数，不修改输入）。
+ * 未指定选择的冲突默认保留我方。
+ */
+export function applySchemeMergePlan(
+  oursItems: readonly AppItem[],
+  plan: SchemeMergePlan,
+  resolutions: ReadonlyMap<string, SchemeMergeSide>,
+  context: {
+    maxInstanceId: number
+    maxGroupId: number
+    createId: () => string
+    /** 对方方案的组原点：GroupID -> 原点物品 internalId */
+    theirsGroupOrigins?: ReadonlyMap<number, string>
+  }
+): SchemeMergeApplyResult {
+  let maxInstanceId = context.maxInstanceId
+  let maxGroupId = context.maxGroupId
+
+  const patches = new Map<string, { theirs: AppItem; changes: SchemeDiffChange[] }>()
+  const removedIds = new Set<string>()
+  const additions: AppItem[] = [...plan.additions]
+
+  for (const { ours, theirs, changes } of plan.patches) {
+    patches.set(ours.internalId, { theirs, changes })
+  }
+  for (const item of plan.removals) {
+    removedIds.add(item.internalId)
+  }
+  for (const conflict of plan.conflicts) {
+    if ((resolutions.get(conflict.id) ?? 'ours') !== 'theirs') continue
+
+    if (!conflict.theirs) {
+      if (conflict.ours) removedIds.add(conflict.ours.internalId)
+    } else if (!conflict.ours) {
+      additions.push(conflict.theirs)
+    } else {
+      patches.set(conflict.ours.internalId, {
+        theirs: conflict.theirs,
+        changes: conflict.theirsChanges,
+      })
+    }
+  }
+
+  // 对方独有的组分配新的 GroupID，避免与我方现有组冲突
+  const groupIdMap = new Map(plan.groupIdMap)
+  function mapGroupId(groupId: number): number {
+    if (groupId <= 0) return 0
+    let mapped = groupIdMap.get(groupId)
+    if (mapped === undefined) {
+      mapped = ++maxGroupId
+      groupIdMap.set(groupId, mapped)
+    }
+    return mapped
+  }
+
+  const touchedIds: string[] = []
+  const items: AppItem[] = []
+  const usedInstanceIds = new Set<number>()
+  // 对方物品 internalId -> 合并结果中的物品
+  const mergedByTheirsId = new Map<string, AppItem>()
+
+  for (const item of oursItems) {
+    if (removedIds.has(item.internalId)) continue
+    usedInstanceIds.add(item.instanceId)
+
+    const patch = patches.get(item.internalId)
+    if (!patch) {
+      items.push(item)
+      continue
+    }
+
+    // 保留我方的 internalId / InstanceID；组合关系仅在对方确实改过时才跟随对方
+    const merged: AppItem = {
+      ...structuredClone(patch.theirs),
+      internalId: item.internalId,
+      instanceId: item.instanceId,
+      groupId: patch.changes.includes('regrouped')
+        ? mapGroupId(patch.theirs.groupId)
+        : item.groupId,
+    }
+    items.push(merged)
+    mergedByTheirsId.set(patch.theirs.internalId, merged)
+    touchedIds.push(item.internalId)
+  }
+
+  for (const theirs of additions) {
+    let instanceId = theirs.instanceId
+    if (usedInstanceIds.has(instanceId)) {
+      instanceId = ++maxInstanceId
+    }
+    usedInstanceIds.add(instanceId)
+    if (instanceId > maxInstanceId) maxInstanceId = instanceId
+
+    const internalId = context.createId()
+    const merged: AppItem = {
+      ...structuredClone(theirs),
+      internalId,
+      instanceId,
+      groupId: mapGroupId(theirs.groupId),
+    }
+    items.push(merged)
+    mergedByTheirsId.set(theirs.internalId, merged)
+    touchedIds.push(internalId)
+  }
+
+  // 对方的组原点：原点物品进入了合并结果且仍在对应组内时才保留
+  const groupOrigins = new Map<number, string>()
+  for (const [theirsGroupId, originId] of context.theirsGroupOrigins ?? []) {
+    const groupId = groupIdMap.get(theirsGroupId)
+    const origin = mergedByTheirsId.get(originId)
+    if (groupId !== undefined && origin?.groupId === groupId) {
+      groupOrigins.set(groupId, origin.internalId)
+    }
+  }
+
+  return {
+    items,
+    maxInstanceId,
+    maxGroupId,
+    touchedIds,
+    removedCount: removedIds.size,
+    groupOrigins,
+  }
+}
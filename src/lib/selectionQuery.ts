@@ -0,0 +1,467 @@
+import { decodeColorMapToGroupMap } from './colorMap'
+import type { AppItem } from '../types/editor'
+
+/**
+ * 选择查询语言
+ *
+ * 语法示例：
+ * - `gameId in (1001, 1002)`、`group = 12`、`z > 500`
+ * - `scale.x != 1`、`rot.z >= 90`、`dye(0) = 3`
+ * - `name ~ "lamp"`（名称包含，忽略大小写）
+ * - `inside selection bbox`（物品原点位于当前选区包围盒内）
+ * - 用 `and` / `or` / `not` 与括号组合
+ */
+
+export type SelectionQueryCompareOp = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '!~'
+
+/** 解析错误（key 对应 i18n 的 selectionQuery.errors.*） */
+export interface SelectionQueryError {
+  key: string
+  params?: Record<string, string | number>
+}
+
+export interface SelectionQueryContext {
+  /** 物品名称（各语言），用于 name 字段匹配 */
+  getNames: (gameId: number) => readonly string[]
+  /** 物品是否位于当前选区包围盒内 */
+  isInsideSelectionBox: (item: AppItem) => boolean
+}
+
+export type SelectionQueryPredicate = (item: AppItem, context: SelectionQueryContext) => boolean
+
+export type SelectionQueryParseResult =
+  | { predicate: SelectionQueryPredicate; usesSelectionBox: boolean; error?: undefined }
+  | { predicate?: undefined; error: SelectionQueryError }
+
+// ========== 词法分析 ==========
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'op'; value: SelectionQueryCompareOp; pos: number }
+  | { type: 'punct'; value: '(' | ')' | ',' | '.' | '&&' | '||'; pos: number }
+  | { type: 'end'; pos: number }
+
+class QueryParseError extends Error {
+  readonly key: string
+  readonly params?: Record<string, string | number>
+
+  constructor(key: string, params?: Record<string, string | number>) {
+    super(key)
+    this.key = key
+    this.params = params
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]!
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    const start = i
+
+    // 数字（允许紧贴的负号）
+    const numberMatch = /^-?(\d+(\.\d*)?|\.\d+)/.exec(source.slice(i))
+    if (numberMatch && (char !== '-' || tokens[tokens.length - 1]?.type !== 'number')) {
+      tokens.push({ type: 'number', value: Number(numberMatch[0]), pos: start })
+      i += numberMatch[0].length
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      let value = ''
+      i++
+      while (i < source.length && source[i] !== char) {
+        // 支持反斜杠转义
+        if (source[i] === '\\' && i + 1 < source.length) i++
+        value += source[i]
+        i++
+      }
+      if (i >= source.length) throw new QueryParseError('unterminatedString', { pos: start + 1 })
+      i++
+      tokens.push({ type: 'string', value, pos: start })
+      continue
+    }
+
+    const identMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))
+    if (identMatch) {
+      tokens.push({ type: 'ident', value: identMatch[0], pos: start })
+      i += identMatch[0].length
+      continue
+    }
+
+    const two = source.slice(i, i + 2)
+    if (two === '&&' || two === '||') {
+      tokens.push({ type: 'punct', value: two, pos: start })
+      i += 2
+      continue
+    }
+    if (two === '==' || two === '!=' || two === '>=' || two === '<=' || two === '!~') {
+      tokens.push({ type: 'op', value: two === '==' ? '=' : two, pos: start })
+      i += 2
+      continue
+    }
+    if (char === '=' || char === '>' || char === '<' || char === '~') {
+      tokens.push({ type: 'op', value: char, pos: start })
+      i++
+      continue
+    }
+    if (char === '(' || char === ')' || char === ',' || char === '.') {
+      tokens.push({ type: 'punct', value: char, pos: start })
+      i++
+      continue
+    }
+
+    throw new QueryParseError('unexpectedChar', { char, pos: start + 1 })
+  }
+
+  tokens.push({ type: 'end', pos: source.length })
+  return tokens
+}
+
+// ========== 字段 ==========
+
+type FieldAccessor =
+  | { kind: 'number'; name: string; get: (item: AppItem) => number }
+  | {
+      kind: 'string'
+      name: string
+      get: (item: AppItem, context: SelectionQueryContext) => readonly string[]
+    }
+
+const NUMBER_FIELDS: Record<string, (item: AppItem) => number> = {
+  gameid: (item) => item.gameId,
+  id: (item) => item.gameId,
+  instanceid: (item) => item.instanceId,
+  group: (item) => item.groupId,
+  groupid: (item) => item.groupId,
+  x: (item) => item.x,
+  y: (item) => item.y,
+  z: (item) => item.z,
+}
+
+const VECTOR_FIELDS: Record<string, Record<string, (item: AppItem) => number>> = {
+  rot: {
+    x: (item) => item.rotation.x,
+    y: (item) => item.rotation.y,
+    z: (item) => item.rotation.z,
+  },
+  scale: {
+    x: (item) => item.extra.Scale.X,
+    y: (item) => item.extra.Scale.Y,
+    z: (item) => item.extra.Scale.Z,
+  },
+}
+VECTOR_FIELDS.rotation = VECTOR_FIELDS.rot!
+
+// 浮点比较容差（缩放、旋转等字段保存时会有精度误差）
+const EPSILON = 1e-6
+
+function compareNumber(value: number, op: SelectionQueryCompareOp, target: number): boolean {
+  switch (op) {
+    case '=':
+      return Math.abs(value - target) <= EPSILON
+    case '!=':
+      return Math.abs(value - target) > EPSILON
+    case '>':
+      return value > target
+    case '>=':
+      return value >= target - EPSILON
+    case '<':
+      return value < target
+    case '<=':
+      return value <= target + EPSILON
+    default:
+      return false
+  }
+}
+
+function compareStrings(values: readonly string[], op: SelectionQueryCompareOp, target: string) {
+  const needle = target.toLowerCase()
+  switch (op) {
+    case '=':
+      return values.some((value) => value.toLowerCase() === needle)
+    case '!=':
+      return values.every((value) => value.toLowerCase() !== needle)
+    case '~':
+      return values.some((value) => value.toLowerCase().includes(needle))
+    case '!~':
+      return values.every((value) => !value.toLowerCase().includes(needle))
+    default:
+      return false
+  }
+}
+
+// ========== 语法分析 ==========
+
+/**
+ * 递归下降解析，直接生成判定函数
+ *
+ * expr    := and (('or' | '||') and)*
+ * and     := unary (('and' | '&&') unary)*
+ * unary   := 'not' unary | primary
+ * primary := '(' expr ')' | 'inside' 'selection' 'bbox' | field op value | field ['not'] 'in' '(' values ')'
+ */
+class Parser {
+  private readonly tokens: Token[]
+  private index = 0
+  usesSelectionBox = false
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]!
+    if (token.type !== 'end') this.index++
+    return token
+  }
+
+  private isKeyword(token: Token, keyword: string) {
+    return token.type === 'ident' && token.value.toLowerCase() === keyword
+  }
+
+  private isPunct(token: Token, value: string) {
+    return token.type === 'punct' && token.value === value
+  }
+
+  private unexpected(token: Token): never {
+    if (token.type === 'end') throw new QueryParseError('unexpectedEnd')
+    const text = token.type === 'string' ? `"${token.value}"` : String(token.value)
+    throw new QueryParseError('unexpectedToken', { token: text, pos: token.pos + 1 })
+  }
+
+  private expectKeyword(keyword: string) {
+    const token = this.next()
+    if (!this.isKeyword(token, keyword)) this.unexpected(token)
+  }
+
+  private expectPunct(value: string) {
+    const token = this.next()
+    if (!this.isPunct(token, value)) this.unexpected(token)
+  }
+
+  parse(): SelectionQueryPredicate {
+    if (this.peek().type === 'end') throw new QueryParseError('empty')
+    const predicate = this.parseOr()
+    const token = this.peek()
+    if (token.type !== 'end') this.unexpected(token)
+    return predicate
+  }
+
+  private parseOr(): SelectionQueryPredicate {
+    let left = this.parseAnd()
+    while (this.isKeyword(this.peek(), 'or') || this.isPunct(this.peek(), '||')) {
+      this.next()
+      const a = left
+      const b = this.parseAnd()
+      left = (item, context) => a(item, context) || b(item, context)
+    }
+    return left
+  }
+
+  private parseAnd(): SelectionQueryPredicate {
+    let left = this.parseUnary()
+    while (this.isKeyword(this.peek(), 'and') || this.isPunct(this.peek(), '&&')) {
+      this.next()
+      const a = left
+      const b = this.parseUnary()
+      left = (item, context) => a(item, context) && b(item, context)
+    }
+    return left
+  }
+
+  private parseUnary(): SelectionQueryPredicate {
+    if (this.isKeyword(this.peek(), 'not')) {
+      this.next()
+      const operand = this.parseUnary()
+      return (item, context) => !operand(item, context)
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): SelectionQueryPredicate {
+    const token = this.peek()
+
+    if (this.isPunct(token, '(')) {
+      this.next()
+      const inner = this.parseOr()
+      this.expectPunct(')')
+      return inner
+    }
+
+    if (this.isKeyword(token, 'inside')) {
+      this.next()
+      this.expectKeyword('selection')
+      this.expectKeyword('bbox')
+      this.usesSelectionBox = true
+      return (item, context) => context.isInsideSelectionBox(item)
+    }
+
+    const field = this.parseField()
+
+    // field [not] in (v1, v2, ...)
+    const negate = this.isKeyword(this.peek(), 'not')
+    if (negate || this.isKeyword(this.peek(), 'in')) {
+      if (negate) this.next()
+      this.expectKeyword('in')
+      return this.parseIn(field, negate)
+    }
+
+    const opToken = this.next()
+    if (opToken.type !== 'op') this.unexpected(opToken)
+    const op = opToken.value
+    const value = this.parseValue(field)
+
+    if (field.kind === 'number') {
+      if (op === '~' || op === '!~') {
+        throw new QueryParseError('invalidOperator', { op, field: field.name })
+      }
+      const get = field.get
+      const target = value as number
+      return (item) => compareNumber(get(item), op, target)
+    }
+
+    if (op !== '=' && op !== '!=' && op !== '~' && op !== '!~') {
+      throw new QueryParseError('invalidOperator', { op, field: field.name })
+    }
+    const get = field.get
+    const target = value as string
+    return (item, context) => compareStrings(get(item, context), op, target)
+  }
+
+  private parseIn(field: FieldAccessor, negate: boolean): SelectionQueryPredicate {
+    this.expectPunct('(')
+    const values: (number | string)[] = [this.parseValue(field)]
+    while (this.isPunct(this.peek(), ',')) {
+      this.next()
+      values.push(this.parseValue(field))
+    }
+    this.expectPunct(')')
+
+    if (field.kind === 'number') {
+      const get = field.get
+      const targets = values as number[]
+      return (item) => {
+        const value = get(item)
+        const found = targets.some((target) => Math.abs(value - target) <= EPSILON)
+        return negate ? !found : found
+      }
+    }
+
+    const get = field.get
+    const targets = values.map((value) => String(value).toLowerCase())
+    return (item, context) => {
+      const names = get(item, context).map((name) => name.toLowerCase())
+      const found = names.some((name) => targets.includes(name))
+      return negate ? !found : found
+    }
+  }
+
+  private parseField(): FieldAccessor {
+    const token = this.next()
+    if (token.type !== 'ident') this.unexpected(token)
+    const name = token.value.toLowerCase()
+
+    if (name === 'name') {
+      return {
+        kind: 'string',
+        name: token.value,
+        get: (item, context) => context.getNames(item.gameId),
+      }
+    }
+
+    // dye(slot)：指定染色分组的颜色索引，未染色为 0
+    if (name === 'dye') {
+      this.expectPunct('(')
+      const slotToken = this.next()
+      if (
+        slotToken.type !== 'number' ||
+        !Number.isInteger(slotToken.value) ||
+        slotToken.value < 0
+      ) {
+        this.unexpected(slotToken)
+      }
+      this.expectPunct(')')
+      const slot = slotToken.value
+      return {
+        kind: 'number',
+        name: `dye(${slot})`,
+        get: (item) => decodeColorMapToGroupMap(item.extra.ColorMap).get(slot) ?? 0,
+      }
+    }
+
+    const vector = VECTOR_FIELDS[name]
+    if (vector) {
+      this.expectPunct('.')
+      const axisToken = this.next()
+      const axis = axisToken.type === 'end' ? '' : String(axisToken.value)
+      const get = axisToken.type === 'ident' ? vector[axis.toLowerCase()] : undefined
+      const fieldName = `${token.value}.${axis}`
+      if (!get) throw new QueryParseError('unknownField', { field: fieldName })
+      return { kind: 'number', name: fieldName, get }
+    }
+
+    const get = NUMBER_FIELDS[name]
+    if (!get) throw new QueryParseError('unknownField', { field: token.value })
+    return { kind: 'number', name: token.value, get }
+  }
+
+  private parseValue(field: FieldAccessor): number | string {
+    const token = this.next()
+    if (field.kind === 'number') {
+      if (token.type !== 'number') {
+        if (token.type === 'end') this.unexpected(token)
+        throw new QueryParseError('expectedNumber', { field: field.name })
+      }
+      return token.value
+    }
+    // 字符串字段也接受不带引号的单词或数字
+    if (token.type === 'string' || token.type === 'ident') return token.value
+    if (token.type === 'number') return String(token.value)
+    this.unexpected(token)
+  }
+}
+
+/**
+ * 解析查询语句
+ */
+export function parseSelectionQuery(source: string): SelectionQueryParseResult {
+  try {
+    const parser = new Parser(tokenize(source))
+    const predicate = parser.parse()
+    return { predicate, usesSelectionBox: parser.usesSelectionBox }
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      return { error: { key: error.key, params: error.params } }
+    }
+    throw error
+  }
+}
+
+/**
+ * 在物品列表上执行已解析的查询，返回匹配物品的 internalId
+ */
+export function runSelectionQuery(
+  items: readonly AppItem[],
+  predicate: SelectionQueryPredicate,
+  context: SelectionQueryContext
+): string[] {
+  const result: string[] = []
+  for (const item of items) {
+    if (predicate(item, context)) result.push(item.internalId)
+  }
+  return result
+}
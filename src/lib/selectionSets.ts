@@ -0,0 +1,21 @@
+import type { AppItem, SelectionSet } from '../types/editor'
+
+/**
+ * 过滤选择集中已删除的物品
+ *
+ * 内存中的选择集保留原始成员，删除后撤销仍能恢复；
+ * 读取（召回、计数）和持久化（工作区快照、方案集存档）时统一经过此函数过滤。
+ * 没有变化的选择集保持原引用。
+ */
+export function pruneSelectionSets(
+  sets: readonly SelectionSet[],
+  items: readonly AppItem[]
+): SelectionSet[] {
+  if (sets.length === 0) return []
+
+  const existingIds = new Set(items.map((item) => item.internalId))
+  return sets.map((set) => {
+    const itemIds = set.itemIds.filter((id) => existingIds.has(id))
+    return itemIds.length === set.itemIds.length ? set : { ...set, itemIds }
+  })
+}
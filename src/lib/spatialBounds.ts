@@ -1,4 +1,4 @@
-import { Box3, Vector3 } from 'three'
+import { Box3, Matrix4, Vector3 } from 'three'
 import { getThreeModelManager, type ThreeModelManager } from '@/composables/useThreeModelManager'
 import { useGameDataStore } from '@/stores/gameDataStore'
 import { useSettingsStore } from '@/stores/settingsStore'
@@ -75,10 +75,14 @@ function getItemModelBox(item: AppItem, context: WorldBoundsContext): Box3 | nul
  *
  * 注意这里统一返回的是“世界空间 AABB”，不是数据空间 bounds。
  */
-function getItemWorldBoxWithContext(item: AppItem, context: WorldBoundsContext): Box3 {
+function getItemWorldBoxWithContext(
+  item: AppItem,
+  context: WorldBoundsContext,
+  frameInverse: Matrix4 | null = null
+): Box3 {
   if (isSlidePathItem(item)) {
     const slidePathBox = getSlidePathWorldBox(item)
-    if (slidePathBox) return slidePathBox
+    if (slidePathBox) return frameInverse ? slidePathBox.applyMatrix4(frameInverse) : slidePathBox
   }
 
   // 相机 framing / focus 应该和用户“眼睛看到的东西”一致，
@@ -91,11 +95,14 @@ function getItemWorldBoxWithContext(item: AppItem, context: WorldBoundsContext):
       gameId === item.gameId ? getItemModelBox(item, context) : null,
   })
 
+  // 指定参考系时先把物品变换到参考系下，再求该参考系轴向的 AABB
+  const matrix = frameInverse ? frameInverse.clone().multiply(worldMatrix) : worldMatrix
+
   if (modelBox) {
-    return getAABBFromMatrixAndModelBox(worldMatrix, modelBox)
+    return getAABBFromMatrixAndModelBox(matrix, modelBox)
   }
 
-  return getAABBFromMatrix(worldMatrix, UNIT_BOX_SIZE)
+  return getAABBFromMatrix(matrix, UNIT_BOX_SIZE)
 }
 
 /**
@@ -209,3 +216,25 @@ export function getItemsWorldBoundsMetrics(items: AppItem[]): WorldBoundsMetrics
     maxDim: Math.max(size.x, size.y, size.z),
   }
 }
+
+/**
+ * 获取多个物品沿旋转参考系轴向（如工作坐标系）的包围盒尺寸。
+ *
+ * 每个物品先变换到参考系下再求 AABB，因此参考系与物品朝向一致时结果是紧致的；
+ * 用世界 AABB 的尺寸代替会在参考系旋转后产生重叠或空隙。
+ *
+ * @param frameRotation 参考系在世界空间中的旋转矩阵
+ */
+export function getItemsSizeInFrame(items: AppItem[], frameRotation: Matrix4): Vector3 | null {
+  if (items.length === 0) return null
+
+  const context = createWorldBoundsContext()
+  const frameInverse = frameRotation.clone().invert()
+  const mergedBox = new Box3()
+
+  for (const item of items) {
+    mergedBox.union(getItemWorldBoxWithContext(item, context, frameInverse))
+  }
+
+  return mergedBox.isEmpty() ? null : mergedBox.getSize(new Vector3())
+}
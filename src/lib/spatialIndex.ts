@@ -0,0 +1,57 @@
+import type { Box3 } from 'three'
+
+/**
+ * 均匀网格空间索引
+ *
+ * 按 AABB 把对象登记到覆盖的所有网格单元中，用于快速筛选可能相交的候选对象。
+ * 适合尺寸相近的物品（如同类家具）；单元尺寸建议取对象的典型尺寸。
+ */
+export class SpatialGrid<T> {
+  private readonly cellSize: number
+  private readonly cells = new Map<string, T[]>()
+
+  constructor(cellSize: number) {
+    this.cellSize = Math.max(cellSize, 1e-3)
+  }
+
+  private forEachCell(box: Box3, callback: (key: string) => void) {
+    const { cellSize } = this
+    const minX = Math.floor(box.min.x / cellSize)
+    const minY = Math.floor(box.min.y / cellSize)
+    const minZ = Math.floor(box.min.z / cellSize)
+    const maxX = Math.floor(box.max.x / cellSize)
+    const maxY = Math.floor(box.max.y / cellSize)
+    const maxZ = Math.floor(box.max.z / cellSize)
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        for (let z = minZ; z <= maxZ; z++) {
+          callback(`${x},${y},${z}`)
+        }
+      }
+    }
+  }
+
+  insert(value: T, box: Box3) {
+    this.forEachCell(box, (key) => {
+      const cell = this.cells.get(key)
+      if (cell) cell.push(value)
+      else this.cells.set(key, [value])
+    })
+  }
+
+  /**
+   * 查询与 box 所在网格单元重叠的对象（候选集，调用方需再做精确判断）
+   */
+  query(box: Box3): Set<T> {
+    const result = new Set<T>()
+    this.forEachCell(box, (key) => {
+      this.cells.get(key)?.forEach((value) => result.add(value))
+    })
+    return result
+  }
+
+  clear() {
+    this.cells.clear()
+  }
+}
@@ -0,0 +1,436 @@
+import { Box3, Euler, Matrix4, Quaternion, Vector3 } from 'three'
+import type { AppItem } from '../types/editor'
+import type {
+  ValidationFinding,
+  ValidationIssue,
+  ValidationResult,
+  ValidationSeverity,
+} from '../types/persistence'
+import { getOBBFromMatrixAndModelBox, getOBBOverlapRatio, type OBB } from './collision'
+import { isPointInPolygon } from './geometry'
+import { SpatialGrid } from './spatialIndex'
+
+// 浮点数容差常量
+// 用于处理浮点数存储精度误差，避免误报
+// - 缩放验证：如 0.699999988079071 vs 0.69999998807907
+// - 旋转验证：如 0.0000001 应视为 0（禁止旋转的轴）
+const EPSILON = 1e-6 // 0.000001
+
+/** 游戏内单个组合允许的最大物品数 */
+export const MAX_GROUP_SIZE = 50
+
+/** 可建造高度范围 */
+export const BUILDABLE_Z_RANGE = { min: -3500, max: 10200 }
+
+const DEFAULT_FURNITURE_SIZE: [number, number, number] = [100, 100, 150]
+
+export interface FurnitureConstraint {
+  scaleRange?: [number, number]
+  rotationAllowed?: { x: boolean; y: boolean; z: boolean }
+  /** 家具尺寸（用于重叠检测） */
+  size?: [number, number, number]
+}
+
+/** 验证设置（与设置项同名） */
+export interface ValidationSettings {
+  enableDuplicateDetection: boolean
+  enableLimitDetection: boolean
+  enableOverlapDetection: boolean
+  /** 重叠阈值：交叠体积占较小物品体积的比例 (0 ~ 1) */
+  overlapDetectionRatio: number
+  /** 按规则 id 单独启用 / 禁用；未列出的规则使用其 defaultEnabled */
+  validationRuleToggles: Record<string, boolean>
+}
+
+/** 旧版检测开关：作为对应规则的总开关保留 */
+type LegacyValidationToggle =
+  | 'enableDuplicateDetection'
+  | 'enableLimitDetection'
+  | 'enableOverlapDetection'
+
+const LEGACY_RULE_TOGGLES: Record<string, LegacyValidationToggle> = {
+  outOfBounds: 'enableLimitDetection',
+  invalidScale: 'enableLimitDetection',
+  invalidRotation: 'enableLimitDetection',
+  oversizedGroup: 'enableLimitDetection',
+  overlap: 'enableOverlapDetection',
+  duplicate: 'enableDuplicateDetection',
+}
+
+export interface ValidationContext {
+  settings: ValidationSettings
+  buildableAreas: Record<string, number[][]> | null
+  furnitureConstraints: Map<string, FurnitureConstraint> | null
+  /** 跳过坐标相关检查（如 WORLDBUILD_ 方案） */
+  skipCoordinateChecks: boolean
+}
+
+export interface ValidationRule {
+  id: string
+  severity: ValidationSeverity
+  /** 状态栏标签 i18n key */
+  label: string
+  /** 规则说明 i18n key */
+  description: string
+  /** 保存时的自动修复说明 i18n key */
+  fix?: string
+  /** 设置中未指定时是否启用（默认 true） */
+  defaultEnabled?: boolean
+  check(items: AppItem[], context: ValidationContext): ValidationIssue[]
+}
+
+function formatLimit(value: number): number {
+  return Number(value.toFixed(2))
+}
+
+// --- 内置规则 ---
+
+const outOfBoundsRule: ValidationRule = {
+  id: 'outOfBounds',
+  severity: 'error',
+  label: 'validation.rules.outOfBounds.label',
+  description: 'validation.rules.outOfBounds.description',
+  fix: 'validation.rules.outOfBounds.fix',
+  check(items, context) {
+    if (context.skipCoordinateChecks) return []
+
+    const polygons = context.buildableAreas ? Object.values(context.buildableAreas) : []
+    const issues: ValidationIssue[] = []
+
+    for (const item of items) {
+      if (item.z < BUILDABLE_Z_RANGE.min || item.z > BUILDABLE_Z_RANGE.max) {
+        issues.push({
+          itemIds: [item.internalId],
+          message: {
+            key: 'validation.messages.outOfBoundsZ',
+            params: {
+              z: Math.round(item.z),
+              min: BUILDABLE_Z_RANGE.min,
+              max: BUILDABLE_Z_RANGE.max,
+            },
+          },
+        })
+        continue
+      }
+
+      if (polygons.length === 0) continue
+
+      const point = { x: item.x, y: item.y }
+      if (!polygons.some((polygon) => isPointInPolygon(point, polygon))) {
+        issues.push({
+          itemIds: [item.internalId],
+          message: {
+            key: 'validation.messages.outOfBoundsArea',
+            params: { x: Math.round(item.x), y: Math.round(item.y) },
+          },
+        })
+      }
+    }
+
+    return issues
+  },
+}
+
+const invalidScaleRule: ValidationRule = {
+  id: 'invalidScale',
+  severity: 'error',
+  label: 'validation.rules.invalidScale.label',
+  description: 'validation.rules.invalidScale.description',
+  fix: 'validation.rules.invalidScale.fix',
+  check(items, context) {
+    const constraints = context.furnitureConstraints
+    if (!constraints) return []
+
+    const issues: ValidationIssue[] = []
+    for (const item of items) {
+      const scaleRange = constraints.get(item.gameId.toString())?.scaleRange
+      if (!scaleRange) continue
+
+      // 使用容差比较：只有超出范围 epsilon 以上才算违规
+      // 例如：min=0.699999988, max=1.299999952, 实际值=1.2999999 → 合规
+      const scale = item.extra.Scale
+      const [min, max] = scaleRange
+      const isInvalid = [scale.X, scale.Y, scale.Z].some(
+        (value) => value < min - EPSILON || value > max + EPSILON
+      )
+      if (isInvalid) {
+        issues.push({
+          itemIds: [item.internalId],
+          message: {
+            key: 'validation.messages.invalidScale',
+            params: { min: formatLimit(min), max: formatLimit(max) },
+          },
+        })
+      }
+    }
+    return issues
+  },
+}
+
+const invalidRotationRule: ValidationRule = {
+  id: 'invalidRotation',
+  severity: 'warning',
+  label: 'validation.rules.invalidRotation.label',
+  description: 'validation.rules.invalidRotation.description',
+  fix: 'validation.rules.invalidRotation.fix',
+  check(items, context) {
+    const constraints = context.furnitureConstraints
+    if (!constraints) return []
+
+    const issues: ValidationIssue[] = []
+    for (const item of items) {
+      const allowed = constraints.get(item.gameId.toString())?.rotationAllowed
+      if (!allowed) continue
+
+      // X轴（Roll）/ Y轴（Pitch）检查 - 使用容差判断是否接近 0
+      const axes: string[] = []
+      if (!allowed.x && Math.abs(item.rotation.x) > EPSILON) axes.push('X')
+      if (!allowed.y && Math.abs(item.rotation.y) > EPSILON) axes.push('Y')
+
+      if (axes.length > 0) {
+        issues.push({
+          itemIds: [item.internalId],
+          message: {
+            key: 'validation.messages.invalidRotation',
+            params: { axes: axes.join(', ') },
+          },
+        })
+      }
+    }
+    return issues
+  },
+}
+
+const oversizedGroupRule: ValidationRule = {
+  id: 'oversizedGroup',
+  severity: 'warning',
+  label: 'validation.rules.oversizedGroup.label',
+  description: 'validation.rules.oversizedGroup.description',
+  fix: 'validation.rules.oversizedGroup.fix',
+  check(items) {
+    const groups = new Map<number, string[]>()
+    for (const item of items) {
+      if (item.groupId <= 0) continue
+      const members = groups.get(item.groupId)
+      if (members) members.push(item.internalId)
+      else groups.set(item.groupId, [item.internalId])
+    }
+
+    const issues: ValidationIssue[] = []
+    groups.forEach((members, groupId) => {
+      if (members.length > MAX_GROUP_SIZE) {
+        issues.push({
+          itemIds: members,
+          message: {
+            key: 'validation.messages.oversizedGroup',
+            params: { groupId, n: members.length, max: MAX_GROUP_SIZE },
+          },
+        })
+      }
+    })
+    return issues
+  },
+}
+
+const duplicateRule: ValidationRule = {
+  id: 'duplicate',
+  severity: 'info',
+  label: 'validation.rules.duplicate.label',
+  description: 'validation.rules.duplicate.description',
+  check(items) {
+    // 映射索引：key = "gameId,x,y,z,pitch,yaw,roll,scaleX,scaleY,scaleZ"
+    const itemMap = new Map<string, AppItem[]>()
+
+    for (const item of items) {
+      // AppItem 旋转：x=Roll, y=Pitch, z=Yaw
+      const rot = item.rotation
+      // 缩放在 extra 中
+      const scale = item.extra.Scale
+
+      const key = `${item.gameId},${item.x},${item.y},${item.z},${rot.y},${rot.z},${rot.x},${scale.X},${scale.Y},${scale.Z}`
+
+      const list = itemMap.get(key)
+      if (list) list.push(item)
+      else itemMap.set(key, [item])
+    }
+
+    // 每组保留第一个，其余视为重复
+    const issues: ValidationIssue[] = []
+    itemMap.forEach(([first, ...rest]) => {
+      for (const item of rest) {
+        issues.push({
+          itemIds: [item.internalId],
+          message: {
+            key: 'validation.messages.duplicate',
+            params: { instanceId: first!.instanceId },
+          },
+        })
+      }
+    })
+    return issues
+  },
+}
+
+/**
+ * 按游戏数据构建物品的 OBB（与 Box 模式的包围盒一致：X/Y 以中心为原点，Z 以底部为原点）
+ *
+ * Worker 中无法访问 gameDataStore，尺寸由 furnitureConstraints 同步而来。
+ * 旋转与缩放的轴向约定同 matrixTransform.buildWorldMatrixFromItem（未包含父级翻转，
+ * 翻转对所有物品一致，不影响相交判断）。
+ */
+function buildItemOBB(item: AppItem, size: [number, number, number]): OBB {
+  const euler = new Euler(
+    (-(item.rotation.x ?? 0) * Math.PI) / 180,
+    (-(item.rotation.y ?? 0) * Math.PI) / 180,
+    ((item.rotation.z ?? 0) * Math.PI) / 180,
+    'ZYX'
+  )
+  const scale = item.extra.Scale
+  const matrix = new Matrix4().compose(
+    new Vector3(item.x, item.y, item.z),
+    new Quaternion().setFromEuler(euler),
+    new Vector3(scale?.Y ?? 1, scale?.X ?? 1, scale?.Z ?? 1)
+  )
+
+  const [sizeX, sizeY, sizeZ] = size
+  const modelBox = new Box3(
+    new Vector3(-sizeX / 2, -sizeY / 2, 0),
+    new Vector3(sizeX / 2, sizeY / 2, sizeZ)
+  )
+  return getOBBFromMatrixAndModelBox(matrix, modelBox)
+}
+
+const overlapRule: ValidationRule = {
+  id: 'overlap',
+  severity: 'warning',
+  label: 'validation.rules.overlap.label',
+  description: 'validation.rules.overlap.description',
+  check(items, context) {
+    const threshold = context.settings.overlapDetectionRatio
+
+    // 只比较同类物品
+    const itemsByGameId = new Map<number, AppItem[]>()
+    for (const item of items) {
+      const list = itemsByGameId.get(item.gameId)
+      if (list) list.push(item)
+      else itemsByGameId.set(item.gameId, [item])
+    }
+
+    const issues: ValidationIssue[] = []
+    itemsByGameId.forEach((group, gameId) => {
+      if (group.length < 2) return
+
+      const size =
+        context.furnitureConstraints?.get(gameId.toString())?.size ?? DEFAULT_FURNITURE_SIZE
+      const entries = group.map((item) => {
+        const obb = buildItemOBB(item, size)
+        return { item, obb, aabb: obb.getAABB() }
+      })
+
+      // 单元尺寸取组内最大包围盒边长，保证每个物品最多跨 2×2×2 个单元
+      const boxSize = new Vector3()
+      let cellSize = 0
+      for (const { aabb } of entries) {
+        aabb.getSize(boxSize)
+        cellSize = Math.max(cellSize, boxSize.x, boxSize.y, boxSize.z)
+      }
+
+      const grid = new SpatialGrid<number>(cellSize)
+      entries.forEach(({ aabb }, index) => grid.insert(index, aabb))
+
+      entries.forEach((entry, index) => {
+        for (const otherIndex of grid.query(entry.aabb)) {
+          // 每对只检查一次
+          if (otherIndex <= index) continue
+          const other = entries[otherIndex]!
+          if (!entry.aabb.intersectsBox(other.aabb)) continue
+
+          const ratio = getOBBOverlapRatio(entry.obb, other.obb)
+          if (ratio < threshold) continue
+
+          issues.push({
+            itemIds: [entry.item.internalId, other.item.internalId],
+            message: {
+              key: 'validation.messages.overlap',
+              params: {
+                a: entry.item.instanceId,
+                b: other.item.instanceId,
+                ratio: Math.round(ratio * 100),
+              },
+            },
+          })
+        }
+      })
+    })
+    return issues
+  },
+}
+
+// 规则注册表（按状态栏显示顺序排列）
+const rules: ValidationRule[] = [
+  outOfBoundsRule,
+  invalidScaleRule,
+  invalidRotationRule,
+  oversizedGroupRule,
+  overlapRule,
+  duplicateRule,
+]
+
+/**
+ * 注册验证规则
+ *
+ * 验证在 Worker 中执行，规则需要在 Worker 加载的模块中注册才会生效。
+ */
+export function registerValidationRule(rule: ValidationRule) {
+  if (rules.some((existing) => existing.id === rule.id)) {
+    throw new Error(`Validation rule "${rule.id}" is already registered`)
+  }
+  rules.push(rule)
+}
+
+export function getValidationRules(): readonly ValidationRule[] {
+  return rules
+}
+
+/** 规则是否启用：旧版总开关关闭时一律跳过，其余按规则 id 查找设置 */
+export function isValidationRuleEnabled(
+  rule: ValidationRule,
+  settings: ValidationSettings
+): boolean {
+  const legacyToggle = LEGACY_RULE_TOGGLES[rule.id]
+  if (legacyToggle && !settings[legacyToggle]) return false
+  return settings.validationRuleToggles?.[rule.id] ?? rule.defaultEnabled ?? true
+}
+
+/** 是否有任一验证规则启用 */
+export function isValidationEnabled(settings: ValidationSettings): boolean {
+  return rules.some((rule) => isValidationRuleEnabled(rule, settings))
+}
+
+/** 依次执行已启用的规则，只返回存在问题的规则结果 */
+export function runValidationRules(
+  items: AppItem[],
+  settings: ValidationSettings,
+  context: Omit<ValidationContext, 'settings'>
+): ValidationResult {
+  const findings: ValidationFinding[] = []
+  if (items.length === 0) return { findings }
+
+  for (const rule of rules) {
+    if (!isValidationRuleEnabled(rule, settings)) continue
+
+    const issues = rule.check(items, { ...context, settings })
+    if (issues.length === 0) continue
+
+    findings.push({
+      ruleId: rule.id,
+      severity: rule.severity,
+      label: rule.label,
+      description: rule.description,
+      fix: rule.fix,
+      issues,
+    })
+  }
+
+  return { findings }
+}
@@ -83,6 +83,10 @@ export const enLocale = {
       importFromCode: 'Import from Code',
       import: 'Import Data',
       export: 'Export Data',
+      exportScene: 'Export 3D Scene',
+      billOfMaterials: 'Bill of Materials',
+      compareScheme: 'Compare Schemes',
+      mergeScheme: 'Merge Schemes',
       saveToGame: 'Save to Game',
       reopenLastClosedScheme: 'Reopen Closed Scheme',
       joinCloudScheme: 'Join Cloud Scheme',
@@ -95,11 +99,22 @@ export const enLocale = {
       duplicate: 'Duplicate',
       paste: 'Paste',
       advancedPaste: 'Advanced Paste',
+      scatter: 'Scatter',
+      dropToSurface: 'Drop to Surface',
+      dropToSurfaceAligned: 'Drop to Surface and Align to Normal',
       delete: 'Delete',
       selectAll: 'Select All',
       deselectAll: 'Deselect All',
       invertSelection: 'Invert Selection',
       selectSameType: 'Select Same Type',
+      selectOverlapping: 'Select Overlapping Items',
+      selectByQuery: 'Select by Query',
+      saveSelectionSet: 'Save as Selection Set',
+      hideSelected: 'Hide Selected',
+      unhideAll: 'Unhide All',
+      isolateSelection: 'Isolate Selection',
+      lockSelected: 'Lock Selected',
+      unlockAll: 'Unlock All',
       group: 'Group',
       ungroup: 'Ungroup',
       move: 'Move',
@@ -113,6 +128,15 @@ export const enLocale = {
       toggleFullscreen: 'Toggle Fullscreen',
       setWorkingCoordinateFromSelection: 'Working: Fit to Object',
       resetWorkingCoordinate: 'Working: Reset',
+      clippingPlanes: 'Section Planes',
+      addClippingPlaneX: 'Add X Section Plane',
+      addClippingPlaneY: 'Add Y Section Plane',
+      addClippingPlaneZ: 'Add Z Section Plane',
+      flipClippingPlane: 'Flip Active Section Plane',
+      clearClippingPlanes: 'Clear All Section Planes',
+      levelUp: 'Level Up',
+      levelDown: 'Level Down',
+      showAllLevels: 'Show All Levels',
       setViewPerspective: 'Perspective',
       setViewTop: 'Top',
       setViewBottom: 'Bottom',
@@ -126,16 +150,24 @@ export const enLocale = {
       showSelection: 'Selection (1)',
       showTransform: 'Transform (2)',
       showEditorSettings: 'Editor Settings (3)',
+      showOutliner: 'Outliner (4)',
+      showLevels: 'Levels (5)',
     },
     tool: {
       select: 'Select',
       lasso: 'Lasso',
       hand: 'Hand',
+      measure: 'Measure',
+      pinMeasurement: 'Pin Dimension',
+      clearDimensions: 'Clear Dimensions',
       toggleTranslate: 'Translate Mode',
       toggleRotate: 'Rotate Mode',
+      toggleScale: 'Scale Mode',
       toggleFurnitureLibrary: 'Furniture Library',
       toggleDyePanel: 'Dye Panel',
+      togglePrefabLibrary: 'Prefab Library',
       quickAlign: 'Quick Align',
+      pickSnapSource: 'Pick Snap Source',
       replaceFurniture: 'Replace',
     },
     selectionAction: {
@@ -173,19 +205,12 @@ export const enLocale = {
 
   // File Operations and Monitoring
   fileOps: {
-    duplicate: {
-      title: 'Duplicate Items',
-      desc: 'Detected {n} duplicate items.',
-      detail:
-        'These items have identical position, rotation, and scale. They will overlap completely in-game.',
+    validation: {
+      title: 'Detected Issues',
     },
     limit: {
       title: 'Auto-fix Limits',
       desc: 'The following issues will be fixed upon saving:',
-      outOfBounds: '{n} items out of bounds (will be removed)',
-      oversized: '{n} oversized groups (will be ungrouped)',
-      invalidScale: '{n} items with scale values exceeding limits (will be clamped)',
-      invalidRotation: '{n} items rotated on prohibited axes (will be reset to zero)',
     },
     save: {
       confirmTitle: 'Confirm Save',
@@ -201,6 +226,10 @@ export const enLocale = {
     export: {
       noData: 'No data to export',
     },
+    exportScene: {
+      success: 'Exported {count} items to GLB file',
+      failed: 'Failed to export 3D scene: {reason}',
+    },
     saveToGame: {
       noDir: 'Please link game folder first',
       noData: 'No data to save',
@@ -365,6 +394,60 @@ export const enLocale = {
     },
   },
 
+  // Scheme Validation
+  validation: {
+    clickToSelect: 'Click to select',
+    more: '…and {n} more',
+    fixTip: '{action} (undoable)',
+    fixed: 'Fixed {n} items',
+    fixActions: {
+      outOfBounds: 'Move to the nearest buildable position',
+      invalidScale: 'Clamp scale to the allowed range',
+      invalidRotation: 'Reset prohibited rotation axes to zero',
+      oversizedGroup: 'Split into groups of at most 50 items by position',
+    },
+    rules: {
+      outOfBounds: {
+        label: '{n} Out of bounds',
+        description: '{n} items out of build area',
+        fix: 'will be removed',
+      },
+      invalidScale: {
+        label: '{n} Invalid scale',
+        description: '{n} items have scale values exceeding furniture limits',
+        fix: 'will be clamped',
+      },
+      invalidRotation: {
+        label: '{n} Invalid rotation',
+        description: '{n} items are rotated on prohibited axes',
+        fix: 'will be reset to zero',
+      },
+      oversizedGroup: {
+        label: '{n} Oversized groups',
+        description: '{n} groups exceed 50 items',
+        fix: 'will be ungrouped',
+      },
+      overlap: {
+        label: '{n} Overlaps',
+        description: '{n} pairs of same-type items overlap above the threshold',
+      },
+      duplicate: {
+        label: '{n} Duplicates',
+        description:
+          '{n} duplicate items (identical position, rotation, and scale; they will overlap completely in-game)',
+      },
+    },
+    messages: {
+      outOfBoundsZ: 'Height {z} is outside {min} ~ {max}',
+      outOfBoundsArea: '({x}, {y}) is outside the build area',
+      invalidScale: 'Scale outside {min} ~ {max}',
+      invalidRotation: 'Rotated on prohibited axes: {axes}',
+      oversizedGroup: 'Group {groupId} has {n} items (limit {max})',
+      overlap: 'InstanceID {a} and {b} overlap by {ratio}%',
+      duplicate: 'Overlaps InstanceID {instanceId} exactly',
+    },
+  },
+
   advancedPaste: {
     title: 'Advanced Paste',
     description:
@@ -374,6 +457,45 @@ export const enLocale = {
     positionDelta: 'Position Delta (X / Y / Z)',
     rotationDelta: 'Rotation Delta (X / Y / Z)',
     scaleMultiplier: 'Scale Multiplier (X / Y / Z)',
+    radial: {
+      center: 'Center',
+      centerSelection: 'Selection Center',
+      centerCustom: 'Custom',
+      centerItem: 'Picked Item',
+      pickItem: 'Pick in Scene',
+      pickedNone: 'No item picked yet',
+      axis: 'Axis',
+      alignToWorking: 'Use Working Coordinates',
+      angleStep: 'Angle Step',
+      angleSweep: 'Total Sweep',
+      angle: 'Angle (°)',
+      heightStep: 'Height Rise per Copy',
+      faceCenter: 'Keep Facing Center',
+      faceCenterHint: 'When off, copies only move along the circle and keep the original facing',
+    },
+    grid: {
+      counts: 'Counts (X / Y / Z)',
+      spacing: 'Spacing (X / Y / Z)',
+      gap: 'Extra Gap (X / Y / Z)',
+      autoSpacing: 'Auto Spacing from Bounds',
+      grouping: 'Grouping',
+      groupPerCopy: 'One Group per Copy',
+      groupPerRow: 'One Group per Row',
+      groupLimitHint: 'Groups over {max} items are split automatically',
+    },
+    path: {
+      source: 'Path Source',
+      sourceSlidePath: 'Selected Slide Path',
+      sourceDrawn: 'Draw in Viewport',
+      draw: 'Draw Path',
+      summary: '{n} points, total length {length}',
+      noSlidePath: 'Select a slide path first',
+      noDrawnPath: 'No path drawn yet',
+      count: 'Count (including both ends)',
+      alignToTangent: 'Follow Path Direction',
+      alignToTangentHint:
+        'Turns copies along the path tangent, treating +X of the clipboard as forward',
+    },
     mode: {
       preserveIds: {
         title: 'Preserve Source IDs',
@@ -384,9 +506,246 @@ export const enLocale = {
         title: 'Step Repeat',
         description: 'Creates multiple copies in sequence, stacking transforms on each new copy.',
       },
+      radialRepeat: {
+        title: 'Radial Repeat',
+        description:
+          'Copies evenly around a center and axis, with an optional height rise per copy for spirals.',
+      },
+      gridRepeat: {
+        title: 'Grid Repeat',
+        description:
+          'Lays out copies in columns × rows × layers, ideal for floors, walls and fences.',
+      },
+      pathRepeat: {
+        title: 'Distribute Along Path',
+        description:
+          'Places copies at equal spacing along a slide path or a drawn polyline, ideal for lanterns and fence posts.',
+      },
+    },
+  },
+
+  // Path Drawing
+  pathDraw: {
+    hint: 'Click to add points, Enter to finish, Backspace to undo, Esc to cancel',
+    length: 'Length',
+  },
+
+  // Scatter
+  scatter: {
+    title: 'Scatter',
+    description:
+      'Randomly places copies of the selected furniture inside a region with a minimum spacing. The same seed reproduces the result.',
+    templates: 'Templates ({n} types)',
+    region: 'Region',
+    drawRegion: 'Draw Region',
+    redrawRegion: 'Redraw',
+    noRegion: 'No region drawn yet',
+    regionSummary: 'Area about {area} m²',
+    regionHint: 'Drag a box or lasso to draw the scatter region, Esc to cancel',
+    count: 'Count',
+    spacing: 'Minimum Spacing',
+    randomYaw: 'Random Yaw',
+    randomScale: 'Random Scale (within furniture scale range)',
+    followSurface: 'Follow Surface Below',
+    seed: 'Seed',
+    rollSeed: 'New seed',
+    confirm: 'Scatter',
+    noneFit: 'Nothing fits in the region. Enlarge it or reduce the spacing',
+    partialFit: 'Only {n} of {total} items fit in the region',
+  },
+
+  // Bill of Materials
+  billOfMaterials: {
+    title: 'Bill of Materials',
+    description: 'Count and price furniture by type and dye, export as CSV or Markdown',
+    scope: {
+      scheme: 'Entire scheme',
+      selection: 'Current selection ({n})',
+    },
+    column: {
+      category: 'Category',
+      name: 'Name',
+      gameId: 'Item ID',
+      dye: 'Dye',
+      count: 'Count',
+      unitPrice: 'Unit Price',
+      totalPrice: 'Subtotal',
+    },
+    total: 'Total',
+    uncategorized: 'Uncategorized',
+    defaultDye: 'Default',
+    empty: 'No items to count',
+    summary: {
+      count: '{n} items',
+      price: 'Total price {n}',
+      unpriced: '{n} items without price info',
+    },
+    exportCsv: 'Export CSV',
+    exportMarkdown: 'Export Markdown',
+    fileSuffix: 'bom',
+  },
+
+  // Scheme Diff
+  schemeDiff: {
+    title: 'Compare Schemes',
+    description: 'Choose a baseline to compare with the current scheme "{name}"',
+    compare: 'Compare',
+    close: 'End Comparison',
+    loadFailed: 'Failed to load comparison data',
+    itemCount: '{n} items',
+    source: {
+      scheme: 'Open Schemes',
+      history: 'Watch History',
+      archive: 'Archive',
+    },
+    empty: {
+      scheme: 'No other open schemes',
+      history: 'No watch history yet',
+      archive: 'The archive is empty',
+    },
+    kind: {
+      added: 'Added',
+      removed: 'Removed',
+      moved: 'Moved',
+      rotated: 'Rotated',
+      rescaled: 'Rescaled',
+      redyed: 'Re-dyed',
+      regrouped: 'Regrouped',
+    },
+    comparedWith: 'Baseline: {source} · {name}',
+    selectAll: 'Select All',
+    unchanged: '{n} items unchanged',
+    noChanges: 'No changes',
+    more: '{n} more not shown',
+    inactive: 'No comparison in progress for this scheme',
+  },
+
+  // Named Selection Sets
+  selectionSet: {
+    menu: 'Selection Sets',
+    defaultName: 'Selection Set {n}',
+    saveTitle: 'Save Selection Set',
+    saveDescription: 'Save the {n} selected items as a selection set stored with the scheme',
+    name: 'Name',
+    overwriteHint: 'A set with this name already exists; its members will be replaced',
+    saved: 'Saved selection set "{name}" ({n} items)',
+    update: 'Update from Selection',
+    actions: {
+      new: 'Select',
+      add: 'Add to Selection',
+      subtract: 'Subtract from Selection',
+      intersect: 'Intersect with Selection',
+    },
+  },
+
+  // Select by Query
+  selectionQuery: {
+    title: 'Select by Query',
+    description:
+      'Filter items in the current scheme by conditions, combined with and / or / not and parentheses',
+    queryLabel: 'Query',
+    placeholder: 'e.g. gameId in (1001, 1002) and z > 500',
+    preview: '{n} items will match',
+    action: 'Selection Mode',
+    saved: 'Saved Queries',
+    noSaved: 'No saved queries yet. Saved queries can be reused in every scheme',
+    saveNamePlaceholder: 'Query name (defaults to the query itself)',
+    save: 'Save Query',
+    delete: 'Delete',
+    apply: 'Select',
+    applied: 'Query matched {n} items',
+    errors: {
+      empty: 'Please enter a query',
+      unexpectedChar: 'Unrecognized character at position {pos}: {char}',
+      unterminatedString: 'String starting at position {pos} is missing a closing quote',
+      unexpectedToken: 'Unexpected {token} at position {pos}',
+      unexpectedEnd: 'The query is incomplete',
+      unknownField: 'Unknown field: {field}',
+      invalidOperator: 'Field {field} does not support operator {op}',
+      expectedNumber: 'Field {field} expects a number',
     },
   },
 
+  // Scheme Merge
+  schemeMerge: {
+    title: 'Merge Schemes',
+    description:
+      'Merge changes from another version into the current scheme "{name}" using a common base',
+    base: 'Common Base',
+    theirs: 'Their Version',
+    analyze: 'Analyze Changes',
+    back: 'Back',
+    apply: 'Apply Merge',
+    summary: {
+      patches: '{n} items take their changes',
+      additions: '{n} items added',
+      removals: '{n} items removed',
+      conflicts: '{n} conflicts',
+    },
+    conflictTitle: 'Conflicting items (changed on both sides)',
+    allOurs: 'Keep All Current',
+    allTheirs: 'Take All Theirs',
+    ours: 'Current Scheme',
+    theirsShort: 'Their Version',
+    deleted: 'Deleted',
+    noChanges: 'Their version has no changes to merge relative to the base',
+    applied: 'Merge complete: {changed} items added or updated, {removed} items removed',
+  },
+
+  // Outliner Panel
+  outliner: {
+    title: 'Outliner',
+    searchPlaceholder: 'Search name or ID',
+    byGroup: 'By Group',
+    byType: 'By Type',
+    group: 'Group #{id}',
+    ungrouped: 'Ungrouped',
+    total: '{count} items',
+    matched: '{matched} / {total} items matched',
+    empty: 'This scheme has no items',
+    noMatches: 'No matching items',
+    expandAll: 'Expand All',
+    collapseAll: 'Collapse All',
+  },
+
+  // Section Planes
+  clippingPlanes: {
+    title: 'Section Planes',
+    clear: 'Clear',
+    worldAxis: '{axis} Axis',
+    workingAxis: '{axis} Axis (Working)',
+    flip: 'Flip Kept Side',
+    enable: 'Enable',
+    disable: 'Disable',
+    remove: 'Remove',
+  },
+
+  // Levels Panel
+  levels: {
+    title: 'Levels',
+    allLevels: 'All Levels',
+    displayOnly: 'Only',
+    displayGhost: 'Ghost Others',
+    add: 'New Level',
+    defaultName: 'Level {n}',
+    name: 'Level name',
+    minZ: 'Min',
+    maxZ: 'Max',
+    items: '{n} items',
+    empty: 'No levels yet. With items selected, a new level covers their height range',
+    delete: 'Delete Level',
+  },
+
+  // Measure Tool
+  measure: {
+    hint: 'Click to place start and end points, Enter to pin, Esc to cancel',
+    distance: 'Distance',
+    horizontal: 'Horizontal',
+    vertical: 'Vertical',
+    pin: 'Pin Dimension',
+    remove: 'Remove Dimension',
+  },
+
   // Errors and Notifications
   notification: {
     furnitureDataLoadFailed: 'Failed to load furniture data, some features may be unavailable',
@@ -435,6 +794,11 @@ export const enLocale = {
         intersect: 'Intersect Selection',
         intersectHint: 'Select items in the intersection with current selection',
       },
+      transform: {
+        label: 'Transform Modifiers',
+        featureSnap: 'Feature Snap',
+        featureSnapHint: 'Hold while moving to snap to vertices, edge midpoints or face centers',
+      },
       keys: {
         shift: 'Shift',
         ctrl: 'Ctrl',
@@ -480,6 +844,11 @@ export const enLocale = {
       label: 'Compliance Checks',
       hint: 'Ensure scheme follows game standards',
     },
+    overlapDetection: {
+      label: 'Overlap Detection',
+      hint: 'Detect same-type items that largely overlap (z-fighting in game)',
+      ratio: 'Overlap Threshold',
+    },
     autoSave: {
       label: 'Workspace Memory',
       hint: 'Automatically save current state to resume editing later.',
@@ -564,6 +933,16 @@ export const enLocale = {
       hint: 'Replace: Click the object to use as the new furniture type',
       cancel: 'Cancel (Esc)',
     },
+    scaleGizmo: {
+      limitHit: 'Reached the allowed scale range of the furniture',
+    },
+    featureSnap: {
+      sourceHint:
+        'Snap Source: Click a point on the selection (nearest vertex/edge midpoint/face center); click empty space to use the pivot',
+      vertex: 'Vertex',
+      edge: 'Edge Midpoint',
+      face: 'Face Center',
+    },
     sizeControl: {
       label: 'Icon/Block Size',
       shortcut: 'Ctrl + Wheel to adjust',
@@ -613,22 +992,7 @@ export const enLocale = {
       tooltipWorking: 'Working Coordinate System\nRotation: ({rotation})',
       fallbackHint: '(Fallback to {mode})',
     },
-    duplicate: {
-      found: 'Found {count} duplicates - Click to select',
-      label: '{count} Duplicates',
-    },
     rename: '{name} - Click to rename',
-    limit: {
-      outOfBounds: '{count} Out of bounds',
-      outOfBoundsTip: '{count} items out of build area - Click to select',
-      oversized: '{count} Oversized groups',
-      oversizedTip: '{count} groups exceed 50 items - Click to select',
-      invalidScale: '{count} Invalid scale',
-      invalidScaleTip:
-        '{count} items have scale values exceeding furniture limits - Click to select',
-      invalidRotation: '{count} Invalid rotation',
-      invalidRotationTip: '{count} items are rotated on prohibited axes - Click to select',
-    },
     render: {
       limited: 'Render Limited',
       limitedTip: 'Render limit exceeded: {total} items, showing first {max}',
@@ -645,6 +1009,9 @@ export const enLocale = {
     structure: 'Structure',
     transform: 'Transform',
     editorSettings: 'Editor',
+    diff: 'Compare',
+    outliner: 'Outliner',
+    levels: 'Levels',
     header: {
       expand: 'Expand Header Tools',
       collapse: 'Collapse Header Tools',
@@ -702,6 +1069,14 @@ export const enLocale = {
       surfaceSnap: 'Surface Snap',
       surfaceSnapHint: 'Auto-detect collision when moving to prevent overlapping',
       surfaceSnapThreshold: 'Snap Threshold',
+      preciseSurfaceSnap: 'Precise Snap',
+      preciseSurfaceSnapHint:
+        'In model mode, snap against the actual model mesh; falls back to bounding boxes when a model is not loaded',
+      alignmentGuides: 'Alignment Guides',
+      featureSnapHint:
+        'Hold {key} while moving to snap to vertices, edge midpoints or face centers of other items; use "Pick Snap Source" to choose the point on the selection',
+      alignmentGuidesHint:
+        'Show alignment and equal-spacing guides to nearby items while moving, snapping within the threshold',
       disabled: 'Off',
     },
   },
@@ -742,6 +1117,19 @@ export const enLocale = {
     mirrorWithRotation: 'Mirror rotation',
     mirrorWithRotationHint:
       'When disabled, mirroring only adjusts position without changing item orientation',
+    scaleAroundPivot: 'Scale Gizmo Scales Positions',
+    scaleAroundPivotHint:
+      'When enabled, the scale gizmo also scales item positions around the pivot, so an entire build can be resized',
+    randomize: 'Randomize',
+    randomizeHint:
+      'Randomly perturb position, rotation and uniform scale of the selection within the given ranges. Changes are previewed live',
+    randomizePosition: 'Position offset (±)',
+    randomizeRotation: 'Rotation angle (±°)',
+    randomizeScale: 'Scale factor',
+    randomizeSeed: 'Seed',
+    randomizeRollSeed: 'Random seed',
+    randomizeReset: 'Reset',
+    randomizeApply: 'Apply',
     customPivot: 'Custom Pivot',
     customPivotHint: 'When enabled, you can specify a custom coordinate as the rotation center',
     selectPivotItem: 'Select',
@@ -773,6 +1161,30 @@ export const enLocale = {
       'Select a reference object, then click align buttons to align selected items to it',
   },
 
+  // Prefab Library
+  prefab: {
+    title: 'Prefab Library',
+    untitled: 'Untitled Prefab',
+    namePlaceholder: 'Prefab name',
+    tagsPlaceholder: 'Tags (comma separated)',
+    saveSelection: 'Save Selection as Prefab ({n})',
+    searchPlaceholder: 'Search name or #tag...',
+    insert: 'Insert into scene',
+    import: 'Import Prefabs',
+    export: 'Export as JSON',
+    itemCount: '{n} items',
+    empty: 'No prefabs yet. Select items and save them to reuse later',
+    noResults: 'No matching prefabs found',
+    stats: '{showing} of {total} prefabs',
+    noSelection: 'Select the items to save first',
+    saved: 'Saved prefab "{name}"',
+    saveFailed: 'Failed to save prefab',
+    deleteFailed: 'Failed to delete prefab',
+    loadFailed: 'Failed to load prefab library',
+    imported: 'Imported {n} prefabs',
+    importFailed: 'Failed to import {name}: invalid file format',
+  },
+
   // Furniture Library
   furnitureLibrary: {
     title: 'Furniture Library',
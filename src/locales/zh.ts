@@ -82,6 +82,10 @@ export const zhLocale = {
       importFromCode: '从方案码导入',
       import: '导入建造数据',
       export: '导出建造数据',
+      exportScene: '导出 3D 场景',
+      billOfMaterials: '物料清单',
+      compareScheme: '方案对比',
+      mergeScheme: '合并方案',
       saveToGame: '保存到游戏',
       reopenLastClosedScheme: '恢复关闭的方案',
       joinCloudScheme: '加入云方案',
@@ -94,11 +98,22 @@ export const zhLocale = {
       duplicate: '复制并粘贴',
       paste: '粘贴',
       advancedPaste: '高级粘贴',
+      scatter: '散布',
+      dropToSurface: '落到表面',
+      dropToSurfaceAligned: '落到表面并贴合法线',
       delete: '删除',
       selectAll: '全选',
       deselectAll: '取消选择',
       invertSelection: '反选',
       selectSameType: '选择同类',
+      selectOverlapping: '选择重叠物品',
+      selectByQuery: '按查询选择',
+      saveSelectionSet: '保存为选择集',
+      hideSelected: '隐藏选中物品',
+      unhideAll: '全部取消隐藏',
+      isolateSelection: '隔离选中物品',
+      lockSelected: '锁定选中物品',
+      unlockAll: '全部解锁',
       group: '成组',
       ungroup: '取消组合',
       move: '移动',
@@ -112,6 +127,15 @@ export const zhLocale = {
       toggleFullscreen: '切换全屏',
       setWorkingCoordinateFromSelection: '工作坐标：适配物品',
       resetWorkingCoordinate: '工作坐标：重置',
+      clippingPlanes: '剖切平面',
+      addClippingPlaneX: '添加 X 轴剖切平面',
+      addClippingPlaneY: '添加 Y 轴剖切平面',
+      addClippingPlaneZ: '添加 Z 轴剖切平面',
+      flipClippingPlane: '翻转当前剖切平面',
+      clearClippingPlanes: '清除全部剖切平面',
+      levelUp: '上一层',
+      levelDown: '下一层',
+      showAllLevels: '显示全部楼层',
       setViewPerspective: '透视视图',
       setViewTop: '顶视图',
       setViewBottom: '底视图',
@@ -125,16 +149,24 @@ export const zhLocale = {
       showSelection: '选中列表 (1)',
       showTransform: '变换面板 (2)',
       showEditorSettings: '编辑器设置 (3)',
+      showOutliner: '大纲 (4)',
+      showLevels: '楼层 (5)',
     },
     tool: {
       select: '选择工具',
       lasso: '套索工具',
       hand: '拖拽工具',
+      measure: '测量工具',
+      pinMeasurement: '固定尺寸标注',
+      clearDimensions: '清除尺寸标注',
       toggleTranslate: '平移模式',
       toggleRotate: '旋转模式',
+      toggleScale: '缩放模式',
       toggleFurnitureLibrary: '家具背包',
       toggleDyePanel: '染色面板',
+      togglePrefabLibrary: '预制件库',
       quickAlign: '快速对齐',
+      pickSnapSource: '选取吸附源点',
       replaceFurniture: '替换',
     },
     selectionAction: {
@@ -172,18 +204,12 @@ export const zhLocale = {
 
   // 文件操作和监控
   fileOps: {
-    duplicate: {
-      title: '重复物品',
-      desc: '检测到 {n} 个重复物品。',
-      detail: '这些物品的位置、旋转和缩放完全相同，会在游戏中完全重叠，可能不是您期望的摆放效果。',
+    validation: {
+      title: '检测到的问题',
     },
     limit: {
       title: '限制自动处理',
       desc: '保存时将自动修复以下问题：',
-      outOfBounds: '{n} 个物品超出可建造区域 (将被移除)',
-      oversized: '{n} 个组合超过 50 个物品上限 (将被解组)',
-      invalidScale: '{n} 个物品缩放值超出允许范围 (将自动截断到限制内)',
-      invalidRotation: '{n} 个物品在禁止的轴上有旋转 (违规轴将置零)',
     },
     save: {
       confirmTitle: '保存确认',
@@ -199,6 +225,10 @@ export const zhLocale = {
     export: {
       noData: '没有可导出的数据',
     },
+    exportScene: {
+      success: '已导出 {count} 个物品到 GLB 文件',
+      failed: '导出 3D 场景失败: {reason}',
+    },
     saveToGame: {
       noDir: '请先连接游戏目录',
       noData: '没有可保存的数据',
@@ -359,6 +389,59 @@ export const zhLocale = {
     },
   },
 
+  // 方案验证
+  validation: {
+    clickToSelect: '点击选中',
+    more: '…另有 {n} 项',
+    fixTip: '{action}（可撤销）',
+    fixed: '已修复 {n} 个物品',
+    fixActions: {
+      outOfBounds: '移动到最近的可建造位置',
+      invalidScale: '将缩放截断到允许范围',
+      invalidRotation: '将禁止旋转的轴归零',
+      oversizedGroup: '按位置拆分为多个不超过 50 个物品的组合',
+    },
+    rules: {
+      outOfBounds: {
+        label: '{n} 超出区域',
+        description: '{n} 个物品超出可建造区域',
+        fix: '将被移除',
+      },
+      invalidScale: {
+        label: '{n} 个缩放超限',
+        description: '{n} 个物品的缩放值超出家具允许范围',
+        fix: '将自动截断到限制内',
+      },
+      invalidRotation: {
+        label: '{n} 个旋转违规',
+        description: '{n} 个物品在禁止的轴上进行了旋转',
+        fix: '违规轴将置零',
+      },
+      oversizedGroup: {
+        label: '{n} 组过大',
+        description: '{n} 个组合超过 50 个物品上限',
+        fix: '将被解组',
+      },
+      overlap: {
+        label: '{n} 处重叠',
+        description: '{n} 对同类物品体积重叠超过阈值',
+      },
+      duplicate: {
+        label: '{n} 个重复物品',
+        description: '{n} 个重复物品（位置、旋转和缩放完全相同，会在游戏中完全重叠）',
+      },
+    },
+    messages: {
+      outOfBoundsZ: '高度 {z} 超出 {min} ~ {max}',
+      outOfBoundsArea: '({x}, {y}) 不在可建造区域内',
+      invalidScale: '缩放超出 {min} ~ {max}',
+      invalidRotation: '在禁止的 {axes} 轴上有旋转',
+      oversizedGroup: '组合 {groupId} 包含 {n} 个物品（上限 {max}）',
+      overlap: 'InstanceID {a} 与 {b} 重叠 {ratio}%',
+      duplicate: '与 InstanceID {instanceId} 完全重叠',
+    },
+  },
+
   advancedPaste: {
     title: '高级粘贴',
     description: '选择一种高级粘贴方式，用于保留源 ID 或按规律生成多个副本。',
@@ -367,6 +450,44 @@ export const zhLocale = {
     positionDelta: '位移增量 (X / Y / Z)',
     rotationDelta: '旋转增量 (X / Y / Z)',
     scaleMultiplier: '缩放倍率 (X / Y / Z)',
+    radial: {
+      center: '旋转中心',
+      centerSelection: '选区中心',
+      centerCustom: '自定义',
+      centerItem: '拾取物品',
+      pickItem: '在场景中拾取',
+      pickedNone: '尚未拾取物品',
+      axis: '旋转轴',
+      alignToWorking: '沿工作坐标系',
+      angleStep: '每份角度',
+      angleSweep: '总角度',
+      angle: '角度 (°)',
+      heightStep: '每份升高',
+      faceCenter: '保持朝向中心',
+      faceCenterHint: '关闭后副本只沿圆周移动，朝向与原件相同',
+    },
+    grid: {
+      counts: '份数 (X / Y / Z)',
+      spacing: '间距 (X / Y / Z)',
+      gap: '额外间隙 (X / Y / Z)',
+      autoSpacing: '按包围盒自动间距',
+      grouping: '组合方式',
+      groupPerCopy: '每份一个组合',
+      groupPerRow: '每行一个组合',
+      groupLimitHint: '超过 {max} 个物品时自动拆分为多个组合',
+    },
+    path: {
+      source: '路径来源',
+      sourceSlidePath: '选中的滑梯',
+      sourceDrawn: '在视图中绘制',
+      draw: '绘制路径',
+      summary: '{n} 个路径点，总长 {length}',
+      noSlidePath: '请先选中一条滑梯路径',
+      noDrawnPath: '尚未绘制路径',
+      count: '份数（含起点和终点）',
+      alignToTangent: '沿路径方向旋转',
+      alignToTangentHint: '以剪贴板内容的 +X 方向为前方，随路径切线转向',
+    },
     mode: {
       preserveIds: {
         title: '保持原 ID',
@@ -376,9 +497,240 @@ export const zhLocale = {
         title: '步进复制',
         description: '连续生成多份副本，并在每一份之上按顺序叠加变换。',
       },
+      radialRepeat: {
+        title: '环形阵列',
+        description: '绕中心和旋转轴均匀复制多份，可设置每份升高生成螺旋。',
+      },
+      gridRepeat: {
+        title: '网格阵列',
+        description: '按列 × 行 × 层铺开副本，适合地板、墙面和围栏。',
+      },
+      pathRepeat: {
+        title: '沿路径分布',
+        description: '沿滑梯路径或手绘折线等距放置副本，适合灯笼和围栏柱。',
+      },
     },
   },
 
+  // 路径绘制
+  pathDraw: {
+    hint: '点击添加路径点，Enter 完成，Backspace 撤销，Esc 取消',
+    length: '长度',
+  },
+
+  // 散布
+  scatter: {
+    title: '散布',
+    description: '在区域内按最小间距随机放置选中家具的副本，相同种子可复现结果。',
+    templates: '模板家具 ({n} 种)',
+    region: '散布区域',
+    drawRegion: '绘制区域',
+    redrawRegion: '重新绘制',
+    noRegion: '尚未绘制区域',
+    regionSummary: '面积约 {area} m²',
+    regionHint: '拖拽框选或套索绘制散布区域，Esc 取消',
+    count: '数量',
+    spacing: '最小间距',
+    randomYaw: '随机朝向',
+    randomScale: '随机缩放（按家具缩放范围）',
+    followSurface: '贴合下方表面',
+    seed: '随机种子',
+    rollSeed: '换一个种子',
+    confirm: '散布',
+    noneFit: '区域内放不下任何物品，请扩大区域或减小间距',
+    partialFit: '区域只放得下 {n} / {total} 件',
+  },
+
+  // 物料清单
+  billOfMaterials: {
+    title: '物料清单',
+    description: '按家具与染色汇总数量和价格，可导出为 CSV 或 Markdown',
+    scope: {
+      scheme: '整个方案',
+      selection: '当前选中 ({n})',
+    },
+    column: {
+      category: '分类',
+      name: '名称',
+      gameId: '物品 ID',
+      dye: '染色',
+      count: '数量',
+      unitPrice: '单价',
+      totalPrice: '小计',
+    },
+    total: '合计',
+    uncategorized: '未分类',
+    defaultDye: '默认',
+    empty: '没有可统计的物品',
+    summary: {
+      count: '共 {n} 件',
+      price: '总价 {n}',
+      unpriced: '{n} 件缺少价格信息',
+    },
+    exportCsv: '导出 CSV',
+    exportMarkdown: '导出 Markdown',
+    fileSuffix: '物料清单',
+  },
+
+  // 方案对比
+  schemeDiff: {
+    title: '方案对比',
+    description: '选择基准，与当前方案「{name}」进行对比',
+    compare: '开始对比',
+    close: '结束对比',
+    loadFailed: '读取对比数据失败',
+    itemCount: '{n} 个物品',
+    source: {
+      scheme: '打开的方案',
+      history: '监控历史',
+      archive: '方案集',
+    },
+    empty: {
+      scheme: '没有其他打开的方案',
+      history: '暂无监控历史记录',
+      archive: '方案集为空',
+    },
+    kind: {
+      added: '新增',
+      removed: '删除',
+      moved: '移动',
+      rotated: '旋转',
+      rescaled: '缩放',
+      redyed: '染色',
+      regrouped: '组合变化',
+    },
+    comparedWith: '对比基准：{source} · {name}',
+    selectAll: '全选',
+    unchanged: '{n} 个物品未变化',
+    noChanges: '没有变化',
+    more: '还有 {n} 项未显示',
+    inactive: '当前方案没有进行中的对比',
+  },
+
+  // 命名选择集
+  selectionSet: {
+    menu: '选择集',
+    defaultName: '选择集 {n}',
+    saveTitle: '保存选择集',
+    saveDescription: '把当前选中的 {n} 个物品保存为选择集，随方案一起保存',
+    name: '名称',
+    overwriteHint: '已存在同名选择集，保存后将覆盖其成员',
+    saved: '已保存选择集「{name}」（{n} 个物品）',
+    update: '用当前选区更新',
+    actions: {
+      new: '选择',
+      add: '并入选区',
+      subtract: '从选区减去',
+      intersect: '与选区取交集',
+    },
+  },
+
+  // 按查询选择
+  selectionQuery: {
+    title: '按查询选择',
+    description: '用条件筛选当前方案中的物品，支持 and / or / not 与括号组合',
+    queryLabel: '查询语句',
+    placeholder: '例如：gameId in (1001, 1002) and z > 500',
+    preview: '将匹配 {n} 个物品',
+    action: '选择模式',
+    saved: '保存的查询',
+    noSaved: '暂无保存的查询，保存后可在所有方案中复用',
+    saveNamePlaceholder: '查询名称（留空使用语句本身）',
+    save: '保存查询',
+    delete: '删除',
+    apply: '选择',
+    applied: '已按查询匹配 {n} 个物品',
+    errors: {
+      empty: '请输入查询语句',
+      unexpectedChar: '第 {pos} 个字符无法识别：{char}',
+      unterminatedString: '第 {pos} 个字符开始的字符串缺少结束引号',
+      unexpectedToken: '第 {pos} 个字符处不应出现 {token}',
+      unexpectedEnd: '查询语句不完整',
+      unknownField: '未知字段：{field}',
+      invalidOperator: '字段 {field} 不支持运算符 {op}',
+      expectedNumber: '字段 {field} 需要数字',
+    },
+  },
+
+  // 方案合并
+  schemeMerge: {
+    title: '合并方案',
+    description: '以共同基准为参照，把另一版本的改动合并到当前方案「{name}」',
+    base: '共同基准',
+    theirs: '对方版本',
+    analyze: '分析改动',
+    back: '上一步',
+    apply: '应用合并',
+    summary: {
+      patches: '{n} 个物品采用对方修改',
+      additions: '{n} 个新增物品',
+      removals: '{n} 个物品被删除',
+      conflicts: '{n} 处冲突',
+    },
+    conflictTitle: '冲突物品（双方都修改过）',
+    allOurs: '全部保留当前',
+    allTheirs: '全部采用对方',
+    ours: '当前方案',
+    theirsShort: '对方版本',
+    deleted: '已删除',
+    noChanges: '对方版本相对基准没有需要合并的改动',
+    applied: '合并完成：{changed} 个物品新增或更新，{removed} 个物品删除',
+  },
+
+  // 大纲面板
+  outliner: {
+    title: '大纲',
+    searchPlaceholder: '搜索名称或 ID',
+    byGroup: '按组合',
+    byType: '按类型',
+    group: '组 #{id}',
+    ungrouped: '未成组',
+    total: '共 {count} 个物品',
+    matched: '匹配 {matched} / {total} 个物品',
+    empty: '当前方案没有物品',
+    noMatches: '没有匹配的物品',
+    expandAll: '全部展开',
+    collapseAll: '全部折叠',
+  },
+
+  // 剖切平面
+  clippingPlanes: {
+    title: '剖切平面',
+    clear: '清除',
+    worldAxis: '{axis} 轴',
+    workingAxis: '{axis} 轴（工作坐标）',
+    flip: '翻转保留方向',
+    enable: '启用',
+    disable: '停用',
+    remove: '删除',
+  },
+
+  // 楼层面板
+  levels: {
+    title: '楼层',
+    allLevels: '全部楼层',
+    displayOnly: '仅当前层',
+    displayGhost: '其他层半透明',
+    add: '新建楼层',
+    defaultName: '{n} 层',
+    name: '楼层名称',
+    minZ: '底',
+    maxZ: '顶',
+    items: '{n} 个',
+    empty: '还没有楼层。新建楼层时如有选中物品，会按选中物品的高度范围创建',
+    delete: '删除楼层',
+  },
+
+  // 测量工具
+  measure: {
+    hint: '单击放置起点和终点，Enter 固定标注，Esc 取消',
+    distance: '距离',
+    horizontal: '水平',
+    vertical: '垂直',
+    pin: '固定标注',
+    remove: '删除标注',
+  },
+
   // 错误和通知
   notification: {
     furnitureDataLoadFailed: '家具数据加载失败，部分功能可能不可用',
@@ -425,6 +777,11 @@ export const zhLocale = {
         intersect: '交叉选择',
         intersectHint: '选择与现有选区交集的物品',
       },
+      transform: {
+        label: '变换修饰键',
+        featureSnap: '特征点吸附',
+        featureSnapHint: '平移时按住可吸附到其他物品的顶点、边中点或面中心',
+      },
       keys: {
         shift: 'Shift',
         ctrl: 'Ctrl',
@@ -470,6 +827,11 @@ export const zhLocale = {
       label: '方案合规性检测',
       hint: '确保方案符合游戏规范，关闭后可自由编辑，风险自负。',
     },
+    overlapDetection: {
+      label: '重叠物品检测',
+      hint: '检测体积大幅重叠的同类物品（游戏中会闪烁且浪费物品数量）',
+      ratio: '重叠阈值',
+    },
     autoSave: {
       label: '工作台记忆',
       hint: '自动保存当前状态，以便下次继续编辑。',
@@ -554,6 +916,16 @@ export const zhLocale = {
       hint: '替换家具：请点击要替换成的目标物品',
       cancel: '取消 (Esc)',
     },
+    scaleGizmo: {
+      limitHit: '已达到家具允许的缩放范围',
+    },
+    featureSnap: {
+      sourceHint:
+        '吸附源点：点击选中物品上的位置（取最近的顶点/边中点/面中心），点击空白处恢复为轴点',
+      vertex: '顶点',
+      edge: '边中点',
+      face: '面中心',
+    },
     sizeControl: {
       label: '图标/方块大小',
       shortcut: 'Ctrl + 滚轮快速调整',
@@ -603,21 +975,7 @@ export const zhLocale = {
       tooltipWorking: '工作坐标系\n旋转: ({rotation})',
       fallbackHint: '(回退到 {mode})',
     },
-    duplicate: {
-      found: '发现 {count} 个重复物品 - 点击选中',
-      label: '{count} 个重复物品',
-    },
     rename: '{name} - 点击重命名',
-    limit: {
-      outOfBounds: '{count} 超出区域',
-      outOfBoundsTip: '{count} 个物品超出可建造区域 - 点击选中',
-      oversized: '{count} 组过大',
-      oversizedTip: '{count} 个组合超过 50 个物品上限 - 点击选中',
-      invalidScale: '{count} 个缩放超限',
-      invalidScaleTip: '{count} 个物品的缩放值超出家具允许范围 - 点击选中',
-      invalidRotation: '{count} 个旋转违规',
-      invalidRotationTip: '{count} 个物品在禁止的轴上进行了旋转 - 点击选中',
-    },
     render: {
       limited: '渲染受限',
       limitedTip: '渲染数量超限：当前物品 {total} 个，仅显示前 {max} 个',
@@ -634,6 +992,9 @@ export const zhLocale = {
     structure: '结构',
     transform: '变换',
     editorSettings: '编辑器',
+    diff: '方案对比',
+    outliner: '大纲',
+    levels: '楼层',
     header: {
       expand: '展开顶部工具',
       collapse: '收起顶部工具',
@@ -690,6 +1051,12 @@ export const zhLocale = {
       surfaceSnap: '表面吸附',
       surfaceSnapHint: '移动时自动检测碰撞，防止物品重叠',
       surfaceSnapThreshold: '吸附阈值',
+      preciseSurfaceSnap: '精确吸附',
+      preciseSurfaceSnapHint: '模型模式下按实际模型网格贴合，模型未加载时使用包围盒',
+      alignmentGuides: '对齐参考线',
+      featureSnapHint:
+        '平移时按住 {key} 可吸附到其他物品的顶点、边中点或面中心；可通过「选取吸附源点」指定选区上的对齐点',
+      alignmentGuidesHint: '平移时显示与附近物品的对齐和等间距参考线，并在阈值内吸附',
       disabled: '关闭',
     },
   },
@@ -728,6 +1095,17 @@ export const zhLocale = {
     mirrorZ: '沿 Z 轴镜像',
     mirrorWithRotation: '同时镜像旋转',
     mirrorWithRotationHint: '关闭后，镜像操作仅调整位置，不改变物品朝向',
+    scaleAroundPivot: '缩放 Gizmo 同时缩放位置',
+    scaleAroundPivotHint: '开启后，使用缩放 Gizmo 时物品位置也相对轴点按比例缩放，可整体缩放建筑',
+    randomize: '随机化',
+    randomizeHint: '在设定范围内随机扰动选中物品的位置、旋转和等比缩放，修改参数时实时预览',
+    randomizePosition: '位置偏移 (±)',
+    randomizeRotation: '旋转角度 (±°)',
+    randomizeScale: '缩放倍数',
+    randomizeSeed: '种子',
+    randomizeRollSeed: '随机种子',
+    randomizeReset: '重置',
+    randomizeApply: '应用',
     customPivot: '定点旋转',
     customPivotHint: '启用后，可以指定一个自定义坐标作为旋转中心',
     selectPivotItem: '选择',
@@ -758,6 +1136,30 @@ export const zhLocale = {
     alignToReferenceHint: '选择一个参照物，再点击对齐按钮将选中物品对齐到参照物',
   },
 
+  // 预制件库
+  prefab: {
+    title: '预制件库',
+    untitled: '未命名预制件',
+    namePlaceholder: '预制件名称',
+    tagsPlaceholder: '标签（用逗号分隔）',
+    saveSelection: '保存选中为预制件 ({n})',
+    searchPlaceholder: '搜索名称或 #标签...',
+    insert: '插入到场景',
+    import: '导入预制件',
+    export: '导出为 JSON',
+    itemCount: '{n} 个物品',
+    empty: '还没有预制件，选中物品后保存即可复用',
+    noResults: '没有匹配的预制件',
+    stats: '显示 {showing} / {total} 个预制件',
+    noSelection: '请先选中要保存的物品',
+    saved: '已保存预制件「{name}」',
+    saveFailed: '保存预制件失败',
+    deleteFailed: '删除预制件失败',
+    loadFailed: '读取预制件库失败',
+    imported: '已导入 {n} 个预制件',
+    importFailed: '导入 {name} 失败：文件格式无效',
+  },
+
   // 家具背包
   furnitureLibrary: {
     title: '家具背包',
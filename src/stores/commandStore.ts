@@ -6,8 +6,14 @@ import { useClipboard } from '../composables/useClipboard'
 import { useEditorSelection } from '../composables/editor/useEditorSelection'
 import { useEditorGroups } from '../composables/editor/useEditorGroups'
 import { useEditorManipulation } from '../composables/editor/useEditorManipulation'
+import { useEditorAlignment } from '../composables/editor/useEditorAlignment'
+import { useEditorVisibility } from '../composables/editor/useEditorVisibility'
+import { useEditorLevels } from '../composables/editor/useEditorLevels'
+import { useEditorDimensions } from '../composables/editor/useEditorDimensions'
+import { useClippingPlanes } from '../composables/useClippingPlanes'
 import { useUIStore } from './uiStore'
 import { useSettingsStore } from './settingsStore'
+import { useValidationStore } from './validationStore'
 import { useFileOperations } from '../composables/useFileOperations'
 import { useTabStore } from './tabStore'
 import { useI18n } from '../composables/useI18n'
@@ -38,8 +44,29 @@ export const useCommandStore = defineStore('command', () => {
     buildClipboardDataFromSelection,
   } = useClipboard()
   const { selectAll, clearSelection, invertSelection, selectSameType } = useEditorSelection()
+  const validationStore = useValidationStore()
   const { groupSelected, ungroupSelected } = useEditorGroups()
   const { deleteSelected } = useEditorManipulation()
+  const { dropSelectedToSurface } = useEditorAlignment()
+  const {
+    hiddenCount,
+    lockedCount,
+    hideSelected,
+    unhideAll,
+    isolateSelection,
+    lockSelected,
+    unlockAll,
+  } = useEditorVisibility()
+  const { levels, activeLevel, setActiveLevel, stepActiveLevel } = useEditorLevels()
+  const { dimensions, addDimension, clearDimensions } = useEditorDimensions()
+  const {
+    clippingPlanes,
+    activeClippingPlane,
+    canAddClippingPlane,
+    addClippingPlane,
+    flipClippingPlane,
+    clearClippingPlanes,
+  } = useClippingPlanes()
 
   const uiStore = useUIStore()
   const { t } = useI18n()
@@ -116,11 +143,19 @@ export const useCommandStore = defineStore('command', () => {
   // 工作坐标系对话框状态
   const showCoordinateDialog = ref(false)
   const showAdvancedPasteDialog = ref(false)
+  const showScatterDialog = ref(false)
+  const showBillOfMaterialsDialog = ref(false)
+  const showSchemeDiffDialog = ref(false)
+  const showSchemeMergeDialog = ref(false)
+  const showSelectByQueryDialog = ref(false)
+  const showSaveSelectionSetDialog = ref(false)
 
   // 背包面板显示状态
   const showFurnitureLibrary = ref(false)
   // 染色面板显示状态
   const showDyePanel = ref(false)
+  // 预制件库显示状态
+  const showPrefabLibrary = ref(false)
 
   // 剪贴板和文件操作
   const fileOps = useFileOperations(editorStore)
@@ -219,6 +254,46 @@ export const useCommandStore = defineStore('command', () => {
         await fileOps.exportJSON()
       },
     },
+    {
+      id: 'file.exportScene',
+      label: t('command.file.exportScene'),
+      category: 'file',
+      enabled: () => (editorStore.activeScheme?.items.value.length ?? 0) > 0,
+      execute: async () => {
+        console.log('[Command] 导出 3D 场景')
+        await fileOps.exportScene()
+      },
+    },
+    {
+      id: 'file.billOfMaterials',
+      label: t('command.file.billOfMaterials'),
+      category: 'file',
+      enabled: () => (editorStore.activeScheme?.items.value.length ?? 0) > 0,
+      execute: () => {
+        console.log('[Command] 物料清单')
+        showBillOfMaterialsDialog.value = true
+      },
+    },
+    {
+      id: 'file.compareScheme',
+      label: t('command.file.compareScheme'),
+      category: 'file',
+      enabled: () => editorStore.activeScheme !== null,
+      execute: () => {
+        console.log('[Command] 方案对比')
+        showSchemeDiffDialog.value = true
+      },
+    },
+    {
+      id: 'file.mergeScheme',
+      label: t('command.file.mergeScheme'),
+      category: 'file',
+      enabled: () => editorStore.activeScheme !== null,
+      execute: () => {
+        console.log('[Command] 合并方案')
+        showSchemeMergeDialog.value = true
+      },
+    },
     {
       id: 'file.saveToGame',
       label: t('command.file.saveToGame'),
@@ -269,6 +344,41 @@ export const useCommandStore = defineStore('command', () => {
         editorStore.currentTool = 'hand'
       },
     },
+    {
+      id: 'tool.measure',
+      label: t('command.tool.measure'),
+      shortcut: 'M',
+      category: 'tool',
+      enabled: () => uiStore.viewMode === '3d',
+      execute: () => {
+        console.log('[Command] 切换测量工具')
+        editorStore.currentTool = 'measure'
+      },
+    },
+    {
+      id: 'tool.pinMeasurement',
+      label: t('command.tool.pinMeasurement'),
+      shortcut: 'Enter',
+      category: 'tool',
+      enabled: () => uiStore.measurePoints.length === 2,
+      execute: () => {
+        console.log('[Command] 固定尺寸标注')
+        const [start, end] = uiStore.measurePoints
+        if (!start || !end) return
+        addDimension(start, end)
+        uiStore.measurePoints = []
+      },
+    },
+    {
+      id: 'tool.clearDimensions',
+      label: t('command.tool.clearDimensions'),
+      category: 'tool',
+      enabled: () => dimensions.value.length > 0,
+      execute: () => {
+        console.log('[Command] 清除尺寸标注')
+        clearDimensions()
+      },
+    },
     {
       id: 'tool.toggleTranslate',
       label: t('command.tool.toggleTranslate'),
@@ -291,6 +401,16 @@ export const useCommandStore = defineStore('command', () => {
         editorStore.gizmoMode = editorStore.gizmoMode === 'rotate' ? null : 'rotate'
       },
     },
+    {
+      id: 'tool.toggleScale',
+      label: t('command.tool.toggleScale'),
+      category: 'tool',
+      enabled: () => uiStore.viewMode === '3d',
+      execute: () => {
+        console.log('[Command] 切换缩放模式')
+        editorStore.gizmoMode = editorStore.gizmoMode === 'scale' ? null : 'scale'
+      },
+    },
     {
       id: 'tool.toggleFurnitureLibrary',
       label: t('command.tool.toggleFurnitureLibrary'),
@@ -303,6 +423,7 @@ export const useCommandStore = defineStore('command', () => {
         showFurnitureLibrary.value = shouldOpen
         if (shouldOpen) {
           showDyePanel.value = false
+          showPrefabLibrary.value = false
         }
       },
     },
@@ -327,6 +448,23 @@ export const useCommandStore = defineStore('command', () => {
         showDyePanel.value = shouldOpen
         if (shouldOpen) {
           showFurnitureLibrary.value = false
+          showPrefabLibrary.value = false
+        }
+      },
+    },
+    {
+      id: 'tool.togglePrefabLibrary',
+      label: t('command.tool.togglePrefabLibrary'),
+      shortcut: 'P',
+      category: 'tool',
+      enabled: () => editorStore.activeScheme !== null,
+      execute: () => {
+        console.log('[Command] 切换预制件库')
+        const shouldOpen = !showPrefabLibrary.value
+        showPrefabLibrary.value = shouldOpen
+        if (shouldOpen) {
+          showFurnitureLibrary.value = false
+          showDyePanel.value = false
         }
       },
     },
@@ -343,6 +481,18 @@ export const useCommandStore = defineStore('command', () => {
         uiStore.setSelectingQuickAlignTarget(true)
       },
     },
+    {
+      id: 'tool.pickSnapSource',
+      label: t('command.tool.pickSnapSource'),
+      category: 'tool',
+      enabled: () =>
+        uiStore.viewMode === '3d' &&
+        (editorStore.activeScheme?.selectedItemIds.value.size ?? 0) > 0,
+      execute: () => {
+        console.log('[Command] 选取吸附源点')
+        uiStore.setSelectingSnapSource(true)
+      },
+    },
     {
       id: 'tool.replaceFurniture',
       label: t('command.tool.replaceFurniture'),
@@ -391,6 +541,28 @@ export const useCommandStore = defineStore('command', () => {
         uiStore.setSidebarView('editorSettings')
       },
     },
+    {
+      id: 'sidebar.showOutliner',
+      label: t('command.sidebar.showOutliner'),
+      shortcut: '4',
+      category: 'view',
+      enabled: () => true,
+      execute: () => {
+        console.log('[Command] 切换到大纲面板')
+        uiStore.setSidebarView('outliner')
+      },
+    },
+    {
+      id: 'sidebar.showLevels',
+      label: t('command.sidebar.showLevels'),
+      shortcut: '5',
+      category: 'view',
+      enabled: () => true,
+      execute: () => {
+        console.log('[Command] 切换到楼层面板')
+        uiStore.setSidebarView('levels')
+      },
+    },
 
     // ===== 编辑菜单 =====
     {
@@ -480,6 +652,42 @@ export const useCommandStore = defineStore('command', () => {
         showAdvancedPasteDialog.value = true
       },
     },
+    {
+      id: 'edit.scatter',
+      label: t('command.edit.scatter'),
+      category: 'edit',
+      enabled: () =>
+        uiStore.viewMode === '3d' &&
+        (editorStore.activeScheme?.selectedItemIds.value.size ?? 0) > 0,
+      execute: () => {
+        console.log('[Command] 打开散布')
+        showScatterDialog.value = true
+      },
+    },
+    {
+      id: 'edit.dropToSurface',
+      label: t('command.edit.dropToSurface'),
+      category: 'edit',
+      enabled: () =>
+        uiStore.viewMode === '3d' &&
+        (editorStore.activeScheme?.selectedItemIds.value.size ?? 0) > 0,
+      execute: () => {
+        console.log('[Command] 落到表面')
+        dropSelectedToSurface()
+      },
+    },
+    {
+      id: 'edit.dropToSurfaceAligned',
+      label: t('command.edit.dropToSurfaceAligned'),
+      category: 'edit',
+      enabled: () =>
+        uiStore.viewMode === '3d' &&
+        (editorStore.activeScheme?.selectedItemIds.value.size ?? 0) > 0,
+      execute: () => {
+        console.log('[Command] 落到表面并贴合法线')
+        dropSelectedToSurface(true)
+      },
+    },
     {
       id: 'edit.delete',
       label: t('command.edit.delete'),
@@ -535,6 +743,91 @@ export const useCommandStore = defineStore('command', () => {
         selectSameType()
       },
     },
+    {
+      id: 'edit.selectOverlapping',
+      label: t('command.edit.selectOverlapping'),
+      category: 'selection',
+      enabled: () => !!validationStore.getFinding('overlap'),
+      execute: () => {
+        console.log('[Command] 选择重叠物品')
+        validationStore.selectOverlappingItems()
+      },
+    },
+    {
+      id: 'edit.selectByQuery',
+      label: t('command.edit.selectByQuery'),
+      category: 'selection',
+      enabled: () => (editorStore.activeScheme?.items.value.length ?? 0) > 0,
+      execute: () => {
+        console.log('[Command] 按查询选择')
+        showSelectByQueryDialog.value = true
+      },
+    },
+    {
+      id: 'edit.saveSelectionSet',
+      label: t('command.edit.saveSelectionSet'),
+      category: 'selection',
+      enabled: () => (editorStore.activeScheme?.selectedItemIds.value.size ?? 0) > 0,
+      execute: () => {
+        console.log('[Command] 保存选择集')
+        showSaveSelectionSetDialog.value = true
+      },
+    },
+    {
+      id: 'edit.hideSelected',
+      label: t('command.edit.hideSelected'),
+      shortcut: 'Shift+H',
+      category: 'selection',
+      enabled: () => (editorStore.activeScheme?.selectedItemIds.value.size ?? 0) > 0,
+      execute: () => {
+        console.log('[Command] 隐藏选中物品')
+        hideSelected()
+      },
+    },
+    {
+      id: 'edit.unhideAll',
+      label: t('command.edit.unhideAll'),
+      shortcut: 'Alt+H',
+      category: 'selection',
+      enabled: () => hiddenCount.value > 0,
+      execute: () => {
+        console.log('[Command] 全部取消隐藏')
+        unhideAll()
+      },
+    },
+    {
+      id: 'edit.isolateSelection',
+      label: t('command.edit.isolateSelection'),
+      shortcut: 'Shift+I',
+      category: 'selection',
+      enabled: () => (editorStore.activeScheme?.selectedItemIds.value.size ?? 0) > 0,
+      execute: () => {
+        console.log('[Command] 隔离选中物品')
+        isolateSelection()
+      },
+    },
+    {
+      id: 'edit.lockSelected',
+      label: t('command.edit.lockSelected'),
+      shortcut: 'Shift+L',
+      category: 'selection',
+      enabled: () => (editorStore.activeScheme?.selectedItemIds.value.size ?? 0) > 0,
+      execute: () => {
+        console.log('[Command] 锁定选中物品')
+        lockSelected()
+      },
+    },
+    {
+      id: 'edit.unlockAll',
+      label: t('command.edit.unlockAll'),
+      shortcut: 'Alt+L',
+      category: 'selection',
+      enabled: () => lockedCount.value > 0,
+      execute: () => {
+        console.log('[Command] 全部解锁')
+        unlockAll()
+      },
+    },
     {
       id: 'edit.group',
       label: t('command.edit.group'),
@@ -695,6 +988,92 @@ export const useCommandStore = defineStore('command', () => {
       },
     },
 
+    // ===== 剖切平面 =====
+    {
+      id: 'view.addClippingPlaneX',
+      label: t('command.view.addClippingPlaneX'),
+      category: 'view',
+      enabled: () => uiStore.viewMode === '3d' && canAddClippingPlane.value,
+      execute: () => {
+        console.log('[Command] 添加 X 轴剖切平面')
+        addClippingPlane('x')
+      },
+    },
+    {
+      id: 'view.addClippingPlaneY',
+      label: t('command.view.addClippingPlaneY'),
+      category: 'view',
+      enabled: () => uiStore.viewMode === '3d' && canAddClippingPlane.value,
+      execute: () => {
+        console.log('[Command] 添加 Y 轴剖切平面')
+        addClippingPlane('y')
+      },
+    },
+    {
+      id: 'view.addClippingPlaneZ',
+      label: t('command.view.addClippingPlaneZ'),
+      category: 'view',
+      enabled: () => uiStore.viewMode === '3d' && canAddClippingPlane.value,
+      execute: () => {
+        console.log('[Command] 添加 Z 轴剖切平面')
+        addClippingPlane('z')
+      },
+    },
+    {
+      id: 'view.flipClippingPlane',
+      label: t('command.view.flipClippingPlane'),
+      category: 'view',
+      enabled: () => activeClippingPlane.value !== null,
+      execute: () => {
+        console.log('[Command] 翻转剖切平面')
+        if (activeClippingPlane.value) flipClippingPlane(activeClippingPlane.value.id)
+      },
+    },
+    {
+      id: 'view.clearClippingPlanes',
+      label: t('command.view.clearClippingPlanes'),
+      category: 'view',
+      enabled: () => clippingPlanes.value.length > 0,
+      execute: () => {
+        console.log('[Command] 清除剖切平面')
+        clearClippingPlanes()
+      },
+    },
+
+    // ===== 楼层 =====
+    {
+      id: 'view.levelUp',
+      label: t('command.view.levelUp'),
+      shortcut: 'PageUp',
+      category: 'view',
+      enabled: () => levels.value.length > 0,
+      execute: () => {
+        console.log('[Command] 切换到上一层')
+        stepActiveLevel(1)
+      },
+    },
+    {
+      id: 'view.levelDown',
+      label: t('command.view.levelDown'),
+      shortcut: 'PageDown',
+      category: 'view',
+      enabled: () => levels.value.length > 0,
+      execute: () => {
+        console.log('[Command] 切换到下一层')
+        stepActiveLevel(-1)
+      },
+    },
+    {
+      id: 'view.showAllLevels',
+      label: t('command.view.showAllLevels'),
+      category: 'view',
+      enabled: () => activeLevel.value !== null,
+      execute: () => {
+        console.log('[Command] 显示全部楼层')
+        setActiveLevel(null)
+      },
+    },
+
     // ===== 3D视图预设 =====
     {
       id: 'view.setViewPerspective',
@@ -845,7 +1224,14 @@ export const useCommandStore = defineStore('command', () => {
     setToggleCameraModeFunction,
     showCoordinateDialog,
     showAdvancedPasteDialog,
+    showScatterDialog,
+    showBillOfMaterialsDialog,
+    showSchemeDiffDialog,
+    showSchemeMergeDialog,
+    showSelectByQueryDialog,
+    showSaveSelectionSetDialog,
     showFurnitureLibrary,
     showDyePanel,
+    showPrefabLibrary,
   }
 })
@@ -17,6 +17,8 @@ import type { ArchivedSchemeSnapshot } from '../types/archive'
 import type { SharedSchemeSnapshot } from '../types/cloudScheme'
 import { useTabStore } from './tabStore'
 import { useI18n } from '../composables/useI18n'
+import { pruneSelectionSets } from '../lib/selectionSets'
+import { isItemInLevel } from '../lib/levels'
 
 // 生成简单的UUID
 function generateUUID(): string {
@@ -58,6 +60,12 @@ function buildSchemeFromSharedSnapshot(
     currentViewConfig: ref(undefined),
     viewState: ref(undefined),
     groupOrigins: shallowRef(new Map(snapshot.groupOrigins)),
+    selectionSets: shallowRef([]),
+    hiddenItemIds: shallowRef(new Set()),
+    lockedItemIds: shallowRef(new Set()),
+    levels: shallowRef([]),
+    activeLevelId: ref(null),
+    dimensions: shallowRef([]),
     history: shallowRef(undefined),
   }
 }
@@ -81,13 +89,13 @@ export const useEditorStore = defineStore('editor', () => {
   const closedSchemesHistory = ref<ClosedSchemeHistory[]>([])
 
   // 当前工具状态
-  const currentTool = ref<'select' | 'hand'>('select')
+  const currentTool = ref<'select' | 'hand' | 'measure'>('select')
   // 选择模式：方块/套索
   const selectionMode = ref<'box' | 'lasso'>('box')
   // 选择行为：新选区/加选/减选/交叉/切换
   const selectionAction = ref<'new' | 'add' | 'subtract' | 'intersect' | 'toggle'>('new')
   // Gizmo 模式：平移/旋转/不显示
-  const gizmoMode = ref<'translate' | 'rotate' | null>('translate')
+  const gizmoMode = ref<'translate' | 'rotate' | 'scale' | null>('translate')
 
   const activeSchemeId = computed(() => {
     const activeTab = tabStore.activeTab
@@ -142,6 +150,29 @@ export const useEditorStore = defineStore('editor', () => {
     return map
   })
 
+  // 当前楼层（未选择楼层时为 null，显示全部）
+  const activeLevel = computed(() => {
+    const scheme = activeScheme.value
+    const levelId = scheme?.activeLevelId.value
+    if (!scheme || !levelId) return null
+    return scheme.levels.value.find((level) => level.id === levelId) ?? null
+  })
+
+  // 参与渲染的物品（排除编辑器中隐藏的物品和当前楼层以外的物品），各渲染模式统一从这里取数据
+  const visibleItems = computed(() => {
+    const scheme = activeScheme.value
+    if (!scheme) return []
+
+    const hiddenIds = scheme.hiddenItemIds.value
+    const level = activeLevel.value
+    const list = scheme.items.value
+    if (hiddenIds.size === 0 && !level) return list
+
+    return list.filter(
+      (item) => !hiddenIds.has(item.internalId) && (!level || isItemInLevel(item, level))
+    )
+  })
+
   // 场景内容版本号：任何已提交的物品变更都统一触发 full rebuild。
   // 拖拽过程中的临时预览仍走实例矩阵直写，但提交后的持久状态只认 sceneVersion。
   const sceneVersion = ref(0)
@@ -232,6 +263,12 @@ export const useEditorStore = defineStore('editor', () => {
       currentViewConfig: ref(undefined),
       viewState: ref(undefined),
       groupOrigins: shallowRef(new Map()),
+      selectionSets: shallowRef([]),
+      hiddenItemIds: shallowRef(new Set()),
+      lockedItemIds: shallowRef(new Set()),
+      levels: shallowRef([]),
+      activeLevelId: ref(null),
+      dimensions: shallowRef([]),
       history: shallowRef(undefined),
     }
 
@@ -313,6 +350,12 @@ export const useEditorStore = defineStore('editor', () => {
         currentViewConfig: ref(undefined),
         viewState: ref(undefined),
         groupOrigins: shallowRef(new Map()),
+        selectionSets: shallowRef([]),
+        hiddenItemIds: shallowRef(new Set()),
+        lockedItemIds: shallowRef(new Set()),
+        levels: shallowRef([]),
+        activeLevelId: ref(null),
+        dimensions: shallowRef([]),
         history: shallowRef(undefined),
       }
 
@@ -360,6 +403,16 @@ export const useEditorStore = defineStore('editor', () => {
       currentViewConfig: ref(snapshot.currentViewConfig),
       viewState: ref(snapshot.viewState),
       groupOrigins: shallowRef(new Map(snapshot.groupOrigins)),
+      selectionSets: shallowRef(
+        Array.isArray(snapshot.selectionSets)
+          ? pruneSelectionSets(snapshot.selectionSets, newItems)
+          : []
+      ),
+      hiddenItemIds: shallowRef(new Set()),
+      lockedItemIds: shallowRef(new Set()),
+      levels: shallowRef(Array.isArray(snapshot.levels) ? snapshot.levels : []),
+      activeLevelId: ref(null),
+      dimensions: shallowRef(Array.isArray(snapshot.dimensions) ? snapshot.dimensions : []),
       history: shallowRef(undefined),
     }
 
@@ -420,6 +473,12 @@ export const useEditorStore = defineStore('editor', () => {
       currentViewConfig: scheme.currentViewConfig,
       viewState: scheme.viewState,
       groupOrigins: scheme.groupOrigins,
+      selectionSets: scheme.selectionSets,
+      hiddenItemIds: scheme.hiddenItemIds,
+      lockedItemIds: scheme.lockedItemIds,
+      levels: scheme.levels,
+      activeLevelId: scheme.activeLevelId,
+      dimensions: scheme.dimensions,
       history: scheme.history,
     }
 
@@ -729,7 +788,7 @@ export const useEditorStore = defineStore('editor', () => {
   }
 
   // Gizmo 模式切换（互斥逻辑）
-  function setGizmoMode(mode: 'translate' | 'rotate' | null) {
+  function setGizmoMode(mode: 'translate' | 'rotate' | 'scale' | null) {
     // 如果点击当前激活的模式，则关闭；否则切换到新模式
     if (gizmoMode.value === mode) {
       gizmoMode.value = null
@@ -799,6 +858,8 @@ export const useEditorStore = defineStore('editor', () => {
     activeScheme,
     itemsMap,
     groupsMap,
+    activeLevel,
+    visibleItems,
     clipboardList: clipboardRef,
     currentTool,
     selectionMode,
@@ -298,13 +298,14 @@ export const useGameDataStore = defineStore('gameData', () => {
 
   /**
    * 获取所有家具的约束信息映射（用于 Worker 验证）
-   * @returns Map<gameId, {scaleRange, rotationAllowed}>
+   * @returns Map<gameId, {scaleRange, rotationAllowed, size}>
    */
   function getFurnitureConstraintsMap(): Map<
     string,
     {
       scaleRange: [number, number]
       rotationAllowed: { x: boolean; y: boolean; z: boolean }
+      size: [number, number, number]
     }
   > {
     const map = new Map()
@@ -313,6 +314,7 @@ export const useGameDataStore = defineStore('gameData', () => {
       map.set(gameId, {
         scaleRange: toRaw(furniture.scaleRange),
         rotationAllowed: toRaw(furniture.rotationAllowed),
+        size: toRaw(furniture.size),
       })
     }
 
@@ -18,6 +18,16 @@ export interface InputBindings {
     toggleIndividual: string // 支持任意组合键
     intersect: string // 支持任意组合键或 'none'
   }
+  transform: {
+    featureSnap: 'shift' | 'alt' | 'none' // 平移时按住吸附到顶点 / 边中点 / 面中心
+  }
+}
+
+// 保存的选择查询（跨方案通用）
+export interface SavedSelectionQuery {
+  id: string
+  name: string
+  query: string
 }
 
 // 应用设置接口
@@ -34,14 +44,19 @@ export interface AppSettings {
   // 编辑辅助
   enableDuplicateDetection: boolean
   enableLimitDetection: boolean
+  enableOverlapDetection: boolean // 同类物品重叠检测
+  overlapDetectionRatio: number // 重叠阈值：交叠体积占较小物品体积的比例 (0.1-1)
+  validationRuleToggles: Record<string, boolean> // 按规则 id 单独启用 / 禁用验证规则
   enableAutoSave: boolean
   mirrorWithRotation: boolean // 镜像时同时旋转
+  scaleAroundPivot: boolean // 缩放 Gizmo 同时按轴点缩放物品位置（整体缩放建筑）
   enableWatchNotification: boolean // 文件监控弹窗提示
 
   // 3D 视图设置
   threeDisplayMode: 'box' | 'icon' | 'simple-box' | 'model' // 3D 显示模式：立方体、图标、简化方块或模型
   modelAssetProfile: ModelAssetProfile // 模型资源档位：精简版或完整版
   threeSymbolScale: number // 图标/方块缩放比例 (1.0 = 100%)
+  levelDisplayMode: 'only' | 'ghost' // 选中楼层时：只显示该楼层，或半透明显示其他楼层
 
   // 相机设置
   cameraFov: number // 透视相机视场角 (30-90)
@@ -61,6 +76,8 @@ export interface AppSettings {
   rotationSnap: number // 旋转步进值，单位：弧度（0 表示禁用）
   enableSurfaceSnap: boolean // 启用表面碰撞吸附
   surfaceSnapThreshold: number // 表面吸附距离（单位）
+  enablePreciseSurfaceSnap: boolean // 表面吸附使用模型网格（模型未加载时回退到 OBB）
+  enableAlignmentGuides: boolean // 平移时显示对齐参考线并吸附
 
   // 调试
   showFpsMonitor: boolean
@@ -70,6 +87,9 @@ export interface AppSettings {
 
   // 输入绑定设置
   inputBindings: InputBindings
+
+  // 选择查询
+  savedSelectionQueries: SavedSelectionQuery[]
 }
 
 // 默认设置
@@ -81,12 +101,17 @@ const DEFAULT_SETTINGS: AppSettings = {
   autoUpdateFurniture: true,
   enableDuplicateDetection: true,
   enableLimitDetection: true,
+  enableOverlapDetection: false,
+  overlapDetectionRatio: 0.5,
+  validationRuleToggles: {},
   enableAutoSave: true,
   mirrorWithRotation: true,
+  scaleAroundPivot: false,
   enableWatchNotification: true,
   threeDisplayMode: 'simple-box',
   modelAssetProfile: 'lite',
   threeSymbolScale: 1.0,
+  levelDisplayMode: 'ghost',
   cameraFov: 50,
   cameraBaseSpeed: 1000,
   cameraShiftMultiplier: 4,
@@ -100,6 +125,8 @@ const DEFAULT_SETTINGS: AppSettings = {
   rotationSnap: 0,
   enableSurfaceSnap: false,
   surfaceSnapThreshold: 20,
+  enablePreciseSurfaceSnap: false,
+  enableAlignmentGuides: false,
   showFpsMonitor: false,
   language: 'zh',
   inputBindings: {
@@ -114,7 +141,11 @@ const DEFAULT_SETTINGS: AppSettings = {
       toggleIndividual: 'ctrl',
       intersect: 'shift+alt',
     },
+    transform: {
+      featureSnap: 'shift',
+    },
   },
+  savedSelectionQueries: [],
 }
 
 const STORAGE_KEY = 'buildingmomo_settings'
@@ -123,7 +154,12 @@ const PASSWORD_STORAGE_KEY = 'momo_lab_password'
 export const useSettingsStore = defineStore('settings', () => {
   // 使用 VueUse 的 useLocalStorage，自动持久化
   const settings = useLocalStorage<AppSettings>(STORAGE_KEY, DEFAULT_SETTINGS, {
-    mergeDefaults: true, // 自动合并默认值
+    // 自动合并默认值；inputBindings 按分组再合并一层，旧存档缺少的新分组取默认值
+    mergeDefaults: (stored, defaults) => ({
+      ...defaults,
+      ...stored,
+      inputBindings: { ...defaults.inputBindings, ...stored.inputBindings },
+    }),
   })
 
   // 认证状态
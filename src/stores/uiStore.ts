@@ -1,6 +1,11 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
-import type { WorkingCoordinateSystem } from '../types/editor'
+import { ref, shallowRef, computed } from 'vue'
+import type {
+  ClippingPlaneConfig,
+  MeasurePoint,
+  ScatterRegion,
+  WorkingCoordinateSystem,
+} from '../types/editor'
 import type { ViewPreset } from '../composables/useThreeCamera'
 import {
   convertPositionWorkingToGlobal,
@@ -15,11 +20,25 @@ interface Position {
   z: number
 }
 
+export type SidebarView =
+  | 'structure'
+  | 'transform'
+  | 'editorSettings'
+  | 'outliner'
+  | 'levels'
+  | 'diff'
+
 export interface ActiveSlidePathPoint {
   itemId: string
   pointIndex: number
 }
 
+// 特征点吸附的源点：记录在物品局部空间中，物品移动后仍跟随
+export interface FeatureSnapSource {
+  itemId: string
+  localPoint: { x: number; y: number; z: number }
+}
+
 import { useSettingsStore } from './settingsStore'
 
 /**
@@ -36,7 +55,7 @@ export const useUIStore = defineStore('ui', () => {
   const currentViewPreset = ref<ViewPreset>('perspective')
 
   // 侧边栏视图状态
-  const sidebarView = ref<'structure' | 'transform' | 'editorSettings'>('structure')
+  const sidebarView = ref<SidebarView>('structure')
   // 结构面板 hover 的物品类型（gameId），用于联动画布高亮
   const sidebarHoveredGameId = ref<number | null>(null)
 
@@ -47,6 +66,8 @@ export const useUIStore = defineStore('ui', () => {
     width: 0,
     height: 0,
   })
+  // 画布上最近一次指针位置（client 坐标），供拖拽中需要光标位置的逻辑读取
+  const editorPointerClient = shallowRef<{ clientX: number; clientY: number } | null>(null)
 
   // 工作坐标系状态
   const workingCoordinateSystem = ref<WorkingCoordinateSystem>({
@@ -58,6 +79,25 @@ export const useUIStore = defineStore('ui', () => {
     },
   })
 
+  // 剖切平面（最多 3 个，仅当前会话有效）
+  const clippingPlanes = ref<ClippingPlaneConfig[]>([])
+  // 当前显示 Gizmo 的剖切平面
+  const activeClippingPlaneId = ref<string | null>(null)
+
+  // 测量工具当前的起点和终点（0~2 个，固定为尺寸标注前仅当前会话有效）
+  const measurePoints = ref<MeasurePoint[]>([])
+
+  // 沿路径分布时在视图中绘制的折线（世界坐标，仅当前会话有效）
+  const isDrawingPath = ref(false)
+  const drawnPathPoints = ref<{ x: number; y: number; z: number }[]>([])
+
+  // 散布区域绘制（沿用框选 / 套索拖拽），结果保留到下次绘制，便于换 seed 重新散布
+  const isDrawingScatterRegion = ref(false)
+  const scatterRegion = ref<ScatterRegion | null>(null)
+
+  // 缩放 Gizmo 拖拽中是否有物品被截断到 scaleRange（用于视图提示）
+  const isScaleLimitHit = ref(false)
+
   // 底部状态栏折叠状态（仅影响布局，不持久化）
   const statusBarCollapsed = ref(false)
 
@@ -95,6 +135,10 @@ export const useUIStore = defineStore('ui', () => {
   // 替换家具：点选目标实例模式（临时状态，不持久化）
   const isSelectingReplaceTarget = ref(false)
 
+  // 特征点吸附：点选源点模式及结果（临时状态，不持久化）
+  const isSelectingSnapSource = ref(false)
+  const featureSnapSource = ref<FeatureSnapSource | null>(null)
+
   // 飞花滑道节点编辑目标（临时状态，不持久化）
   const activeSlidePathPoint = ref<ActiveSlidePathPoint | null>(null)
 
@@ -124,6 +168,10 @@ export const useUIStore = defineStore('ui', () => {
     editorContainerRect.value = rect
   }
 
+  function updateEditorPointerClient(clientX: number, clientY: number) {
+    editorPointerClient.value = { clientX, clientY }
+  }
+
   // ========== 工作坐标系管理 ==========
 
   function setWorkingCoordinateSystem(
@@ -262,7 +310,7 @@ export const useUIStore = defineStore('ui', () => {
 
   // ========== 侧边栏管理 ==========
 
-  function setSidebarView(view: 'structure' | 'transform' | 'editorSettings') {
+  function setSidebarView(view: SidebarView) {
     sidebarView.value = view
     console.log('[UIStore] Sidebar view set to:', view)
   }
@@ -292,6 +340,7 @@ export const useUIStore = defineStore('ui', () => {
       isSelectingAlignReference.value = false
       isSelectingQuickAlignTarget.value = false
       isSelectingReplaceTarget.value = false
+      isSelectingSnapSource.value = false
     }
     isSelectingGroupOrigin.value = selecting
     selectingForGroupId.value = selecting && groupId !== undefined ? groupId : null
@@ -305,6 +354,7 @@ export const useUIStore = defineStore('ui', () => {
       isSelectingAlignReference.value = false
       isSelectingQuickAlignTarget.value = false
       isSelectingReplaceTarget.value = false
+      isSelectingSnapSource.value = false
     }
     isSelectingPivotItem.value = selecting
     if (!selecting) {
@@ -324,6 +374,7 @@ export const useUIStore = defineStore('ui', () => {
       isSelectingPivotItem.value = false
       isSelectingQuickAlignTarget.value = false
       isSelectingReplaceTarget.value = false
+      isSelectingSnapSource.value = false
     }
     isSelectingAlignReference.value = selecting
     if (!selecting) {
@@ -337,6 +388,7 @@ export const useUIStore = defineStore('ui', () => {
       isSelectingPivotItem.value = false
       isSelectingAlignReference.value = false
       isSelectingReplaceTarget.value = false
+      isSelectingSnapSource.value = false
     }
     isSelectingQuickAlignTarget.value = selecting
   }
@@ -347,10 +399,66 @@ export const useUIStore = defineStore('ui', () => {
       isSelectingPivotItem.value = false
       isSelectingAlignReference.value = false
       isSelectingQuickAlignTarget.value = false
+      isSelectingSnapSource.value = false
     }
     isSelectingReplaceTarget.value = selecting
   }
 
+  function setSelectingSnapSource(selecting: boolean) {
+    if (selecting) {
+      isSelectingGroupOrigin.value = false
+      isSelectingPivotItem.value = false
+      isSelectingAlignReference.value = false
+      isSelectingQuickAlignTarget.value = false
+      isSelectingReplaceTarget.value = false
+      isDrawingPath.value = false
+      isDrawingScatterRegion.value = false
+    }
+    isSelectingSnapSource.value = selecting
+  }
+
+  function setFeatureSnapSource(source: FeatureSnapSource | null) {
+    featureSnapSource.value = source
+      ? { itemId: source.itemId, localPoint: { ...source.localPoint } }
+      : null
+  }
+
+  // ========== 路径绘制管理 ==========
+
+  // 开始绘制时清空上一条路径；结束时保留已绘制的点，等待外部消费
+  function setDrawingPath(drawing: boolean) {
+    if (drawing) {
+      isSelectingGroupOrigin.value = false
+      isSelectingPivotItem.value = false
+      isSelectingAlignReference.value = false
+      isSelectingQuickAlignTarget.value = false
+      isSelectingReplaceTarget.value = false
+      isSelectingSnapSource.value = false
+      isDrawingScatterRegion.value = false
+      drawnPathPoints.value = []
+    }
+    isDrawingPath.value = drawing
+  }
+
+  // ========== 散布区域绘制管理 ==========
+
+  function setDrawingScatterRegion(drawing: boolean) {
+    if (drawing) {
+      isSelectingGroupOrigin.value = false
+      isSelectingPivotItem.value = false
+      isSelectingAlignReference.value = false
+      isSelectingQuickAlignTarget.value = false
+      isSelectingReplaceTarget.value = false
+      isSelectingSnapSource.value = false
+      isDrawingPath.value = false
+    }
+    isDrawingScatterRegion.value = drawing
+  }
+
+  function setScatterRegion(region: ScatterRegion | null) {
+    scatterRegion.value = region
+  }
+
   function setActiveSlidePathPoint(target: ActiveSlidePathPoint | null) {
     activeSlidePathPoint.value = target ? { ...target } : null
   }
@@ -417,6 +525,14 @@ export const useUIStore = defineStore('ui', () => {
     // 状态
     viewMode,
     workingCoordinateSystem,
+    clippingPlanes,
+    activeClippingPlaneId,
+    measurePoints,
+    isDrawingPath,
+    drawnPathPoints,
+    isDrawingScatterRegion,
+    scatterRegion,
+    isScaleLimitHit,
     gizmoSpace,
     sidebarView,
     sidebarHoveredGameId,
@@ -431,6 +547,8 @@ export const useUIStore = defineStore('ui', () => {
     alignReferencePosition,
     isSelectingQuickAlignTarget,
     isSelectingReplaceTarget,
+    isSelectingSnapSource,
+    featureSnapSource,
     activeSlidePathPoint,
     statusBarCollapsed,
     sidebarCollapsed,
@@ -442,6 +560,8 @@ export const useUIStore = defineStore('ui', () => {
     setCurrentViewPreset,
     editorContainerRect,
     updateEditorContainerRect,
+    editorPointerClient,
+    updateEditorPointerClient,
 
     // 侧边栏
     setSidebarView,
@@ -483,6 +603,11 @@ export const useUIStore = defineStore('ui', () => {
     setAlignReferencePosition,
     setSelectingQuickAlignTarget,
     setSelectingReplaceTarget,
+    setSelectingSnapSource,
+    setFeatureSnapSource,
+    setDrawingPath,
+    setDrawingScatterRegion,
+    setScatterRegion,
     setActiveSlidePathPoint,
   }
 })
@@ -1,4 +1,10 @@
-import type { AppItem, ThreeViewState } from './editor'
+import type {
+  AppItem,
+  DimensionAnnotation,
+  SchemeLevel,
+  SelectionSet,
+  ThreeViewState,
+} from './editor'
 
 export const ARCHIVE_INDEX_VERSION = 1
 export const ARCHIVE_DEFAULT_GROUP_ID = 'default'
@@ -39,6 +45,9 @@ export interface ArchivedSchemeSnapshot {
   currentViewConfig?: { scale: number; x: number; y: number }
   viewState?: ThreeViewState
   groupOrigins: Array<[number, string]>
+  selectionSets?: SelectionSet[]
+  levels?: SchemeLevel[]
+  dimensions?: DimensionAnnotation[]
 }
 
 export interface ArchivedSchemeFile {
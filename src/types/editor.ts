@@ -82,6 +82,42 @@ export interface ThreeViewState {
 }
 
 // 家园方案（多文档架构） - 高性能重构版
+// 命名选择集（编辑器专用，不写入游戏存档）
+export interface SelectionSet {
+  id: string
+  name: string
+  itemIds: string[] // 成员物品 internalId（已删除的物品在读取和保存时过滤）
+}
+
+// 楼层：按高度（物品 Z 坐标）划分的区间，编辑器专用
+export interface SchemeLevel {
+  id: string
+  name: string
+  minZ: number // 下界（含）
+  maxZ: number // 上界（不含）
+}
+
+// 测量点：世界坐标及吸附来源（吸附到物品时记录物品 ID，用于固定标注时锚定）
+export interface MeasurePoint {
+  position: { x: number; y: number; z: number }
+  snap: 'center' | 'corner' | 'surface' | 'ground'
+  itemId?: string
+}
+
+// 尺寸标注端点：锚定物品时记录物品局部坐标（数据空间，不含缩放），随物品移动
+export interface DimensionAnchor {
+  itemId?: string
+  local?: { x: number; y: number; z: number }
+  point: { x: number; y: number; z: number } // 世界坐标（未锚定或锚定物品已删除时使用）
+}
+
+// 尺寸标注：固定在场景中的两点测量结果，编辑器专用
+export interface DimensionAnnotation {
+  id: string
+  start: DimensionAnchor
+  end: DimensionAnchor
+}
+
 export interface HomeScheme {
   readonly id: string // 方案唯一ID (不可变)
 
@@ -111,6 +147,21 @@ export interface HomeScheme {
   // 存储每个组的原点物品 ID，用于移动和旋转操作
   groupOrigins: ShallowRef<Map<number, string>> // groupId -> originItemId
 
+  // 命名选择集 (ShallowRef，整体替换)
+  selectionSets: ShallowRef<SelectionSet[]>
+
+  // 隐藏 / 锁定标记 (ShallowRef，整体替换)
+  // 仅编辑器使用，不写入游戏存档；隐藏的物品不渲染，锁定的物品不可选中、不受 Gizmo 影响
+  hiddenItemIds: ShallowRef<Set<string>>
+  lockedItemIds: ShallowRef<Set<string>>
+
+  // 楼层定义 (ShallowRef，整体替换) 与当前楼层 (null 表示显示全部楼层)
+  levels: ShallowRef<SchemeLevel[]>
+  activeLevelId: Ref<string | null>
+
+  // 尺寸标注 (ShallowRef，整体替换)
+  dimensions: ShallowRef<DimensionAnnotation[]>
+
   // 历史记录栈 (ShallowRef)
   history: ShallowRef<HistoryStack | undefined>
 }
@@ -173,6 +224,19 @@ export interface WorkingCoordinateSystem {
   }
 }
 
+// 剖切平面（视图状态，世界空间，不随方案保存）
+export interface ClippingPlaneConfig {
+  id: string
+  axis: 'x' | 'y' | 'z'
+  // 创建时是否对齐工作坐标系（旋转已折算进 normal）
+  alignedToWorking: boolean
+  // 平面法线（单位向量），保留法线指向的一侧
+  normal: { x: number; y: number; z: number }
+  // 平面经过的点，也是剖切 Gizmo 的位置
+  origin: { x: number; y: number; z: number }
+  enabled: boolean
+}
+
 export interface PatchItemChange {
   itemId: string
   before: AppItem
@@ -266,7 +330,57 @@ export interface StepRepeatConfig {
   scaleMultiplier: { x: number; y: number; z: number }
 }
 
+export interface RadialRepeatConfig {
+  repeatCount: number
+  center: { x: number; y: number; z: number } | null // 数据空间坐标；null 表示剪贴板内容的中心
+  axis: 'x' | 'y' | 'z'
+  alignToWorking: boolean // 旋转轴沿工作坐标系（否则沿世界坐标系）
+  angleMode: 'step' | 'sweep' // angle 表示每份间隔，或全部副本覆盖的总角度
+  angle: number // 度
+  heightStep: number // 每份沿旋转轴的升高（螺旋）
+  faceCenter: boolean // 副本随阵列一起转向，保持朝向中心
+}
+
+export interface GridRepeatConfig {
+  counts: { x: number; y: number; z: number } // 每个轴上的总份数（含原件所在的一格）
+  spacing: { x: number; y: number; z: number } // 相邻两份的间距；autoSpacing 时表示包围盒之外的额外间隙
+  autoSpacing: boolean // 间距取剪贴板内容的包围盒尺寸
+  alignToWorking: boolean // 沿工作坐标系的轴排列（否则沿世界坐标系）
+  grouping: 'copy' | 'row' // 每份一个新组合，或同一行（沿 X 排列的一排）共用一个组合
+}
+
+export interface PathRepeatConfig {
+  points: { x: number; y: number; z: number }[] // 路径折线（数据空间坐标）
+  count: number // 沿路径等弧长放置的份数（含起点和终点）
+  alignToPath: boolean // 副本绕 Z 轴转向路径切线方向（以剪贴板内容的 +X 为前方）
+}
+
+// 散布区域：数据空间中的水平多边形，z 为绘制时所在平面的高度
+export interface ScatterRegion {
+  points: { x: number; y: number }[]
+  z: number
+}
+
+export interface ScatterConfig {
+  count: number
+  spacing: number // 任意两件物品之间的最小水平距离（Poisson-disk 半径）
+  randomYaw: boolean
+  randomScale: boolean // 在各家具的 scaleRange 内随机等比缩放
+  followSurface: boolean // 通过射线检测贴合下方表面，否则放在区域平面上
+  seed: number
+}
+
+export interface RandomizeTransformConfig {
+  position: { x: number; y: number; z: number } // 各轴最大偏移（工作坐标系，±）
+  rotation: { x: number; y: number; z: number } // 各轴最大旋转角度（数据空间，±°）
+  scale: { min: number; max: number } // 等比缩放倍数范围
+  seed: number
+}
+
 // 判别联合类型：mode 决定哪些字段必须存在，避免运行时防御判断
 export type AdvancedPasteOptions =
   | { mode: 'preserveIds' }
   | { mode: 'stepRepeat'; stepRepeat: StepRepeatConfig }
+  | { mode: 'radialRepeat'; radialRepeat: RadialRepeatConfig }
+  | { mode: 'gridRepeat'; gridRepeat: GridRepeatConfig }
+  | { mode: 'pathRepeat'; pathRepeat: PathRepeatConfig }
@@ -1,4 +1,11 @@
-import type { AppItem, SchemeSource, ThreeViewState } from './editor'
+import type {
+  AppItem,
+  DimensionAnnotation,
+  SchemeLevel,
+  SchemeSource,
+  SelectionSet,
+  ThreeViewState,
+} from './editor'
 import type { Tab } from './tab'
 
 export interface HomeSchemeSnapshot {
@@ -13,6 +20,11 @@ export interface HomeSchemeSnapshot {
   currentViewConfig?: { scale: number; x: number; y: number }
   viewState?: ThreeViewState
   groupOrigins: Map<number, string> // IDB supports Map: groupId -> originItemId
+  selectionSets?: SelectionSet[] // 旧快照中不存在
+  hiddenItemIds?: Set<string> // 旧快照中不存在
+  lockedItemIds?: Set<string> // 旧快照中不存在
+  levels?: SchemeLevel[] // 旧快照中不存在
+  dimensions?: DimensionAnnotation[] // 旧快照中不存在
 }
 
 export interface WorkspaceSnapshot {
@@ -27,12 +39,34 @@ export interface WorkspaceSnapshot {
   }
 }
 
+export type ValidationSeverity = 'error' | 'warning' | 'info'
+
+/** 本地化消息（Worker 中无法翻译，由主线程按 key 渲染） */
+export interface ValidationMessage {
+  key: string
+  params?: Record<string, string | number>
+}
+
+/** 规则发现的单个问题 */
+export interface ValidationIssue {
+  /** 涉及的物品 internalId */
+  itemIds: string[]
+  message: ValidationMessage
+}
+
+/** 单条规则的检测结果（只包含存在问题的规则） */
+export interface ValidationFinding {
+  ruleId: string
+  severity: ValidationSeverity
+  /** 状态栏标签 i18n key，参数 {n} 为问题数量 */
+  label: string
+  /** 规则说明 i18n key，参数 {n} 为问题数量 */
+  description: string
+  /** 保存时的自动修复说明 i18n key（没有则表示保存时不处理） */
+  fix?: string
+  issues: ValidationIssue[]
+}
+
 export interface ValidationResult {
-  duplicateGroups: string[][]
-  limitIssues: {
-    outOfBoundsItemIds: string[]
-    oversizedGroups: number[]
-    invalidScaleItemIds: string[]
-    invalidRotationItemIds: string[]
-  }
+  findings: ValidationFinding[]
 }
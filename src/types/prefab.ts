@@ -0,0 +1,36 @@
+import type { AppItem, GameItem } from './editor'
+
+export const PREFAB_RECORD_VERSION = 1
+
+/**
+ * 预制件（IndexedDB 中的一条记录）
+ *
+ * items 的坐标已归一化到锚点（XY 中心 + 最低 Z），插入时再整体平移到目标位置。
+ */
+export interface PrefabRecord {
+  version: number
+  id: string
+  name: string
+  tags: string[]
+  /** 俯视图缩略图（PNG dataURL） */
+  icon: string | null
+  items: AppItem[]
+  /** 组原点：groupId -> originItem.internalId（对应 items 中的 internalId） */
+  groupOrigins: Array<[number, string]>
+  itemCount: number
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * 预制件导入/导出文件：沿用方案码 combination 的 `{ type, data }` 结构，
+ * 额外字段游戏侧会忽略，编辑器用来恢复名称、标签和组原点。
+ */
+export interface PrefabFile {
+  type: 'combination'
+  name?: string
+  tags?: string[]
+  /** groupId -> 原点物品的 InstanceID */
+  groupOrigins?: Array<[number, number]>
+  data: GameItem[]
+}
@@ -1,27 +1,24 @@
 import * as Comlink from 'comlink'
 import { saveWorkspaceSnapshot } from '../lib/workspaceSnapshotStore'
-import type { AppItem } from '../types/editor'
+import type { AppItem, DimensionAnnotation, SchemeLevel, SelectionSet } from '../types/editor'
 import type { WorkspaceSnapshot, ValidationResult } from '../types/persistence'
-
-// 浮点数容差常量
-// 用于处理浮点数存储精度误差，避免误报
-// - 缩放验证：如 0.699999988079071 vs 0.69999998807907
-// - 旋转验证：如 0.0000001 应视为 0（禁止旋转的轴）
-const EPSILON = 1e-6 // 0.000001
+import {
+  isValidationEnabled,
+  runValidationRules,
+  type FurnitureConstraint,
+  type ValidationSettings,
+} from '../lib/validationRules'
 
 // 状态
 let currentSnapshot: WorkspaceSnapshot | null = null
 let buildableAreas: Record<string, number[][]> | null = null
-let furnitureConstraints: Map<
-  string,
-  {
-    scaleRange?: [number, number]
-    rotationAllowed?: { x: boolean; y: boolean; z: boolean }
-  }
-> | null = null
+let furnitureConstraints: Map<string, FurnitureConstraint> | null = null
 let settings = {
   enableDuplicateDetection: true,
   enableLimitDetection: true,
+  enableOverlapDetection: false,
+  overlapDetectionRatio: 0.5,
+  validationRuleToggles: {} as Record<string, boolean>,
   enableAutoSave: false,
 }
 
@@ -29,196 +26,18 @@ function isWorldBuildFilePath(filePath?: string): boolean {
   return typeof filePath === 'string' && filePath.startsWith('WORLDBUILD_')
 }
 
-// --- 验证逻辑（适配 AppItem）---
-
-// 射线投射算法
-function isPointInPolygon(point: { x: number; y: number }, polygon: number[][]): boolean {
-  let inside = false
-  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-    const pi = polygon[i]
-    const pj = polygon[j]
-    if (!pi || !pj || pi.length < 2 || pj.length < 2) continue
-
-    const xi = pi[0]!
-    const yi = pi[1]!
-    const xj = pj[0]!
-    const yj = pj[1]!
-
-    const intersect =
-      yi > point.y !== yj > point.y && point.x < ((xj - xi) * (point.y - yi)) / (yj - yi) + xi
-    if (intersect) inside = !inside
-  }
-  return inside
-}
-
-function detectDuplicates(
-  items: AppItem[],
-  config: { enableDuplicateDetection: boolean }
-): string[][] {
-  if (!config.enableDuplicateDetection || items.length === 0) {
-    return []
-  }
-
-  // 映射索引：key = "gameId,x,y,z,pitch,yaw,roll,scaleX,scaleY,scaleZ"
-  const itemMap = new Map<string, string[]>()
-
-  for (const item of items) {
-    // AppItem 旋转：x=Roll, y=Pitch, z=Yaw
-    const rot = item.rotation
-    // 缩放在 extra 中
-    const scale = item.extra.Scale
-
-    const key = `${item.gameId},${item.x},${item.y},${item.z},${rot.y},${rot.z},${rot.x},${scale.X},${scale.Y},${scale.Z}`
-
-    let list = itemMap.get(key)
-    if (!list) {
-      list = []
-      itemMap.set(key, list)
-    }
-    list.push(item.internalId)
-  }
-
-  return Array.from(itemMap.values()).filter((group) => group.length > 1)
-}
-
-function checkLimits(
-  items: AppItem[],
-  config: { enableLimitDetection: boolean },
-  skipCoordinateChecks: boolean = false
-): {
-  outOfBoundsItemIds: string[]
-  oversizedGroups: number[]
-  invalidScaleItemIds: string[]
-  invalidRotationItemIds: string[]
-} {
-  const outOfBoundsItemIds: string[] = []
-  const oversizedGroups: number[] = []
-  const invalidScaleItemIds: string[] = []
-  const invalidRotationItemIds: string[] = []
-
-  if (!config.enableLimitDetection) {
-    return {
-      outOfBoundsItemIds,
-      oversizedGroups,
-      invalidScaleItemIds,
-      invalidRotationItemIds,
-    }
-  }
-
-  // 1. 组大小
-  const groupCounts = new Map<number, number>()
-  for (const item of items) {
-    const gid = item.groupId
-    if (gid > 0) {
-      groupCounts.set(gid, (groupCounts.get(gid) || 0) + 1)
-    }
-  }
-
-  groupCounts.forEach((count, gid) => {
-    if (count > 50) {
-      oversizedGroups.push(gid)
-    }
-  })
-
-  // 2. 边界（Z 和 XY）
-  const zRange = { min: -3500, max: 10200 }
-  const polygons = buildableAreas ? Object.values(buildableAreas) : []
-
-  if (!skipCoordinateChecks && (buildableAreas || zRange)) {
-    for (const item of items) {
-      let isInvalid = false
-
-      // 检查 Z
-      if (item.z < zRange.min || item.z > zRange.max) {
-        isInvalid = true
-      }
-
-      // 检查 XY
-      if (!isInvalid && polygons.length > 0) {
-        const point = { x: item.x, y: item.y }
-        let isInside = false
-
-        for (const polygon of polygons) {
-          if (isPointInPolygon(point, polygon)) {
-            isInside = true
-            break
-          }
-        }
-
-        if (!isInside) {
-          isInvalid = true
-        }
-      }
-
-      if (isInvalid) {
-        outOfBoundsItemIds.push(item.internalId)
-      }
-    }
-  }
-
-  // 3. 家具约束检查（缩放和旋转）
-  if (furnitureConstraints) {
-    for (const item of items) {
-      const constraints = furnitureConstraints.get(item.gameId.toString())
-      if (!constraints) continue
-
-      // 检查缩放是否在允许范围内（使用 epsilon 容差处理浮点数精度）
-      if (constraints.scaleRange) {
-        const scale = item.extra.Scale
-        const [min, max] = constraints.scaleRange
-
-        // 使用容差比较：只有超出范围 epsilon 以上才算违规
-        // 例如：min=0.699999988, max=1.299999952, 实际值=1.2999999 → 合规
-        if (
-          scale.X < min - EPSILON ||
-          scale.X > max + EPSILON ||
-          scale.Y < min - EPSILON ||
-          scale.Y > max + EPSILON ||
-          scale.Z < min - EPSILON ||
-          scale.Z > max + EPSILON
-        ) {
-          invalidScaleItemIds.push(item.internalId)
-        }
-      }
-
-      // 检查旋转是否在禁止的轴上（使用 epsilon 容差，避免浮点数精度误报）
-      if (constraints.rotationAllowed) {
-        const rot = item.rotation
-        const allowed = constraints.rotationAllowed
-
-        // X轴（Roll）检查 - 使用容差判断是否接近 0
-        if (!allowed.x && Math.abs(rot.x) > EPSILON) {
-          invalidRotationItemIds.push(item.internalId)
-          continue // 避免重复添加
-        }
-        // Y轴（Pitch）检查 - 使用容差判断是否接近 0
-        if (!allowed.y && Math.abs(rot.y) > EPSILON) {
-          invalidRotationItemIds.push(item.internalId)
-        }
-      }
-    }
-  }
-
-  return {
-    outOfBoundsItemIds,
-    oversizedGroups,
-    invalidScaleItemIds,
-    invalidRotationItemIds,
-  }
-}
+// --- 验证逻辑（规则见 lib/validationRules）---
 
 function runValidation(
   items: AppItem[],
-  config: { enableDuplicateDetection: boolean; enableLimitDetection: boolean },
+  config: ValidationSettings,
   schemeFilePath?: string
 ): ValidationResult {
-  const duplicates = detectDuplicates(items, config)
-  const limits = checkLimits(items, config, isWorldBuildFilePath(schemeFilePath))
-
-  return {
-    duplicateGroups: duplicates,
-    limitIssues: limits,
-  }
+  return runValidationRules(items, config, {
+    buildableAreas,
+    furnitureConstraints,
+    skipCoordinateChecks: isWorldBuildFilePath(schemeFilePath),
+  })
 }
 
 // --- 持久化逻辑 ---
@@ -267,29 +86,13 @@ function runValidationOnSnapshot(): ValidationResult {
   const activeSchemeId = getActiveSchemeIdFromSnapshot()
 
   if (!currentSnapshot || !activeSchemeId) {
-    return {
-      duplicateGroups: [],
-      limitIssues: {
-        outOfBoundsItemIds: [],
-        oversizedGroups: [],
-        invalidScaleItemIds: [],
-        invalidRotationItemIds: [],
-      },
-    }
+    return { findings: [] }
   }
 
   const activeScheme = currentSnapshot.editor.schemes.find((s) => s.id === activeSchemeId)
 
   if (!activeScheme) {
-    return {
-      duplicateGroups: [],
-      limitIssues: {
-        outOfBoundsItemIds: [],
-        oversizedGroups: [],
-        invalidScaleItemIds: [],
-        invalidRotationItemIds: [],
-      },
-    }
+    return { findings: [] }
   }
 
   return runValidation(activeScheme.items, settings, activeScheme.filePath)
@@ -305,10 +108,7 @@ const api = {
   },
 
   // 2. 纯验证 (无状态)
-  validate(
-    items: AppItem[],
-    config?: { enableDuplicateDetection: boolean; enableLimitDetection: boolean }
-  ): ValidationResult {
+  validate(items: AppItem[], config?: Partial<ValidationSettings>): ValidationResult {
     // 使用传入的配置，或者回退到 Worker 内部状态的配置
     const effectiveConfig = config ? { ...settings, ...config } : settings
     return runValidation(items, effectiveConfig)
@@ -337,6 +137,11 @@ const api = {
       currentViewConfig: any
       viewState: any
       groupOrigins: Map<number, string> // 组合原点映射: groupId -> originItemId
+      selectionSets: SelectionSet[]
+      hiddenItemIds: Set<string>
+      lockedItemIds: Set<string>
+      levels: SchemeLevel[]
+      dimensions: DimensionAnnotation[]
     }
     // 是否立即保存（跳过防抖）
     immediate?: boolean
@@ -368,6 +173,11 @@ const api = {
           currentViewConfig: undefined,
           viewState: undefined,
           groupOrigins: new Map(), // 初始化组合原点映射
+          selectionSets: [],
+          hiddenItemIds: new Set(),
+          lockedItemIds: new Set(),
+          levels: [],
+          dimensions: [],
         })
       }
     }
@@ -404,7 +214,7 @@ const api = {
 
     // 4. 返回验证结果 (仅当开启验证且有目标方案时)
     // 只要有一个验证开关开启，就执行验证
-    const shouldValidate = settings.enableDuplicateDetection || settings.enableLimitDetection
+    const shouldValidate = isValidationEnabled(settings)
 
     if (shouldValidate) {
       if (targetScheme) {
@@ -419,7 +229,7 @@ const api = {
 
   // 4. 主动触发全量验证
   revalidate(): ValidationResult | null {
-    const shouldValidate = settings.enableDuplicateDetection || settings.enableLimitDetection
+    const shouldValidate = isValidationEnabled(settings)
     if (!shouldValidate) return null
     return runValidationOnSnapshot()
   },
@@ -428,13 +238,16 @@ const api = {
   updateSettings(newSettings: {
     enableDuplicateDetection?: boolean
     enableLimitDetection?: boolean
+    enableOverlapDetection?: boolean
+    overlapDetectionRatio?: number
+    validationRuleToggles?: Record<string, boolean>
     enableAutoSave?: boolean
   }) {
     const oldAutoSave = settings.enableAutoSave
 
     settings = { ...settings, ...newSettings }
 
-    const newValidation = settings.enableDuplicateDetection || settings.enableLimitDetection
+    const newValidation = isValidationEnabled(settings)
 
     // 1. 处理自动保存开关变化
     if (settings.enableAutoSave) {
@@ -462,7 +275,7 @@ const api = {
   updateBuildableAreas(areas: Record<string, number[][]> | null) {
     buildableAreas = areas
 
-    const shouldValidate = settings.enableDuplicateDetection || settings.enableLimitDetection
+    const shouldValidate = isValidationEnabled(settings)
     if (shouldValidate) {
       return { validation: runValidationOnSnapshot() }
     }
@@ -470,19 +283,11 @@ const api = {
   },
 
   // 8. 更新家具约束 (缩放和旋转限制)
-  updateFurnitureConstraints(
-    constraintsObj: Record<
-      string,
-      {
-        scaleRange?: [number, number]
-        rotationAllowed?: { x: boolean; y: boolean; z: boolean }
-      }
-    > | null
-  ) {
+  updateFurnitureConstraints(constraintsObj: Record<string, FurnitureConstraint> | null) {
     // 将普通对象转换为 Map（Web Worker 不支持直接传递 Map）
     furnitureConstraints = constraintsObj ? new Map(Object.entries(constraintsObj)) : null
 
-    const shouldValidate = settings.enableDuplicateDetection || settings.enableLimitDetection
+    const shouldValidate = isValidationEnabled(settings)
     if (shouldValidate) {
       return { validation: runValidationOnSnapshot() }
     }